@@ -1,20 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import {
-  fetchFEMAFloodZone,
-  fetchElevationSummary,
-  fetchSoils,
-  fetchUSGSDesignMap,
-  geocodeAddress,
-  fetchFireHazard,
-  fetchClimateNormals,
-  fetchSPCTornadoOutlook
-} from "../../../lib/sources";
+import { attachSignalProvenance, buildLocationFacts, runSourceAdapters } from "../../../lib/adapters";
 import { buildImplications, buildSignals } from "../../../lib/signals";
-import { AnalysisResult, Fact } from "../../../lib/types";
+import { geocodeWarnings, parseProjectInputs, resolveSite, summarizeGeocode } from "../../../lib/site";
+import { AnalysisResult } from "../../../lib/types";
 import { V2AnalysisResult } from "../../../lib/types-v2";
 import {
   buildAdvancedSignals,
   buildBidAssumptions,
+  buildWeatherCalendar,
   buildContingency,
   buildCostDrivers,
   buildProbabilisticEstimate,
@@ -27,235 +20,63 @@ export const dynamic = "force-dynamic";
 const INFERRED_PROXY_SIGNAL_IDS = new Set([
   "wind-load-proxy",
   "snow-load-proxy",
-  "wetland-constraint-proxy",
-  "utility-capacity-proxy",
-  "permitting-complexity-proxy",
-  "logistics-access-proxy"
+  "permitting-complexity-proxy"
 ]);
 
-function addFact(facts: Fact[], fact: Fact) {
-  if (fact.value == null || fact.value === "") return;
-  facts.push(fact);
-}
-
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const address = body?.address?.trim();
+    const site = await resolveSite(body);
     const baselineCostUsd =
       typeof body?.baselineCostUsd === "number" && Number.isFinite(body.baselineCostUsd) && body.baselineCostUsd > 0
         ? body.baselineCostUsd
         : undefined;
-    if (!address) {
-      return NextResponse.json({ error: "Address required" }, { status: 400 });
+    if ("error" in site) {
+      return NextResponse.json({ error: site.error }, { status: 400 });
     }
-
-    const warnings: string[] = [];
-    const facts: Fact[] = [];
-
-    const geocode = await geocodeAddress(address);
-    const geocodeSource = geocode.source ?? "Geocoder";
-    addFact(facts, {
-      source: geocodeSource,
-      label: "Matched Address",
-      value: geocode.matchedAddress ?? address
-    });
-    addFact(facts, {
-      source: geocodeSource,
-      label: "Latitude",
-      value: geocode.location.lat
-    });
-    addFact(facts, {
-      source: geocodeSource,
-      label: "Longitude",
-      value: geocode.location.lon
-    });
-
-    const [usgs, fema, soils, elevation, fire, climate, severe] = await Promise.all([
-      fetchUSGSDesignMap(geocode.location).catch((err) => {
-        warnings.push(`USGS design maps unavailable: ${err.message}`);
-        return undefined;
-      }),
-      fetchFEMAFloodZone(geocode.location).catch((err) => {
-        warnings.push(`FEMA flood data unavailable: ${err.message}`);
-        return undefined;
-      }),
-      fetchSoils(geocode.location).catch((err) => {
-        warnings.push(`USDA soils unavailable: ${err.message}`);
-        return undefined;
-      }),
-      fetchElevationSummary(geocode.location).catch((err) => {
-        warnings.push(`USGS elevation unavailable: ${err.message}`);
-        return undefined;
-      }),
-      fetchFireHazard(geocode.location).catch((err) => {
-        warnings.push(`Fire hazard data unavailable: ${err.message}`);
-        return undefined;
-      }),
-      fetchClimateNormals(geocode.location).catch((err) => {
-        warnings.push(`Climate normals unavailable: ${err.message}`);
-        return undefined;
-      }),
-      fetchSPCTornadoOutlook(geocode.location).catch((err) => {
-        warnings.push(`NOAA SPC tornado outlook unavailable: ${err.message}`);
-        return undefined;
-      })
-    ]);
-
-    if (
-      soils &&
-      !soils.compname &&
-      !soils.hydrologicGroup &&
-      !soils.drainageClass &&
-      soils.clayPercent == null &&
-      soils.restrictiveDepthCm == null
-    ) {
-      warnings.push("USDA soils returned no mapped attributes at the geocoded location.");
+    const inputs = parseProjectInputs(body);
+    if ("error" in inputs) {
+      return NextResponse.json({ error: inputs.error }, { status: 400 });
     }
+    const { address, geocode, parcel } = site;
 
-    if (usgs) {
-      addFact(facts, { source: "USGS Design Maps", label: "SDS", value: usgs.sds ?? null, unit: "g" });
-      addFact(facts, { source: "USGS Design Maps", label: "SD1", value: usgs.sd1 ?? null, unit: "g" });
-      addFact(facts, { source: "USGS Design Maps", label: "PGA", value: usgs.pga ?? null, unit: "g" });
-      addFact(facts, { source: "USGS Design Maps", label: "SDC", value: usgs.sdc ?? null });
-    }
-
-    if (fema) {
-      const femaSource = fema.source ?? "FEMA NFHL";
-      addFact(facts, { source: femaSource, label: "Flood Zone", value: fema.floodZone ?? null });
-      addFact(facts, { source: femaSource, label: "Zone Subtype", value: fema.zoneSubtype ?? null });
-      addFact(facts, { source: femaSource, label: "Base Flood Elevation", value: fema.staticBfe ?? null, unit: "ft" });
-      addFact(facts, {
-        source: femaSource,
-        label: "SFHA Nearby",
-        value: fema.sfhaNearby == null ? null : fema.sfhaNearby ? "Yes" : "No"
-      });
-    }
+    const sources = await runSourceAdapters({ point: geocode.location, parcel, seismic: inputs.seismic });
+    const facts = [...buildLocationFacts(geocode, address, parcel), ...sources.facts];
+    const warnings = [...geocodeWarnings(geocode), ...sources.warnings];
 
-    if (soils) {
-      addFact(facts, { source: "USDA NRCS SSURGO", label: "Soil Component", value: soils.compname ?? null });
-      addFact(facts, { source: "USDA NRCS SSURGO", label: "Drainage Class", value: soils.drainageClass ?? null });
-      addFact(facts, { source: "USDA NRCS SSURGO", label: "Hydrologic Group", value: soils.hydrologicGroup ?? null });
-      addFact(facts, {
-        source: "USDA NRCS SSURGO",
-        label: "Restrictive Depth",
-        value: soils.restrictiveDepthCm ?? null,
-        unit: "cm"
-      });
-      addFact(facts, {
-        source: "USDA NRCS SSURGO",
-        label: "Surface Clay",
-        value: soils.clayPercent ?? null,
-        unit: "%"
-      });
-    }
-
-    if (elevation) {
-      addFact(facts, {
-        source: "USGS EPQS",
-        label: "Elevation",
-        value: elevation.elevationMeters ?? null,
-        unit: "m"
-      });
-      addFact(facts, {
-        source: "USGS EPQS",
-        label: "Local Relief",
-        value: elevation.reliefMeters ?? null,
-        unit: "m"
-      });
-      addFact(facts, {
-        source: "USGS EPQS",
-        label: "Approx Slope",
-        value: elevation.slopePercent ?? null,
-        unit: "%"
-      });
-    }
-
-    if (fire) {
-      addFact(facts, {
-        source: "USGS Wildland Fire",
-        label: "Wildfire Risk",
-        value: fire.wildfireRisk ?? null
-      });
-      addFact(facts, {
-        source: "USGS Wildland Fire",
-        label: "Fire Zone Category",
-        value: fire.fireZoneCategory ?? null
-      });
-    }
-
-    if (severe) {
-      addFact(facts, {
-        source: severe.source ?? "NOAA SPC Convective Outlooks",
-        label: "Day 1 Tornado Outlook",
-        value: severe.day1TornadoProbPct ?? null,
-        unit: "%"
-      });
-      addFact(facts, {
-        source: severe.source ?? "NOAA SPC Convective Outlooks",
-        label: "Day 2 Tornado Outlook",
-        value: severe.day2TornadoProbPct ?? null,
-        unit: "%"
-      });
-      addFact(facts, {
-        source: severe.source ?? "NOAA SPC Convective Outlooks",
-        label: "Day 1 Significant Tornado Area",
-        value: severe.day1Significant == null ? null : severe.day1Significant ? "Yes" : "No"
-      });
-      addFact(facts, {
-        source: severe.source ?? "NOAA SPC Convective Outlooks",
-        label: "Day 2 Significant Tornado Area",
-        value: severe.day2Significant == null ? null : severe.day2Significant ? "Yes" : "No"
-      });
-    }
-
-    if (climate) {
-      addFact(facts, {
-        source: climate.source ?? "Open-Meteo archive",
-        label: "Wind Design Proxy (P90 annual max)",
-        value: climate.designWindMph ?? null,
-        unit: "mph"
-      });
-      addFact(facts, {
-        source: climate.source ?? "Open-Meteo archive",
-        label: "Annual Snow Proxy (P90)",
-        value: climate.p90AnnualSnowCm ?? climate.annualSnowCm ?? null,
-        unit: "cm"
-      });
-      addFact(facts, {
-        source: climate.source ?? "Open-Meteo archive",
-        label: "Climate Analysis Years",
-        value: climate.analysisYears ?? null
-      });
-    }
-
-    const baseSignals = buildSignals({ fema, usgs, soils, elevation, fire, severe });
-    const advancedSignals = buildAdvancedSignals({
-      point: geocode.location,
-      fema,
-      soils,
-      elevation,
-      climate
-    });
+    const baseSignals = buildSignals({ ...sources.results, ...inputs });
+    const advancedSignals = buildAdvancedSignals({ ...sources.results, ...inputs });
     // Keep signals tab strictly source-verifiable by excluding inferred proxy heuristics.
-    const signals = [...baseSignals, ...advancedSignals].filter(
-      (signal) => !INFERRED_PROXY_SIGNAL_IDS.has(signal.id)
+    const signals = attachSignalProvenance(
+      [...baseSignals, ...advancedSignals].filter((signal) => !INFERRED_PROXY_SIGNAL_IDS.has(signal.id)),
+      sources
     );
     const implications = buildImplications(signals);
 
     const baseResult: AnalysisResult = {
       address,
       location: geocode.location,
+      parcel,
       facts,
       signals,
       implications,
-      warnings
+      warnings,
+      geocode: summarizeGeocode(geocode),
+      sources: sources.statuses,
+      soilProfile: sources.results.soils?.profile,
+      seismicBasis: sources.results.usgs?.basis,
+      seismicSpectrum: sources.results.usgs?.spectrum
     };
 
-    const costDrivers = buildCostDrivers(signals);
+    const weatherSchedule = buildWeatherCalendar(sources.results.climate, inputs.plannedStartDate);
+    const costDrivers = buildCostDrivers(signals, {
+      weather: weatherSchedule,
+      utilities: sources.results.utilities,
+      baselineCostUsd
+    });
     const actions = buildPMActions(signals);
     const contingency = buildContingency(signals);
-    const bidAssumptions = buildBidAssumptions(signals);
+    const bidAssumptions = buildBidAssumptions(signals, sources.results.climate?.frost);
     const probabilisticEstimate = buildProbabilisticEstimate({
       costDrivers,
       baselineCostUsd,
@@ -272,7 +93,9 @@ export async function POST(req: NextRequest) {
       probabilisticEstimate,
       costDrivers,
       actions,
-      bidAssumptions
+      bidAssumptions,
+      workabilityCalendar: sources.results.climate?.workability,
+      weatherSchedule
     };
 
     return NextResponse.json(result);
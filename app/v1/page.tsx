@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { NRI_COMPOSITE_SIGNAL_ID, NRI_HAZARDS, nriSignalId } from "../../lib/nri";
 import type { AnalysisResult, Signal } from "../../lib/types";
 
 const DEFAULT_ADDRESS = "3875 Reservoir Rd, Lima, OH 45801";
@@ -16,32 +17,59 @@ const SIGNAL_CATEGORIES: SignalCategory[] = [
   {
     name: "Flood Hazards",
     icon: "💧",
-    ids: ["flood-zone", "base-flood-elevation"],
+    ids: [
+      "flood-zone",
+      "floodplain-proximity",
+      "floodway",
+      "coastal-flood-zone",
+      "flood-map-revisions",
+      "firm-effective-date",
+      "base-flood-elevation",
+      "wetland-404"
+    ],
     color: "#6fd6a4"
   },
   {
     name: "Seismic",
     icon: "⚡",
-    ids: ["sdc", "sds", "sd1"],
+    ids: ["sdc", "sds", "sd1", "liquefaction", "fault-distance", "fault-within-500ft", "historical-earthquakes"],
     color: "#f1c86a"
   },
   {
     name: "Soils",
     icon: "🏔️",
-    ids: ["soil-drainage", "hydro-group", "clay", "restrictive-depth"],
+    ids: [
+      "soil-drainage",
+      "hydro-group",
+      "clay",
+      "restrictive-depth",
+      "shrink-swell",
+      "water-table-depth",
+      "bedrock-depth",
+      "frost-action",
+      "concrete-corrosivity",
+      "steel-corrosivity",
+      "soil-map-units"
+    ],
     color: "#8b7355"
   },
   {
     name: "Terrain",
     icon: "🗻",
-    ids: ["site-slope"],
+    ids: ["site-slope", "earthwork-volume"],
     color: "#9b8b6b"
   },
   {
     name: "Environmental",
     icon: "🔥",
-    ids: ["wildfire-risk"],
+    ids: ["wildfire-risk", "contamination-risk"],
     color: "#f08a7a"
+  },
+  {
+    name: "Community Risk",
+    icon: "🛡️",
+    ids: [NRI_COMPOSITE_SIGNAL_ID, ...NRI_HAZARDS.map((hazard) => nriSignalId(hazard.slug))],
+    color: "#7aa7f0"
   }
 ];
 
@@ -178,10 +206,10 @@ export default function Home() {
           <div className="notice" style={{ marginTop: "12px", background: "rgba(240, 138, 122, 0.1)", borderColor: "rgba(240, 138, 122, 0.3)" }}>
             <strong>💡 Tips:</strong>
             <ul style={{ margin: "8px 0 0 0", paddingLeft: "20px" }}>
-              <li>Try a simpler address format: "City, State ZIP"</li>
+              <li>Try a simpler address format: &quot;City, State ZIP&quot;</li>
               <li>Make sure the address is in the US Census database</li>
               <li>Rural or new addresses may not geocode</li>
-              <li>Example that works: "Davis, CA 95616"</li>
+              <li>Example that works: &quot;Davis, CA 95616&quot;</li>
             </ul>
           </div>
         </div>
@@ -1,12 +1,42 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
-import type { Signal } from "../../lib/types";
+import { NRI_COMPOSITE_SIGNAL_ID, NRI_HAZARDS, nriSignalId } from "../../lib/nri";
+import type { GeocodeCandidate, Provenance, ResponseSpectrum, SeismicSpectrum, Signal, SoilProfile } from "../../lib/types";
 import type { V2AnalysisResult } from "../../lib/types-v2";
+import { MONTH_LABELS } from "../../lib/workability";
+import type { MonthlyWorkability, WeatherSchedule } from "../../lib/workability";
 
 const DEFAULT_ADDRESS = "300 E Lincoln Way, Ames, IA 50010";
 
-type TabId = "signals" | "cost" | "actions" | "report";
+type TabId = "signals" | "cost" | "weather" | "actions" | "report";
+
+type SiteInputMode = "address" | "coordinates" | "parcel";
+
+const SITE_INPUT_LABELS: Record<SiteInputMode, string> = {
+  address: "Address",
+  coordinates: "Coordinates",
+  parcel: "Parcel GeoJSON"
+};
+
+// Builds the analyze request body for the selected input mode; throws with a user-facing message.
+function buildSiteBody(mode: SiteInputMode, address: string, coordinates: string, parcelText: string) {
+  if (mode === "coordinates") {
+    const [lat, lon] = coordinates.split(/[\s,]+/).filter(Boolean).map(Number);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
+      throw new Error("Enter coordinates as \"lat, lon\" in decimal degrees");
+    }
+    return { lat, lon };
+  }
+  if (mode === "parcel") {
+    try {
+      return { parcel: JSON.parse(parcelText) };
+    } catch {
+      throw new Error("Parcel boundary must be valid GeoJSON");
+    }
+  }
+  return { address };
+}
 
 type SignalGroup = {
   key: string;
@@ -21,43 +51,73 @@ const IMPORTANT_SIGNAL_GROUPS: SignalGroup[] = [
     key: "flood",
     title: "Flood Hazards",
     icon: "💧",
-    subtitle: "Floodplain status, elevation requirements, and environmental wetness constraints",
-    ids: ["flood-zone", "base-flood-elevation", "wetland-constraint-proxy"]
+    subtitle: "Floodplain status, elevation requirements, stormwater detention, and mapped wetlands",
+    ids: [
+      "flood-zone",
+      "floodplain-proximity",
+      "floodway",
+      "coastal-flood-zone",
+      "flood-map-revisions",
+      "firm-effective-date",
+      "base-flood-elevation",
+      "stormwater-detention",
+      "wetland-404"
+    ]
   },
   {
     key: "seismic",
     title: "Seismic",
     icon: "⚡",
-    subtitle: "Code-driven lateral demands and seismic design criteria",
-    ids: ["sdc", "sds", "sd1"]
+    subtitle: "Code-driven lateral demands, mapped faults, and recorded earthquakes",
+    ids: ["sdc", "sds", "sd1", "liquefaction", "fault-distance", "fault-within-500ft", "historical-earthquakes"]
   },
   {
     key: "climate-loads",
     title: "Wind & Snow",
     icon: "🌨️",
-    subtitle: "Weather-driven loading conditions affecting envelope and structure",
-    ids: ["wind-load-proxy", "snow-load-proxy"]
+    subtitle: "Weather-driven loading conditions and lost workdays",
+    ids: ["wind-load-proxy", "snow-load-proxy", "weather-workability"]
   },
   {
     key: "soils",
     title: "Soils",
     icon: "🏔️",
-    subtitle: "Drainage, hydrology, clay content, and subsurface restrictions",
-    ids: ["soil-drainage", "hydro-group", "clay", "restrictive-depth"]
+    subtitle: "Drainage, shrink-swell, groundwater, corrosivity, frost, and subsurface restrictions",
+    ids: [
+      "soil-drainage",
+      "hydro-group",
+      "clay",
+      "restrictive-depth",
+      "shrink-swell",
+      "water-table-depth",
+      "bedrock-depth",
+      "frost-action",
+      "frost-depth",
+      "concrete-corrosivity",
+      "steel-corrosivity",
+      "soil-map-units"
+    ]
   },
   {
     key: "terrain-logistics",
     title: "Terrain & Logistics",
     icon: "🗻",
-    subtitle: "Topography, access constraints, and utility context",
-    ids: ["site-slope", "logistics-access-proxy", "utility-capacity-proxy"]
+    subtitle: "Topography, truck access, haul distances, and utility extensions",
+    ids: ["site-slope", "earthwork-volume", "site-access", "haul-distance", "utility-extension"]
+  },
+  {
+    key: "community-risk",
+    title: "Community Risk",
+    icon: "🛡️",
+    subtitle: "FEMA National Risk Index ratings and expected annual loss for the census tract",
+    ids: [NRI_COMPOSITE_SIGNAL_ID, ...NRI_HAZARDS.map((hazard) => nriSignalId(hazard.slug))]
   },
   {
     key: "environmental",
     title: "Environmental & Permitting",
     icon: "🔥",
-    subtitle: "Wildfire exposure and review-path complexity",
-    ids: ["wildfire-risk", "permitting-complexity-proxy"]
+    subtitle: "Wildfire exposure, listed contamination sites, and review-path complexity",
+    ids: ["wildfire-risk", "contamination-risk", "permitting-complexity-proxy"]
   }
 ];
 
@@ -86,6 +146,339 @@ function groupAllSignals(signals: Signal[]): Array<SignalGroup & { signals: Sign
   return grouped;
 }
 
+function ProvenanceDrawer({ provenance }: { provenance?: Provenance[] }) {
+  if (!provenance || provenance.length === 0) return null;
+  return (
+    <details className="provenance-drawer">
+      <summary>Provenance</summary>
+      {provenance.map((item) => (
+        <dl key={item.sourceId} className="provenance-entry">
+          <dt>Source</dt>
+          <dd>{item.source}</dd>
+          {item.endpoint && (
+            <>
+              <dt>Endpoint</dt>
+              <dd>{item.endpoint}</dd>
+            </>
+          )}
+          {item.retrievedAt && (
+            <>
+              <dt>Retrieved</dt>
+              <dd>
+                {new Date(item.retrievedAt).toLocaleString()}
+                {item.cached ? " (cached)" : ""}
+              </dd>
+            </>
+          )}
+          {item.latencyMs != null && (
+            <>
+              <dt>Latency</dt>
+              <dd>{item.latencyMs} ms</dd>
+            </>
+          )}
+          <dt>Fallback</dt>
+          <dd>{item.fallbackUsed ? item.fallbackDetail ?? "Yes" : "No"}</dd>
+          {item.dataVintage && (
+            <>
+              <dt>Vintage</dt>
+              <dd>{item.dataVintage}</dd>
+            </>
+          )}
+          {item.sample && (
+            <>
+              <dt>Data</dt>
+              <dd>Illustrative sample, not real records</dd>
+            </>
+          )}
+        </dl>
+      ))}
+    </details>
+  );
+}
+
+const SPECTRUM_WIDTH = 560;
+const SPECTRUM_HEIGHT = 260;
+const SPECTRUM_MARGIN = { top: 16, right: 16, bottom: 36, left: 48 };
+const SPECTRUM_MAX_PERIOD_S = 6;
+
+function interpolateSpectrum(spectrum: ResponseSpectrum, period: number): number | null {
+  const { periods, ordinates } = spectrum;
+  if (period < periods[0] || period > periods[periods.length - 1]) return null;
+  for (let i = 1; i < periods.length; i++) {
+    if (period <= periods[i]) {
+      const span = periods[i] - periods[i - 1];
+      const t = span > 0 ? (period - periods[i - 1]) / span : 0;
+      return ordinates[i - 1] + t * (ordinates[i] - ordinates[i - 1]);
+    }
+  }
+  return ordinates[ordinates.length - 1];
+}
+
+function SpectrumChart({ spectrum }: { spectrum: SeismicSpectrum }) {
+  const [periodText, setPeriodText] = useState("");
+  const curves = [
+    { key: "design", label: "Design (Sa)", data: spectrum.design, className: "spectrum-design" },
+    { key: "mce", label: "MCER", data: spectrum.mce, className: "spectrum-mce" }
+  ].filter((curve): curve is { key: string; label: string; data: ResponseSpectrum; className: string } => Boolean(curve.data));
+  if (!curves.length) return null;
+
+  const maxPeriod = Math.min(SPECTRUM_MAX_PERIOD_S, Math.max(...curves.flatMap((c) => c.data.periods)));
+  const maxSa = Math.max(...curves.flatMap((c) => c.data.ordinates)) * 1.1 || 1;
+  const plotWidth = SPECTRUM_WIDTH - SPECTRUM_MARGIN.left - SPECTRUM_MARGIN.right;
+  const plotHeight = SPECTRUM_HEIGHT - SPECTRUM_MARGIN.top - SPECTRUM_MARGIN.bottom;
+  const x = (period: number) => SPECTRUM_MARGIN.left + (period / maxPeriod) * plotWidth;
+  const y = (sa: number) => SPECTRUM_MARGIN.top + plotHeight - (sa / maxSa) * plotHeight;
+  const periodTicks = Array.from({ length: Math.floor(maxPeriod) + 1 }, (_, i) => i);
+  const saTicks = [0, 0.25, 0.5, 0.75, 1].map((f) => f * maxSa);
+
+  const period = Number(periodText);
+  const hasPeriod = periodText !== "" && Number.isFinite(period) && period >= 0 && period <= maxPeriod;
+
+  return (
+    <div className="card spectrum-card">
+      <div className="section-title">Response Spectrum ({spectrum.kind})</div>
+      <div className="spectrum-meta">
+        {spectrum.tl != null && <span>TL {spectrum.tl} s</span>}
+        {spectrum.fa != null && <span>Fa {spectrum.fa}</span>}
+        {spectrum.fv != null && <span>Fv {spectrum.fv}</span>}
+        <label>
+          Estimated period T (s)
+          <input
+            type="number"
+            min="0"
+            step="0.05"
+            value={periodText}
+            onChange={(event) => setPeriodText(event.target.value)}
+          />
+        </label>
+      </div>
+      <svg className="spectrum-chart" viewBox={`0 0 ${SPECTRUM_WIDTH} ${SPECTRUM_HEIGHT}`} role="img" aria-label="Seismic response spectrum">
+        {saTicks.map((sa) => (
+          <g key={sa}>
+            <line className="spectrum-grid" x1={SPECTRUM_MARGIN.left} x2={SPECTRUM_WIDTH - SPECTRUM_MARGIN.right} y1={y(sa)} y2={y(sa)} />
+            <text className="spectrum-tick" x={SPECTRUM_MARGIN.left - 6} y={y(sa) + 4} textAnchor="end">{sa.toFixed(2)}</text>
+          </g>
+        ))}
+        {periodTicks.map((tick) => (
+          <text key={tick} className="spectrum-tick" x={x(tick)} y={SPECTRUM_HEIGHT - SPECTRUM_MARGIN.bottom + 16} textAnchor="middle">{tick}</text>
+        ))}
+        <text className="spectrum-tick" x={SPECTRUM_MARGIN.left + plotWidth / 2} y={SPECTRUM_HEIGHT - 4} textAnchor="middle">Period (s)</text>
+        {curves.map((curve) => (
+          <polyline
+            key={curve.key}
+            className={curve.className}
+            points={curve.data.periods
+              .map((p, i) => [p, curve.data.ordinates[i]])
+              .filter(([p]) => p <= maxPeriod)
+              .map(([p, sa]) => `${x(p).toFixed(1)},${y(sa).toFixed(1)}`)
+              .join(" ")}
+          />
+        ))}
+        {hasPeriod && (
+          <line className="spectrum-marker" x1={x(period)} x2={x(period)} y1={SPECTRUM_MARGIN.top} y2={SPECTRUM_MARGIN.top + plotHeight} />
+        )}
+      </svg>
+      <div className="spectrum-legend">
+        {curves.map((curve) => {
+          const sa = hasPeriod ? interpolateSpectrum(curve.data, period) : null;
+          return (
+            <span key={curve.key} className={`spectrum-legend-item ${curve.className}`}>
+              {curve.label}
+              {sa != null ? `: ${sa.toFixed(3)} g at T = ${period} s` : ""}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+const SOIL_CHART_DEPTH_CM = 200;
+const SOIL_CHART_TICKS = [0, 50, 100, 150, 200];
+
+// Sandy horizons read light, clayey horizons dark.
+function horizonColor(clayPercent: number | null): string {
+  if (clayPercent == null) return "rgba(169, 182, 176, 0.25)";
+  const t = Math.min(1, clayPercent / 60);
+  return `hsl(30, ${Math.round(35 + t * 25)}%, ${Math.round(62 - t * 34)}%)`;
+}
+
+function formatCell(value: number | null, digits = 0): string {
+  return value == null ? "-" : value.toFixed(digits);
+}
+
+function SoilColumnChart({ profile }: { profile: SoilProfile }) {
+  const components = profile.components.filter((component) => component.horizons.length > 0);
+  const [selectedKey, setSelectedKey] = useState(components[0]?.cokey);
+  if (!components.length) return null;
+  const selected = components.find((component) => component.cokey === selectedKey) ?? components[0];
+
+  return (
+    <div className="card soil-profile">
+      <div className="section-title">Soil Profile{profile.mapUnitName ? ` - ${profile.mapUnitName}` : ""}</div>
+      <div className="soil-columns">
+        <div className="soil-depth-axis">
+          <span className="soil-column-name">&nbsp;</span>
+          <span className="soil-column-pct">&nbsp;</span>
+          <span className="soil-column-body">
+            {SOIL_CHART_TICKS.map((tick) => (
+              <span key={tick} style={{ top: `${(tick / SOIL_CHART_DEPTH_CM) * 100}%` }}>{tick} cm</span>
+            ))}
+          </span>
+        </div>
+        {components.map((component) => (
+          <button
+            key={component.cokey}
+            type="button"
+            className={component.cokey === selected.cokey ? "soil-column active" : "soil-column"}
+            onClick={() => setSelectedKey(component.cokey)}
+          >
+            <span className="soil-column-name">{component.name}</span>
+            <span className="soil-column-pct">{Math.round(component.percent)}%</span>
+            <span className="soil-column-body">
+              {component.horizons
+                .filter((h) => h.topDepthCm != null && h.topDepthCm < SOIL_CHART_DEPTH_CM)
+                .map((h) => {
+                  const top = h.topDepthCm ?? 0;
+                  const bottom = Math.min(h.bottomDepthCm ?? SOIL_CHART_DEPTH_CM, SOIL_CHART_DEPTH_CM);
+                  return (
+                    <span
+                      key={`${h.name ?? ""}-${top}`}
+                      className="soil-horizon"
+                      title={`${h.name ?? "Horizon"} ${top}-${bottom} cm, clay ${formatCell(h.clayPercent)}%`}
+                      style={{
+                        top: `${(top / SOIL_CHART_DEPTH_CM) * 100}%`,
+                        height: `${((bottom - top) / SOIL_CHART_DEPTH_CM) * 100}%`,
+                        background: horizonColor(h.clayPercent)
+                      }}
+                    >
+                      {h.name} {h.unifiedClass}
+                    </span>
+                  );
+                })}
+            </span>
+          </button>
+        ))}
+      </div>
+      <div className="v2-table-wrap">
+        <table className="v2-table">
+          <thead>
+            <tr>
+              <th>{selected.name} horizon</th>
+              <th>Depth (cm)</th>
+              <th>Clay %</th>
+              <th>Sand %</th>
+              <th>Ksat (µm/s)</th>
+              <th>LEP %</th>
+              <th>AASHTO</th>
+              <th>Unified</th>
+            </tr>
+          </thead>
+          <tbody>
+            {selected.horizons.map((h) => (
+              <tr key={`${h.name ?? ""}-${h.topDepthCm}`}>
+                <td>{h.name ?? "-"}</td>
+                <td>{formatCell(h.topDepthCm)}-{formatCell(h.bottomDepthCm)}</td>
+                <td>{formatCell(h.clayPercent, 1)}</td>
+                <td>{formatCell(h.sandPercent, 1)}</td>
+                <td>{formatCell(h.ksatUmPerSec, 2)}</td>
+                <td>{formatCell(h.lepPercent, 1)}</td>
+                <td>{h.aashtoClass ?? "-"}</td>
+                <td>{h.unifiedClass ?? "-"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function WorkabilityCalendar({ calendar, schedule }: { calendar: MonthlyWorkability[]; schedule?: WeatherSchedule }) {
+  const maxLost = Math.max(...calendar.map((month) => month.p90LostWorkdays), 1);
+  return (
+    <div className="card">
+      <div className="section-title">Weather Workability Calendar</div>
+      <p className="group-subtitle">
+        Mean days per year by month. Lost workdays count weekdays with heavy rain, snow, a sub-freezing high, or extreme heat index.
+      </p>
+      <div className="v2-table-wrap">
+        <table className="v2-table">
+          <thead>
+            <tr>
+              <th>Month</th>
+              <th>Rain</th>
+              <th>Freezing</th>
+              <th>Heat</th>
+              <th>Snow</th>
+              <th>Lost Workdays (mean / P90)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {calendar.map((month) => (
+              <tr key={month.month}>
+                <td>{MONTH_LABELS[month.month - 1]}</td>
+                <td>{month.rainDays}</td>
+                <td>{month.freezingDays}</td>
+                <td>{month.heatDays}</td>
+                <td>{month.snowDays}</td>
+                <td>
+                  <span className="workability-bar">
+                    <span className="workability-bar-p90" style={{ width: `${(month.p90LostWorkdays / maxLost) * 100}%` }} />
+                    <span className="workability-bar-mean" style={{ width: `${(month.lostWorkdays / maxLost) * 100}%` }} />
+                  </span>
+                  {month.lostWorkdays} / {month.p90LostWorkdays}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {schedule && (
+        <>
+          <h3>Expected Weather Days by Phase</h3>
+          <p className="group-subtitle">
+            {schedule.plannedStartDate
+              ? `Phases start ${schedule.plannedStartDate}.`
+              : "No planned start given; phases use the year-round average rate."}
+          </p>
+          <div className="v2-table-wrap">
+            <table className="v2-table">
+              <thead>
+                <tr>
+                  <th>Phase</th>
+                  <th>Dates</th>
+                  <th>Duration</th>
+                  <th>Expected Lost Workdays</th>
+                  <th>P90 Lost Workdays</th>
+                </tr>
+              </thead>
+              <tbody>
+                {schedule.phases.map((phase) => (
+                  <tr key={phase.name}>
+                    <td>{phase.name}</td>
+                    <td>{phase.startDate ? `${phase.startDate} - ${phase.endDate}` : "-"}</td>
+                    <td>{phase.durationDays} days</td>
+                    <td>{phase.expectedLostWorkdays}</td>
+                    <td>{phase.p90LostWorkdays}</td>
+                  </tr>
+                ))}
+                <tr>
+                  <td><strong>Total</strong></td>
+                  <td />
+                  <td />
+                  <td><strong>{schedule.expectedLostWorkdays}</strong></td>
+                  <td><strong>{schedule.p90LostWorkdays}</strong></td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
 function downloadFile(filename: string, content: string, type: string) {
   const blob = new Blob([content], { type });
   const url = URL.createObjectURL(blob);
@@ -130,6 +523,17 @@ function toCsv(data: V2AnalysisResult): string {
     rows.push(`Cost Driver,Cost Category,${escapeCsv(d.costCategory)}`);
     rows.push(`Cost Driver,Cost Impact %,${d.estimatedCostDeltaPct.min}-${d.estimatedCostDeltaPct.max}`);
     rows.push(`Cost Driver,Schedule Days,${d.estimatedScheduleDeltaDays.min}-${d.estimatedScheduleDeltaDays.max}`);
+    if (d.estimatedCostUsd) {
+      rows.push(`Cost Driver,Cost Impact USD,${d.estimatedCostUsd.min}-${d.estimatedCostUsd.max}`);
+    }
+  }
+
+  for (const month of data.workabilityCalendar ?? []) {
+    rows.push(`Weather Calendar,${MONTH_LABELS[month.month - 1]} Lost Workdays,${month.lostWorkdays}`);
+  }
+
+  for (const phase of data.weatherSchedule?.phases ?? []) {
+    rows.push(`Weather Phase,${escapeCsv(phase.name)} Expected Lost Workdays,${phase.expectedLostWorkdays}`);
   }
 
   for (const a of data.actions) {
@@ -151,6 +555,11 @@ export default function V2Page() {
   const [data, setData] = useState<V2AnalysisResult | null>(null);
   const [recentAddresses, setRecentAddresses] = useState<string[]>([]);
   const [showRecent, setShowRecent] = useState(false);
+  const [siteMode, setSiteMode] = useState<SiteInputMode>("address");
+  const [coordinates, setCoordinates] = useState("");
+  const [parcelText, setParcelText] = useState("");
+  const [plannedStartDate, setPlannedStartDate] = useState("");
+  const [imperviousAreaSqFt, setImperviousAreaSqFt] = useState("");
 
   const topDrivers = useMemo(() => data?.costDrivers.slice(0, 5) ?? [], [data]);
   const groupedSignals = useMemo(
@@ -180,7 +589,7 @@ export default function V2Page() {
   }, []);
 
   useEffect(() => {
-    if (!data || !address.trim()) return;
+    if (!data || siteMode !== "address" || !address.trim()) return;
     const currentAddress = address.trim();
     setRecentAddresses((prev) => {
       const deduped = prev.filter((item) => item !== currentAddress);
@@ -188,18 +597,22 @@ export default function V2Page() {
       localStorage.setItem("recentAddressesV2", JSON.stringify(updated));
       return updated;
     });
-  }, [data, address]);
+  }, [data, address, siteMode]);
 
-  async function handleSubmit(event: React.FormEvent) {
-    event.preventDefault();
+  async function runAnalysis(candidate?: GeocodeCandidate) {
     setLoading(true);
     setError(null);
 
     try {
+      const siteBody = candidate ? { address, candidate } : buildSiteBody(siteMode, address, coordinates, parcelText);
       const res = await fetch("/api/analyze-v2", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ address })
+        body: JSON.stringify({
+          ...siteBody,
+          plannedStartDate: plannedStartDate || undefined,
+          imperviousAreaSqFt: imperviousAreaSqFt || undefined
+        })
       });
       const payload = await res.json();
       if (!res.ok) {
@@ -214,6 +627,17 @@ export default function V2Page() {
     }
   }
 
+  const showGeocodePicker = Boolean(
+    data?.geocode &&
+      data.geocode.candidates.length > 1 &&
+      (data.geocode.ambiguous || data.geocode.precision === "zip" || data.geocode.precision === "city")
+  );
+
+  function handleSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    runAnalysis();
+  }
+
   return (
     <main className="v2-page">
       <section className="hero v2-hero">
@@ -225,41 +649,92 @@ export default function V2Page() {
         </div>
         <div className="card fade-in v2-hero-card">
           <form className="form v2-hero-form" onSubmit={handleSubmit}>
-            <label className="address-label v2-address-label">Site Address</label>
+            <div className="site-mode-row">
+              {(Object.keys(SITE_INPUT_LABELS) as SiteInputMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  className={mode === siteMode ? "tab-button active" : "tab-button"}
+                  onClick={() => setSiteMode(mode)}
+                >
+                  {SITE_INPUT_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+            <label className="address-label v2-address-label">
+              {siteMode === "address" ? "Site Address" : siteMode === "coordinates" ? "Site Coordinates" : "Parcel Boundary"}
+            </label>
             <div className="v2-input-row">
-              <div className="input-container v2-input-container">
-                <input
-                  className="address-input v2-hero-input"
-                  value={address}
-                  onChange={(event) => setAddress(event.target.value)}
-                  onFocus={() => setShowRecent(true)}
-                  onBlur={() => setTimeout(() => setShowRecent(false), 150)}
-                  placeholder="123 Main St, City, ST 12345"
-                  autoComplete="off"
-                />
-                {recentAddresses.length > 0 && showRecent && (
-                  <div className="recent-addresses-dropdown v2-recent-dropdown">
-                    {recentAddresses.map((addr) => (
-                      <button
-                        key={addr}
-                        type="button"
-                        className="recent-address-item"
-                        onClick={() => {
-                          setAddress(addr);
-                          setShowRecent(false);
-                        }}
-                      >
-                        <span className="recent-icon">⏱️</span>
-                        <span>{addr}</span>
-                      </button>
-                    ))}
-                  </div>
-                )}
-              </div>
+              {siteMode === "coordinates" && (
+                <div className="input-container v2-input-container">
+                  <input
+                    className="address-input v2-hero-input"
+                    value={coordinates}
+                    onChange={(event) => setCoordinates(event.target.value)}
+                    placeholder="42.0228, -93.6077"
+                    autoComplete="off"
+                  />
+                </div>
+              )}
+              {siteMode === "parcel" && (
+                <div className="input-container v2-input-container">
+                  <textarea
+                    className="address-input parcel-input"
+                    value={parcelText}
+                    onChange={(event) => setParcelText(event.target.value)}
+                    placeholder='{"type": "Polygon", "coordinates": [[[-93.61, 42.02], [-93.60, 42.02], [-93.60, 42.03], [-93.61, 42.02]]]}'
+                    rows={5}
+                  />
+                </div>
+              )}
+              {siteMode === "address" && (
+                <div className="input-container v2-input-container">
+                  <input
+                    className="address-input v2-hero-input"
+                    value={address}
+                    onChange={(event) => setAddress(event.target.value)}
+                    onFocus={() => setShowRecent(true)}
+                    onBlur={() => setTimeout(() => setShowRecent(false), 150)}
+                    placeholder="123 Main St, City, ST 12345"
+                    autoComplete="off"
+                  />
+                  {recentAddresses.length > 0 && showRecent && (
+                    <div className="recent-addresses-dropdown v2-recent-dropdown">
+                      {recentAddresses.map((addr) => (
+                        <button
+                          key={addr}
+                          type="button"
+                          className="recent-address-item"
+                          onClick={() => {
+                            setAddress(addr);
+                            setShowRecent(false);
+                          }}
+                        >
+                          <span className="recent-icon">⏱️</span>
+                          <span>{addr}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
               <button type="submit" className="submit-button v2-hero-button" disabled={loading}>
                 {loading ? "Analyzing..." : "Run V2 Analysis"}
               </button>
             </div>
+            <label className="v2-start-row">
+              Planned start
+              <input type="date" value={plannedStartDate} onChange={(event) => setPlannedStartDate(event.target.value)} />
+            </label>
+            <label className="v2-start-row">
+              New impervious area (sq ft)
+              <input
+                type="number"
+                min="0"
+                value={imperviousAreaSqFt}
+                onChange={(event) => setImperviousAreaSqFt(event.target.value)}
+              />
+            </label>
             {data && (
               <div className="v2-export-row">
                 <button
@@ -289,6 +764,38 @@ export default function V2Page() {
         </div>
       )}
 
+      {data?.geocode && showGeocodePicker && (
+        <div className="card geocode-picker">
+          <div className="section-title">Confirm Site Location</div>
+          <p className="group-subtitle">
+            {data.geocode.ambiguous
+              ? "The address matched several distinct locations. Pick the intended site to re-run the analysis."
+              : `Best match is only ${data.geocode.precision}-level. Pick a more precise candidate if one fits.`}
+          </p>
+          <div className="geocode-candidates">
+            {data.geocode.candidates.map((candidate) => {
+              const selected =
+                candidate.location.lat === data.location?.lat && candidate.location.lon === data.location?.lon;
+              return (
+                <button
+                  key={`${candidate.source}-${candidate.location.lat}-${candidate.location.lon}`}
+                  type="button"
+                  className={selected ? "geocode-candidate selected" : "geocode-candidate"}
+                  disabled={loading || selected}
+                  onClick={() => runAnalysis(candidate)}
+                >
+                  <span className={`precision-badge precision-${candidate.precision}`}>{candidate.precision}</span>
+                  <span className="geocode-candidate-label">{candidate.matchedAddress}</span>
+                  <span className="geocode-candidate-meta">
+                    {candidate.location.lat.toFixed(5)}, {candidate.location.lon.toFixed(5)} · {candidate.source}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {data && (
         <section className="fade-in">
           <div className="card">
@@ -327,7 +834,7 @@ export default function V2Page() {
           </div>
 
           <div className="v2-tabs">
-            {(["signals", "cost", "actions", "report"] as TabId[]).map((tab) => (
+            {(["signals", "cost", "weather", "actions", "report"] as TabId[]).map((tab) => (
               <button
                 key={tab}
                 className={tab === activeTab ? "tab-button active" : "tab-button"}
@@ -336,6 +843,7 @@ export default function V2Page() {
               >
                 {tab === "signals" && "Signals"}
                 {tab === "cost" && "Cost Impacts"}
+                {tab === "weather" && "Weather Calendar"}
                 {tab === "actions" && "PM Actions"}
                 {tab === "report" && "Pre-Bid Brief"}
               </button>
@@ -369,6 +877,7 @@ export default function V2Page() {
                               </div>
                               <div className="signal-value">{signal.value}</div>
                               <p className="signal-explanation">{signal.explanation}</p>
+                              <ProvenanceDrawer provenance={signal.provenance} />
                             </div>
                           ))}
                         </div>
@@ -377,6 +886,8 @@ export default function V2Page() {
                   })}
                 </div>
               </div>
+              {data.seismicSpectrum && <SpectrumChart key={data.address} spectrum={data.seismicSpectrum} />}
+              {data.soilProfile && <SoilColumnChart key={data.soilProfile.mukey} profile={data.soilProfile} />}
             </div>
           )}
 
@@ -400,7 +911,11 @@ export default function V2Page() {
                         <td className="driver-cell">{d.label}</td>
                         <td><span className={`severity-badge severity-${d.severity}`}>{d.severity}</span></td>
                         <td>{d.costCategory}</td>
-                        <td className="impact-cell">{d.estimatedCostDeltaPct.min}% - {d.estimatedCostDeltaPct.max}%</td>
+                        <td className="impact-cell">
+                          {d.estimatedCostDeltaPct.min}% - {d.estimatedCostDeltaPct.max}%
+                          {d.estimatedCostUsd &&
+                            ` ($${d.estimatedCostUsd.min.toLocaleString()} - $${d.estimatedCostUsd.max.toLocaleString()})`}
+                        </td>
                         <td className="impact-cell">{d.estimatedScheduleDeltaDays.min} - {d.estimatedScheduleDeltaDays.max} days</td>
                       </tr>
                     ))}
@@ -410,6 +925,16 @@ export default function V2Page() {
             </div>
           )}
 
+          {activeTab === "weather" &&
+            (data.workabilityCalendar?.length ? (
+              <WorkabilityCalendar calendar={data.workabilityCalendar} schedule={data.weatherSchedule} />
+            ) : (
+              <div className="card">
+                <div className="section-title">Weather Workability Calendar</div>
+                <p className="group-subtitle">Climate archive unavailable for this site.</p>
+              </div>
+            ))}
+
           {activeTab === "actions" && (
             <div className="card">
               <div className="section-title">PM Action Register</div>
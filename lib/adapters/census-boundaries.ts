@@ -0,0 +1,34 @@
+import { resolveBoundaries } from "../boundaries";
+import { DAY_MS } from "../cache";
+import { SourceAdapter } from "./types";
+
+const SOURCE = "Census Boundaries";
+
+const METRO_LABELS = {
+  "major-metro": "Major metro",
+  metro: "Metro",
+  "non-metro": "Non-metro"
+} as const;
+
+export const censusBoundariesAdapter: SourceAdapter<"boundaries"> = {
+  id: "boundaries",
+  name: "Census geographies",
+  cacheTtlMs: 180 * DAY_MS,
+  signalIds: ["utility-extension", "permitting-complexity-proxy"],
+  fetch: ({ point }) => resolveBoundaries(point),
+  toFacts: (boundaries) => [
+    { source: SOURCE, label: "State", value: boundaries.state?.name ?? null, note: boundaries.state?.fips },
+    { source: SOURCE, label: "County", value: boundaries.county?.name ?? null, note: boundaries.county?.fips },
+    {
+      source: SOURCE,
+      label: "Core-Based Statistical Area",
+      value: boundaries.cbsa?.name ?? null,
+      note: boundaries.cbsa ? `${boundaries.cbsa.code}, ${boundaries.cbsa.type}` : undefined
+    },
+    { source: SOURCE, label: "Metro Class", value: METRO_LABELS[boundaries.metroClass] }
+  ],
+  health: (boundaries) =>
+    boundaries.provenance?.fallbackUsed
+      ? { status: "degraded", detail: boundaries.provenance.fallbackDetail ?? "Census geocoder unavailable." }
+      : { status: "ok" }
+};
@@ -0,0 +1,38 @@
+import { fetchClimateNormals } from "../sources";
+import { DAY_MS } from "../cache";
+import { annualLostWorkdays } from "../workability";
+import { SourceAdapter } from "./types";
+
+export const climateArchiveAdapter: SourceAdapter<"climate"> = {
+  id: "climate",
+  name: "Climate normals",
+  cacheTtlMs: 30 * DAY_MS,
+  signalIds: ["wind-load-proxy", "snow-load-proxy", "weather-workability", "frost-depth"],
+  fetch: ({ point }) => fetchClimateNormals(point),
+  toFacts: (climate) => {
+    const source = climate.source ?? "Open-Meteo archive";
+    return [
+      { source, label: "Wind Design Proxy (P90 annual max)", value: climate.designWindMph ?? null, unit: "mph" },
+      {
+        source,
+        label: "Annual Snow Proxy (P90)",
+        value: climate.p90AnnualSnowCm ?? climate.annualSnowCm ?? null,
+        unit: "cm"
+      },
+      {
+        source,
+        label: "Weather Lost Workdays",
+        value: climate.workability?.length ? annualLostWorkdays(climate.workability) : null,
+        unit: "workdays/yr"
+      },
+      { source, label: "Design Air Freezing Index", value: climate.frost?.designFreezingIndex ?? null, unit: "°F-days" },
+      { source, label: "Freeze-Thaw Cycles", value: climate.frost?.freezeThawCycles ?? null, unit: "cycles/yr" },
+      { source, label: "Frost Depth Estimate", value: climate.frost?.frostDepthIn ?? null, unit: "in" },
+      { source, label: "Climate Analysis Years", value: climate.analysisYears ?? null }
+    ];
+  },
+  health: (climate) =>
+    climate.analysisYears == null
+      ? { status: "degraded", detail: "Climate archive returned no usable daily series." }
+      : { status: "ok" }
+};
@@ -0,0 +1,46 @@
+import { ContaminationSiteType, fetchContamination } from "../sources";
+import { DAY_MS } from "../cache";
+import { SourceAdapter } from "./types";
+
+const SOURCE = "EPA Facility Registry Service";
+const FEET_PER_METER = 3.28084;
+const METERS_PER_MILE = 1609.344;
+
+const TYPE_FACTS: Array<{ type: ContaminationSiteType; label: string }> = [
+  { type: "superfund", label: "Superfund Sites" },
+  { type: "rcra", label: "RCRA Facilities" },
+  { type: "brownfield", label: "Brownfield Sites" },
+  { type: "lust", label: "Leaking UST Sites" },
+  { type: "ust", label: "Registered UST Facilities" }
+];
+
+export const epaFrsAdapter: SourceAdapter<"contamination"> = {
+  id: "contamination",
+  name: "EPA regulated-facility screening",
+  cacheTtlMs: 30 * DAY_MS,
+  signalIds: ["contamination-risk"],
+  fetch: ({ point, parcel }) => fetchContamination(point, parcel),
+  toFacts: (contamination) => [
+    { source: SOURCE, label: "Nearest Listed Facility", value: contamination.facilities[0]?.name ?? null },
+    {
+      source: SOURCE,
+      label: "Distance to Nearest Listed Facility",
+      value: contamination.facilities[0] ? Math.round(contamination.facilities[0].distanceMeters * FEET_PER_METER) : null,
+      unit: "ft",
+      note: contamination.facilities[0]?.type
+    },
+    ...TYPE_FACTS.filter(({ type }) => !contamination.unscreened.includes(type)).map(({ type, label }) => ({
+      source: SOURCE,
+      label: `${label} Within Search Distance`,
+      value: contamination.facilities.filter((facility) => facility.type === type).length,
+      note: `${contamination.searchRadiiMeters[type] / METERS_PER_MILE} mi (ASTM E1527)`
+    }))
+  ],
+  health: (contamination) =>
+    contamination.provenance?.fallbackUsed
+      ? {
+          status: "degraded",
+          detail: contamination.provenance.fallbackDetail ?? "Facility listings served from the bundled subset."
+        }
+      : { status: "ok" }
+};
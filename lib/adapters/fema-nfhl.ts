@@ -0,0 +1,92 @@
+import { fetchFEMAFloodZone, fetchFEMAFootprint } from "../sources";
+import { DAY_MS } from "../cache";
+import { formatShare } from "../footprint";
+import { SourceAdapter } from "./types";
+
+export const femaNfhlAdapter: SourceAdapter<"fema"> = {
+  id: "fema",
+  name: "FEMA flood data",
+  cacheTtlMs: 30 * DAY_MS,
+  signalIds: [
+    "flood-zone",
+    "floodplain-proximity",
+    "floodway",
+    "coastal-flood-zone",
+    "flood-map-revisions",
+    "firm-effective-date",
+    "base-flood-elevation",
+    "permitting-complexity-proxy"
+  ],
+  fetch: async ({ point, parcel, samples }) => {
+    const fema = await fetchFEMAFloodZone(point);
+    if (!parcel || !samples?.length) return fema;
+    try {
+      return { ...fema, footprint: await fetchFEMAFootprint(parcel, samples) };
+    } catch (err) {
+      const detail = `Footprint sampling failed (${err instanceof Error ? err.message : String(err)}); centroid only.`;
+      return { ...fema, provenance: { ...fema.provenance, fallbackUsed: true, fallbackDetail: detail } };
+    }
+  },
+  toFacts: (fema) => {
+    const source = fema.source ?? "FEMA NFHL";
+    return [
+      { source, label: "Flood Zone", value: fema.floodZone ?? null },
+      { source, label: "Zone Subtype", value: fema.zoneSubtype ?? null },
+      { source, label: "Base Flood Elevation", value: fema.staticBfe ?? null, unit: "ft" },
+      {
+        source,
+        label: "Distance to Nearest SFHA",
+        value: fema.sfhaDistanceMeters != null ? Math.round(fema.sfhaDistanceMeters) : null,
+        unit: "m",
+        note: fema.sfhaNearby === false ? `None within ${fema.sfhaSearchRadiusKm} km` : undefined
+      },
+      {
+        source,
+        label: "Regulatory Floodway",
+        value: fema.floodway == null ? null : fema.floodway ? "Yes" : "No"
+      },
+      {
+        source,
+        label: "Distance to Nearest Floodway",
+        value: fema.floodwayDistanceMeters != null ? Math.round(fema.floodwayDistanceMeters) : null,
+        unit: "m"
+      },
+      { source, label: "Coastal Flood Zone", value: fema.coastalZone ?? null },
+      {
+        source,
+        label: "LOMR/LOMA",
+        value: fema.mapRevisions
+          ? fema.mapRevisions.map((r) => [r.type, r.caseNumber].filter(Boolean).join(" ")).join(", ") || "None"
+          : null
+      },
+      { source, label: "FIRM Panel", value: fema.firmPanelNumber ?? null },
+      { source, label: "FIRM Effective Date", value: fema.firmEffectiveDate ?? null },
+      {
+        source,
+        label: "Footprint Flood Zones",
+        value: fema.footprint
+          ? fema.footprint.zones.map((share) => `${share.value.zone} ${formatShare(share.fraction)}`).join(", ")
+          : null,
+        note: fema.footprint ? `${fema.footprint.sampleCount} grid samples` : undefined
+      },
+      {
+        source,
+        label: "Footprint SFHA Share",
+        value: fema.footprint ? Math.round(fema.footprint.sfhaFraction * 100) : null,
+        unit: "%"
+      },
+      {
+        source,
+        label: "Footprint Floodway Share",
+        value: fema.footprint ? Math.round(fema.footprint.floodwayFraction * 100) : null,
+        unit: "%"
+      }
+    ];
+  },
+  health: (fema) =>
+    fema.provenance?.fallbackUsed && fema.provenance.fallbackDetail
+      ? { status: "degraded", detail: fema.provenance.fallbackDetail }
+      : fema.sfhaNearby == null
+        ? { status: "degraded", detail: "FEMA NFHL query failed; flood zone could not be determined." }
+        : { status: "ok" }
+};
@@ -0,0 +1,50 @@
+import { fetchNationalRiskIndex } from "../sources";
+import { DAY_MS } from "../cache";
+import { NRI_COMPOSITE_SIGNAL_ID, NRI_HAZARDS, nriSignalId } from "../nri";
+import { SourceAdapter } from "./types";
+
+const SOURCE = "FEMA National Risk Index";
+
+export const femaNriAdapter: SourceAdapter<"nri"> = {
+  id: "nri",
+  name: "FEMA National Risk Index",
+  cacheTtlMs: 180 * DAY_MS,
+  signalIds: [NRI_COMPOSITE_SIGNAL_ID, ...NRI_HAZARDS.map((hazard) => nriSignalId(hazard.slug))],
+  fetch: ({ point }) => fetchNationalRiskIndex(point),
+  toFacts: (nri) => [
+    {
+      source: SOURCE,
+      label: "Census Tract",
+      value: nri.tractFips ?? null,
+      note: nri.county ? `${nri.county}, ${nri.state}` : undefined
+    },
+    {
+      source: SOURCE,
+      label: "NRI Risk Rating",
+      value: nri.riskRating ?? null,
+      note: nri.riskScore != null ? `score ${nri.riskScore.toFixed(1)}` : undefined
+    },
+    {
+      source: SOURCE,
+      label: "Expected Annual Loss",
+      value: nri.expectedAnnualLossUsd != null ? Math.round(nri.expectedAnnualLossUsd) : null,
+      unit: "USD/yr",
+      note: nri.ealRating
+    },
+    { source: SOURCE, label: "Social Vulnerability", value: nri.socialVulnerabilityRating ?? null },
+    { source: SOURCE, label: "Community Resilience", value: nri.communityResilienceRating ?? null },
+    ...nri.hazards.map((hazard) => ({
+      source: SOURCE,
+      label: `${hazard.label} Risk`,
+      value: hazard.riskRating ?? null,
+      note:
+        hazard.expectedAnnualLossUsd != null
+          ? `EAL $${Math.round(hazard.expectedAnnualLossUsd).toLocaleString("en-US")}/yr`
+          : undefined
+    }))
+  ],
+  health: (nri) =>
+    nri.provenance?.fallbackUsed
+      ? { status: "degraded", detail: nri.provenance.fallbackDetail ?? "FEMA NRI served from the bundled tract table." }
+      : { status: "ok" }
+};
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { SOURCE_ADAPTERS, addFact } from "./index";
+import { Fact } from "../types";
+
+describe("addFact", () => {
+  it("drops missing and empty values but keeps zero", () => {
+    const facts: Fact[] = [];
+    addFact(facts, { source: "Test", label: "Missing", value: null });
+    addFact(facts, { source: "Test", label: "Empty", value: "" });
+    addFact(facts, { source: "Test", label: "Zero", value: 0 });
+    expect(facts.map((fact) => fact.label)).toEqual(["Zero"]);
+  });
+});
+
+describe("SOURCE_ADAPTERS", () => {
+  it("registers each source id once", () => {
+    const ids = SOURCE_ADAPTERS.map((adapter) => adapter.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
@@ -0,0 +1,238 @@
+import { CacheStore, coordinateKey, geometryKey, getCacheStore } from "../cache";
+import { footprintGrid } from "../footprint";
+import { parcelAreaSqMeters } from "../geo";
+import { GeocodeResult } from "../sources";
+import { Fact, ParcelGeometry, Provenance, Signal, SourceStatus } from "../types";
+import { censusBoundariesAdapter } from "./census-boundaries";
+import { climateArchiveAdapter } from "./climate-archive";
+import { epaFrsAdapter } from "./epa-frs";
+import { femaNfhlAdapter } from "./fema-nfhl";
+import { femaNriAdapter } from "./fema-nri";
+import { noaaAtlas14Adapter } from "./noaa-atlas14";
+import { osmRoadsAdapter } from "./osm-roads";
+import { spcOutlookAdapter } from "./spc-outlook";
+import { ssurgoSoilsAdapter } from "./ssurgo-soils";
+import { usfsWildfireHazardAdapter } from "./usfs-wildfire-hazard";
+import { usfwsNwiAdapter } from "./usfws-nwi";
+import { usgsComcatAdapter } from "./usgs-comcat";
+import { usgsDesignMapsAdapter } from "./usgs-design-maps";
+import { usgsElevationAdapter } from "./usgs-elevation";
+import { usgsQfaultsAdapter } from "./usgs-qfaults";
+import { utilityInfrastructureAdapter } from "./utility-infrastructure";
+import {
+  AnySourceAdapter,
+  SourceAdapter,
+  SourceContext,
+  SourceId,
+  SourceResults
+} from "./types";
+
+export type { SourceAdapter, SourceContext, SourceHealth, SourceId, SourceResults } from "./types";
+
+const SQ_METERS_PER_ACRE = 4046.856;
+
+// Registry order is the order facts are emitted in the response.
+export const SOURCE_ADAPTERS: AnySourceAdapter[] = [
+  censusBoundariesAdapter,
+  usgsDesignMapsAdapter,
+  usgsQfaultsAdapter,
+  usgsComcatAdapter,
+  femaNfhlAdapter,
+  usfwsNwiAdapter,
+  epaFrsAdapter,
+  ssurgoSoilsAdapter,
+  usgsElevationAdapter,
+  utilityInfrastructureAdapter,
+  osmRoadsAdapter,
+  usfsWildfireHazardAdapter,
+  spcOutlookAdapter,
+  climateArchiveAdapter,
+  noaaAtlas14Adapter,
+  femaNriAdapter
+];
+
+export type SourceRun = {
+  results: SourceResults;
+  facts: Fact[];
+  warnings: string[];
+  statuses: SourceStatus[];
+  provenance: Partial<Record<SourceId, Provenance>>;
+};
+
+export function addFact(facts: Fact[], fact: Fact) {
+  if (fact.value == null || fact.value === "") return;
+  facts.push(fact);
+}
+
+export function buildLocationFacts(geocode: GeocodeResult, address: string, parcel?: ParcelGeometry): Fact[] {
+  const source = geocode.source ?? "Geocoder";
+  const facts: Fact[] = [];
+  addFact(facts, { source, label: "Matched Address", value: geocode.matchedAddress ?? address });
+  addFact(facts, { source, label: "Latitude", value: geocode.location.lat });
+  addFact(facts, { source, label: "Longitude", value: geocode.location.lon });
+  addFact(facts, { source, label: "Match Precision", value: geocode.precision });
+  if (parcel) {
+    const acres = parcelAreaSqMeters(parcel) / SQ_METERS_PER_ACRE;
+    addFact(facts, { source, label: "Parcel Area", value: Math.round(acres * 100) / 100, unit: "acres" });
+  }
+  return facts;
+}
+
+type Settled<K extends SourceId> = {
+  adapter: SourceAdapter<K>;
+  data?: NonNullable<SourceResults[K]>;
+  error?: string;
+  retrievedAt?: string;
+  latencyMs?: number;
+  cache?: SourceStatus["cache"];
+};
+
+// Cached alongside the payload so a cache hit still reports the original retrieval timing.
+type CachedPayload = {
+  data: unknown;
+  latencyMs: number;
+};
+
+function cacheKeyFor(adapter: Pick<SourceAdapter, "id" | "cacheVariant">, ctx: SourceContext): string {
+  let key = `${adapter.id}:${coordinateKey(ctx.point)}`;
+  if (ctx.parcel) key += `:${geometryKey(ctx.parcel)}`;
+  if (adapter.cacheVariant) key += `:${adapter.cacheVariant(ctx)}`;
+  return key;
+}
+
+async function readCache(store: CacheStore, key: string) {
+  try {
+    return await store.get(key);
+  } catch {
+    return undefined;
+  }
+}
+
+async function settle<K extends SourceId>(adapter: SourceAdapter<K>, ctx: SourceContext): Promise<Settled<K>> {
+  const store = adapter.cacheTtlMs > 0 ? getCacheStore() : null;
+  const key = cacheKeyFor(adapter, ctx);
+  const ttlSeconds = Math.round(adapter.cacheTtlMs / 1000);
+
+  if (store) {
+    const entry = await readCache(store, key);
+    if (entry) {
+      const payload = entry.value as CachedPayload;
+      const storedAt = new Date(entry.storedAt).toISOString();
+      return {
+        adapter,
+        data: payload.data as NonNullable<SourceResults[K]>,
+        retrievedAt: storedAt,
+        latencyMs: payload.latencyMs,
+        cache: { hit: true, store: store.kind, storedAt, ttlSeconds }
+      };
+    }
+  }
+
+  const startedAt = Date.now();
+  let data: NonNullable<SourceResults[K]>;
+  try {
+    data = await adapter.fetch(ctx);
+  } catch (err) {
+    return { adapter, error: err instanceof Error ? err.message : String(err) };
+  }
+  const latencyMs = Date.now() - startedAt;
+
+  // Only healthy payloads are cached so a transient upstream outage is not replayed for months.
+  const healthy = (adapter.health?.(data).status ?? "ok") === "ok";
+  if (store && healthy) {
+    const value: CachedPayload = { data, latencyMs };
+    await store.set(key, { value, storedAt: startedAt, expiresAt: startedAt + adapter.cacheTtlMs }).catch(() => undefined);
+  }
+
+  return {
+    adapter,
+    data,
+    retrievedAt: new Date(startedAt).toISOString(),
+    latencyMs,
+    cache: store ? { hit: false, store: store.kind, ttlSeconds } : undefined
+  };
+}
+
+function collect<K extends SourceId>(settled: Settled<K>, run: SourceRun) {
+  const { adapter, data, error, cache } = settled;
+  if (data === undefined) {
+    run.warnings.push(`${adapter.name} unavailable: ${error ?? "no data returned"}`);
+    run.statuses.push({ id: adapter.id, name: adapter.name, status: "unavailable", detail: error });
+    return;
+  }
+
+  const provenance: Provenance = {
+    sourceId: adapter.id,
+    source: adapter.name,
+    ...data.provenance,
+    retrievedAt: settled.retrievedAt,
+    latencyMs: settled.latencyMs,
+    cached: cache?.hit ?? false
+  };
+
+  run.results[adapter.id] = data;
+  run.provenance[adapter.id] = provenance;
+  for (const fact of adapter.toFacts(data)) {
+    addFact(run.facts, { ...fact, provenance });
+  }
+
+  const health = adapter.health?.(data) ?? { status: "ok" };
+  run.statuses.push({ id: adapter.id, name: adapter.name, ...health, cache });
+  if (health.status !== "ok" && health.detail) {
+    run.warnings.push(health.detail);
+  }
+}
+
+export async function runSourceAdapters(
+  ctx: SourceContext,
+  options: { skip?: SourceId[] } = {}
+): Promise<SourceRun> {
+  const skip = new Set(options.skip ?? []);
+  if (ctx.parcel && !ctx.samples) {
+    ctx = { ...ctx, samples: footprintGrid(ctx.parcel) };
+  }
+  const adapters = SOURCE_ADAPTERS.filter((adapter) => !skip.has(adapter.id));
+
+  // Independent adapters start together; dependents start once their inputs have settled.
+  const pending = new Map<SourceId, Promise<Settled<SourceId>>>();
+  const start = (adapter: AnySourceAdapter): Promise<Settled<SourceId>> => {
+    const existing = pending.get(adapter.id);
+    if (existing) return existing;
+    const deps = adapters.filter((candidate) => adapter.dependsOn?.includes(candidate.id));
+    const promise = deps.length
+      ? Promise.all(deps.map(start)).then((inputs) => {
+          const results: SourceResults = {};
+          for (const input of inputs) {
+            if (input.data !== undefined) Object.assign(results, { [input.adapter.id]: input.data });
+          }
+          return settle(adapter as SourceAdapter, { ...ctx, results });
+        })
+      : settle(adapter as SourceAdapter, ctx);
+    pending.set(adapter.id, promise);
+    return promise;
+  };
+  const settled = await Promise.all(adapters.map(start));
+
+  const run: SourceRun = { results: {}, facts: [], warnings: [], statuses: [], provenance: {} };
+  for (const entry of settled) {
+    collect(entry, run);
+  }
+  return run;
+}
+
+// Attach the provenance of every source that feeds each signal, per the adapters' declared signalIds.
+export function attachSignalProvenance(signals: Signal[], run: SourceRun): Signal[] {
+  const bySignal = new Map<string, Provenance[]>();
+  for (const adapter of SOURCE_ADAPTERS) {
+    const provenance = run.provenance[adapter.id];
+    if (!provenance) continue;
+    for (const signalId of adapter.signalIds) {
+      bySignal.set(signalId, [...(bySignal.get(signalId) ?? []), provenance]);
+    }
+  }
+
+  return signals.map((signal) => {
+    const provenance = bySignal.get(signal.id);
+    return provenance ? { ...signal, provenance } : signal;
+  });
+}
@@ -0,0 +1,29 @@
+import { fetchPrecipitationFrequency } from "../sources";
+import { DAY_MS } from "../cache";
+import { precipitationDepthIn } from "../stormwater";
+import { SourceAdapter } from "./types";
+
+const SOURCE = "NOAA Atlas 14";
+
+export const noaaAtlas14Adapter: SourceAdapter<"rainfall"> = {
+  id: "rainfall",
+  name: "NOAA Atlas 14 precipitation frequency",
+  cacheTtlMs: 180 * DAY_MS,
+  signalIds: ["stormwater-detention"],
+  fetch: ({ point }) => fetchPrecipitationFrequency(point),
+  toFacts: (rainfall) => {
+    const depth = (duration: string, years: number) => precipitationDepthIn(rainfall, duration, years) ?? null;
+    return [
+      { source: SOURCE, label: "2-yr 24-hr Rainfall", value: depth("24-hr", 2), unit: "in" },
+      { source: SOURCE, label: "25-yr 24-hr Rainfall", value: depth("24-hr", 25), unit: "in" },
+      { source: SOURCE, label: "100-yr 24-hr Rainfall", value: depth("24-hr", 100), unit: "in" },
+      // A 60-minute depth in inches is also the hourly intensity in in/hr.
+      { source: SOURCE, label: "100-yr 1-hr Intensity", value: depth("60-min", 100), unit: "in/hr" },
+      { source: SOURCE, label: "Atlas 14 Region", value: rainfall.region ?? null }
+    ];
+  },
+  health: (rainfall) =>
+    rainfall.provenance?.fallbackUsed
+      ? { status: "degraded", detail: rainfall.provenance.fallbackDetail ?? "Atlas 14 depths served from the bundled table." }
+      : { status: "ok" }
+};
@@ -0,0 +1,48 @@
+import { HaulRoute, RoadAccess, resolveRoadAccess } from "../roads";
+import { DAY_MS } from "../cache";
+import { SourceAdapter } from "./types";
+
+const SOURCE = "OpenStreetMap Roads";
+const FEET_PER_METER = 3.28084;
+const METERS_PER_MILE = 1609.344;
+
+function driveMiles(route?: HaulRoute): number | null {
+  return route ? Math.round((route.driveMeters / METERS_PER_MILE) * 10) / 10 : null;
+}
+
+function lowestPosting(roads: RoadAccess): HaulRoute | undefined {
+  return [roads.highway, roads.readyMix, roads.aggregate]
+    .filter((route): route is HaulRoute => route?.weightLimitTons != null)
+    .sort((a, b) => (a.weightLimitTons ?? 0) - (b.weightLimitTons ?? 0))[0];
+}
+
+export const osmRoadsAdapter: SourceAdapter<"roads"> = {
+  id: "roads",
+  name: "OpenStreetMap roads (Overpass)",
+  cacheTtlMs: 30 * DAY_MS,
+  signalIds: ["site-access", "haul-distance"],
+  fetch: ({ point, parcel }) => resolveRoadAccess(point, parcel),
+  toFacts: (roads) => [
+    {
+      source: SOURCE,
+      label: "Distance to Truck Road",
+      value: roads.truckRoad ? Math.round(roads.truckRoad.distanceMeters * FEET_PER_METER) : null,
+      unit: "ft",
+      note: roads.truckRoad ? [roads.truckRoad.name, roads.truckRoad.ref, roads.truckRoad.highway].filter(Boolean).join(", ") : undefined
+    },
+    { source: SOURCE, label: "Drive to Interstate/US Highway", value: driveMiles(roads.highway), unit: "mi", note: roads.highway?.ref },
+    {
+      source: SOURCE,
+      label: "Lowest Posted Weight Limit on Haul Routes",
+      value: lowestPosting(roads)?.weightLimitTons ?? null,
+      unit: "tons",
+      note: lowestPosting(roads)?.weightLimitRoad
+    },
+    { source: SOURCE, label: "Drive to Ready-Mix Plant", value: driveMiles(roads.readyMix), unit: "mi", note: roads.readyMix?.name },
+    { source: SOURCE, label: "Drive to Aggregate Plant", value: driveMiles(roads.aggregate), unit: "mi", note: roads.aggregate?.name }
+  ],
+  health: (roads) =>
+    roads.provenance?.fallbackUsed
+      ? { status: "degraded", detail: roads.provenance.fallbackDetail ?? "Routed on the bundled road extract." }
+      : { status: "ok" }
+};
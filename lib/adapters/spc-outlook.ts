@@ -0,0 +1,28 @@
+import { fetchSPCTornadoOutlook } from "../sources";
+import { MINUTE_MS } from "../cache";
+import { SourceAdapter } from "./types";
+
+export const spcOutlookAdapter: SourceAdapter<"severe"> = {
+  id: "severe",
+  name: "NOAA SPC tornado outlook",
+  cacheTtlMs: 10 * MINUTE_MS,
+  signalIds: ["tornado-outlook"],
+  fetch: ({ point }) => fetchSPCTornadoOutlook(point),
+  toFacts: (severe) => {
+    const source = severe.source ?? "NOAA SPC Convective Outlooks";
+    return [
+      { source, label: "Day 1 Tornado Outlook", value: severe.day1TornadoProbPct ?? null, unit: "%" },
+      { source, label: "Day 2 Tornado Outlook", value: severe.day2TornadoProbPct ?? null, unit: "%" },
+      {
+        source,
+        label: "Day 1 Significant Tornado Area",
+        value: severe.day1Significant == null ? null : severe.day1Significant ? "Yes" : "No"
+      },
+      {
+        source,
+        label: "Day 2 Significant Tornado Area",
+        value: severe.day2Significant == null ? null : severe.day2Significant ? "Yes" : "No"
+      }
+    ];
+  }
+};
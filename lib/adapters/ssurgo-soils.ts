@@ -0,0 +1,78 @@
+import { fetchSoilFootprint, fetchSoils } from "../sources";
+import { DAY_MS } from "../cache";
+import { formatShare } from "../footprint";
+import { formatComponents } from "../soil-profile";
+import { SourceAdapter } from "./types";
+
+const SOURCE = "USDA NRCS SSURGO";
+
+export const ssurgoSoilsAdapter: SourceAdapter<"soils"> = {
+  id: "soils",
+  name: "USDA soils",
+  cacheTtlMs: 180 * DAY_MS,
+  signalIds: [
+    "soil-drainage",
+    "hydro-group",
+    "clay",
+    "restrictive-depth",
+    "shrink-swell",
+    "concrete-corrosivity",
+    "steel-corrosivity",
+    "frost-action",
+    "water-table-depth",
+    "bedrock-depth",
+    "liquefaction",
+    "soil-map-units",
+    "stormwater-detention"
+  ],
+  fetch: async ({ point, samples }) => {
+    const soils = await fetchSoils(point);
+    if (!samples?.length) return soils;
+    try {
+      return { ...soils, footprint: await fetchSoilFootprint(samples) };
+    } catch (err) {
+      const detail = `Footprint sampling failed (${err instanceof Error ? err.message : String(err)}); centroid only.`;
+      return { ...soils, provenance: { ...soils.provenance, fallbackUsed: true, fallbackDetail: detail } };
+    }
+  },
+  toFacts: (soils) => [
+    { source: SOURCE, label: "Map Unit", value: soils.profile?.mapUnitName ?? null },
+    { source: SOURCE, label: "Soil Component", value: soils.compname ?? null },
+    {
+      source: SOURCE,
+      label: "Soil Components",
+      value: soils.profile?.components.length ? formatComponents(soils.profile.components) : null,
+      note: soils.profile ? "Drainage, hydrologic group, clay and restrictive depth are component-weighted" : undefined
+    },
+    { source: SOURCE, label: "Drainage Class", value: soils.drainageClass ?? null },
+    { source: SOURCE, label: "Hydrologic Group", value: soils.hydrologicGroup ?? null },
+    { source: SOURCE, label: "Restrictive Depth", value: soils.restrictiveDepthCm ?? null, unit: "cm" },
+    { source: SOURCE, label: "Surface Clay", value: soils.clayPercent ?? null, unit: "%" },
+    { source: SOURCE, label: "Linear Extensibility", value: soils.shrinkSwellLepPercent ?? null, unit: "%" },
+    { source: SOURCE, label: "Concrete Corrosivity", value: soils.concreteCorrosion ?? null },
+    { source: SOURCE, label: "Steel Corrosivity", value: soils.steelCorrosion ?? null },
+    { source: SOURCE, label: "Frost Action", value: soils.frostAction ?? null },
+    { source: SOURCE, label: "Seasonal High Water Table", value: soils.waterTableDepthCm ?? null, unit: "cm" },
+    { source: SOURCE, label: "Depth to Bedrock", value: soils.bedrockDepthCm ?? null, unit: "cm" },
+    {
+      source: SOURCE,
+      label: "Footprint Soil Map Units",
+      value: soils.footprint
+        ? soils.footprint.mapUnits
+            .map((share) => `${share.value.name ?? share.value.compname ?? share.value.mukey} ${formatShare(share.fraction)}`)
+            .join(", ")
+        : null,
+      note: soils.footprint ? `${soils.footprint.sampleCount} grid samples` : undefined
+    }
+  ],
+  health: (soils) =>
+    !soils.compname &&
+    !soils.hydrologicGroup &&
+    !soils.drainageClass &&
+    soils.clayPercent == null &&
+    soils.restrictiveDepthCm == null
+      ? { status: "degraded", detail: "USDA soils returned no mapped attributes at the geocoded location." }
+      : soils.provenance?.fallbackUsed && soils.provenance.fallbackDetail
+        ? { status: "degraded", detail: soils.provenance.fallbackDetail }
+        : { status: "ok" }
+};
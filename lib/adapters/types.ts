@@ -0,0 +1,77 @@
+import {
+  ClimateData,
+  ContaminationData,
+  EarthquakeData,
+  ElevationSummary,
+  FaultData,
+  FEMAData,
+  FireHazardData,
+  NationalRiskData,
+  PrecipitationFrequencyData,
+  SevereWeatherData,
+  SoilData,
+  USGSDesignData,
+  WetlandData
+} from "../sources";
+import { SiteBoundaries } from "../boundaries";
+import { RoadAccess } from "../roads";
+import { UtilityContext } from "../utilities";
+import { SeismicInputs } from "../seismic";
+import { Fact, GeoPoint, ParcelGeometry } from "../types";
+
+// Keyed results of every registered source. Signal builders consume this shape directly.
+export type SourceResults = {
+  usgs?: USGSDesignData;
+  fema?: FEMAData;
+  wetlands?: WetlandData;
+  soils?: SoilData;
+  elevation?: ElevationSummary;
+  fire?: FireHazardData;
+  climate?: ClimateData;
+  rainfall?: PrecipitationFrequencyData;
+  severe?: SevereWeatherData;
+  faults?: FaultData;
+  earthquakes?: EarthquakeData;
+  nri?: NationalRiskData;
+  boundaries?: SiteBoundaries;
+  utilities?: UtilityContext;
+  roads?: RoadAccess;
+  contamination?: ContaminationData;
+};
+
+export type SourceId = keyof SourceResults;
+
+export type SourceContext = {
+  point: GeoPoint;
+  parcel?: ParcelGeometry;
+  // Grid sample points inside the parcel, shared by every footprint-aware adapter.
+  samples?: GeoPoint[];
+  // Requested code edition, risk category and site class for the seismic lookup.
+  seismic?: SeismicInputs;
+  // Results of the adapters listed in `dependsOn`, filled in by the registry.
+  results?: SourceResults;
+};
+
+export type SourceHealth = {
+  status: "ok" | "degraded" | "unavailable";
+  detail?: string;
+};
+
+export type SourceAdapter<K extends SourceId = SourceId> = {
+  id: K;
+  // Human-readable name used in warnings, e.g. "USGS design maps".
+  name: string;
+  // How long a healthy response may be served from cache; 0 disables caching.
+  cacheTtlMs: number;
+  // Signals built from this source; used to attach provenance to each signal.
+  signalIds: string[];
+  // Sources whose results this adapter needs in `ctx.results`; it runs after they settle.
+  dependsOn?: SourceId[];
+  // Distinguishes cache entries for the same location when request inputs change the response.
+  cacheVariant?: (ctx: SourceContext) => string;
+  fetch: (ctx: SourceContext) => Promise<NonNullable<SourceResults[K]>>;
+  toFacts: (data: NonNullable<SourceResults[K]>) => Fact[];
+  health?: (data: NonNullable<SourceResults[K]>) => SourceHealth;
+};
+
+export type AnySourceAdapter = { [K in SourceId]: SourceAdapter<K> }[SourceId];
@@ -0,0 +1,27 @@
+import { fetchFireHazard } from "../sources";
+import { DAY_MS } from "../cache";
+import { SourceAdapter } from "./types";
+
+const SOURCE = "USFS Wildfire Hazard Potential";
+
+export const usfsWildfireHazardAdapter: SourceAdapter<"fire"> = {
+  id: "fire",
+  name: "USFS wildfire hazard potential",
+  cacheTtlMs: 90 * DAY_MS,
+  signalIds: ["wildfire-risk"],
+  fetch: ({ point }) => fetchFireHazard(point),
+  toFacts: (fire) => [
+    {
+      source: SOURCE,
+      label: "Wildfire Hazard Potential",
+      value: fire.hazardPotential ?? null,
+      note: fire.hazardPotentialClass != null ? `class ${fire.hazardPotentialClass} of 7` : undefined
+    },
+    { source: SOURCE, label: "Wildfire Risk", value: fire.wildfireRisk ?? null },
+    { source: SOURCE, label: "Wildland-Urban Interface", value: fire.wuiClass ?? null }
+  ],
+  health: (fire) =>
+    fire.provenance?.fallbackUsed
+      ? { status: "degraded", detail: fire.provenance.fallbackDetail ?? "USFS wildfire services unavailable." }
+      : { status: "ok" }
+};
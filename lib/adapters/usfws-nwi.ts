@@ -0,0 +1,35 @@
+import { fetchWetlands } from "../sources";
+import { DAY_MS } from "../cache";
+import { SourceAdapter } from "./types";
+
+const SOURCE = "USFWS National Wetlands Inventory";
+const FEET_PER_METER = 3.28084;
+
+export const usfwsNwiAdapter: SourceAdapter<"wetlands"> = {
+  id: "wetlands",
+  name: "USFWS National Wetlands Inventory",
+  cacheTtlMs: 90 * DAY_MS,
+  signalIds: ["wetland-404", "permitting-complexity-proxy"],
+  fetch: ({ point, parcel, samples }) => fetchWetlands(point, parcel, samples),
+  toFacts: (wetlands) => [
+    { source: SOURCE, label: "Mapped Wetland On Site", value: wetlands.onSite ? "Yes" : "No" },
+    { source: SOURCE, label: "Nearest Mapped Wetland", value: wetlands.nearest?.wetlandType ?? null },
+    { source: SOURCE, label: "Wetland Classification", value: wetlands.nearest?.cowardinCode ?? null, note: "Cowardin code" },
+    {
+      source: SOURCE,
+      label: "Distance to Nearest Wetland",
+      value: wetlands.nearest ? Math.round(wetlands.nearest.distanceMeters * FEET_PER_METER) : null,
+      unit: "ft"
+    },
+    {
+      source: SOURCE,
+      label: "Wetlands Within Search Radius",
+      value: wetlands.wetlandCount,
+      note: `${Math.round(wetlands.searchRadiusMeters * FEET_PER_METER).toLocaleString("en-US")} ft`
+    }
+  ],
+  health: (wetlands) =>
+    wetlands.provenance?.fallbackUsed
+      ? { status: "degraded", detail: wetlands.provenance.fallbackDetail ?? "NWI served from the bundled wetland subset." }
+      : { status: "ok" }
+};
@@ -0,0 +1,33 @@
+import { fetchEarthquakeHistory } from "../sources";
+import { DAY_MS } from "../cache";
+import { SourceAdapter } from "./types";
+
+const SOURCE = "USGS ComCat";
+
+export const usgsComcatAdapter: SourceAdapter<"earthquakes"> = {
+  id: "earthquakes",
+  name: "USGS ComCat earthquake catalog",
+  cacheTtlMs: 7 * DAY_MS,
+  signalIds: ["historical-earthquakes"],
+  fetch: ({ point }) => fetchEarthquakeHistory(point),
+  toFacts: (quakes) => [
+    {
+      source: SOURCE,
+      label: "Recorded Earthquakes",
+      value: quakes.eventCount,
+      note: `M${quakes.minMagnitude}+ within ${quakes.searchRadiusKm} km`
+    },
+    { source: SOURCE, label: "Max Historical Magnitude", value: quakes.largest?.magnitude ?? null, note: quakes.largest?.place },
+    { source: SOURCE, label: "Largest Event Date", value: quakes.largest?.time ?? null },
+    {
+      source: SOURCE,
+      label: "Largest Event Distance",
+      value: quakes.largest ? Math.round(quakes.largest.distanceKm) : null,
+      unit: "km"
+    }
+  ],
+  health: (quakes) =>
+    quakes.provenance?.fallbackUsed
+      ? { status: "degraded", detail: "USGS ComCat unavailable; earthquake history screened against a bundled subset of significant events only." }
+      : { status: "ok" }
+};
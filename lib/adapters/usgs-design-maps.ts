@@ -0,0 +1,41 @@
+import { fetchUSGSDesignMap } from "../sources";
+import { DAY_MS } from "../cache";
+import { resolveSeismicBasis } from "../seismic";
+import { SourceAdapter, SourceContext } from "./types";
+
+const SOURCE = "USGS Design Maps";
+
+// Site class may be inferred from SSURGO, so the basis is resolved after soils settle.
+function basisFor(ctx: SourceContext) {
+  return resolveSeismicBasis(ctx.seismic, ctx.results?.soils);
+}
+
+export const usgsDesignMapsAdapter: SourceAdapter<"usgs"> = {
+  id: "usgs",
+  name: "USGS design maps",
+  cacheTtlMs: 180 * DAY_MS,
+  signalIds: ["sdc", "sds", "sd1", "liquefaction"],
+  dependsOn: ["soils"],
+  cacheVariant: (ctx) => {
+    const basis = basisFor(ctx);
+    return `${basis.edition}-${basis.riskCategory}-${basis.siteClass}`;
+  },
+  fetch: (ctx) => fetchUSGSDesignMap(ctx.point, basisFor(ctx)),
+  toFacts: (usgs) => [
+    { source: SOURCE, label: "SDS", value: usgs.sds ?? null, unit: "g" },
+    { source: SOURCE, label: "SD1", value: usgs.sd1 ?? null, unit: "g" },
+    { source: SOURCE, label: "PGA", value: usgs.pga ?? null, unit: "g" },
+    { source: SOURCE, label: "PGAM", value: usgs.pgam ?? null, unit: "g" },
+    { source: SOURCE, label: "SDC", value: usgs.sdc ?? null },
+    { source: SOURCE, label: "Fa", value: usgs.spectrum?.fa ?? null },
+    { source: SOURCE, label: "Fv", value: usgs.spectrum?.fv ?? null },
+    { source: SOURCE, label: "TL", value: usgs.spectrum?.tl ?? null, unit: "s" },
+    { source: SOURCE, label: "Design Code", value: usgs.basis?.codeReference ?? null },
+    { source: SOURCE, label: "Risk Category", value: usgs.basis?.riskCategory ?? null },
+    { source: SOURCE, label: "Site Class", value: usgs.basis?.siteClass ?? null, note: usgs.basis?.siteClassBasis }
+  ],
+  health: (usgs) =>
+    usgs.sdc == null && usgs.sds == null && usgs.sd1 == null
+      ? { status: "degraded", detail: "USGS design maps returned no design values for the site." }
+      : { status: "ok" }
+};
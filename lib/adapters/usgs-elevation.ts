@@ -0,0 +1,42 @@
+import { fetchElevationSummary } from "../sources";
+import { DAY_MS } from "../cache";
+import { formatSlopeDistribution } from "../terrain";
+import { SourceAdapter } from "./types";
+
+const SOURCE = "USGS 3DEP";
+
+export const usgsElevationAdapter: SourceAdapter<"elevation"> = {
+  id: "elevation",
+  name: "USGS elevation",
+  cacheTtlMs: 180 * DAY_MS,
+  signalIds: ["site-slope", "earthwork-volume"],
+  fetch: ({ point, parcel }) => fetchElevationSummary(point, parcel),
+  toFacts: (elevation) => {
+    const terrain = elevation.terrain;
+    return [
+      { source: SOURCE, label: "Elevation", value: elevation.elevationMeters ?? null, unit: "m" },
+      { source: SOURCE, label: "Max Relief", value: elevation.reliefMeters ?? null, unit: "m" },
+      {
+        source: SOURCE,
+        label: "Mean Slope",
+        value: elevation.slopePercent ?? null,
+        unit: "%",
+        note: terrain ? `${terrain.sampleCount} grid samples at ${Math.round(terrain.spacingMeters)} m spacing` : undefined
+      },
+      { source: SOURCE, label: "P90 Slope", value: terrain?.p90SlopePercent ?? null, unit: "%" },
+      { source: SOURCE, label: "Max Slope", value: terrain?.maxSlopePercent ?? null, unit: "%" },
+      {
+        source: SOURCE,
+        label: "Slope Distribution",
+        value: terrain ? formatSlopeDistribution(terrain.slopeDistribution) || null : null
+      },
+      { source: SOURCE, label: "Aspect", value: terrain ? terrain.aspect ?? "Flat" : null }
+    ];
+  },
+  health: (elevation) =>
+    elevation.terrain == null
+      ? { status: "degraded", detail: "USGS elevation returned no usable terrain grid for the site." }
+      : elevation.provenance?.fallbackUsed && elevation.provenance.fallbackDetail
+        ? { status: "degraded", detail: elevation.provenance.fallbackDetail }
+        : { status: "ok" }
+};
@@ -0,0 +1,35 @@
+import { fetchQuaternaryFaults } from "../sources";
+import { DAY_MS } from "../cache";
+import { SourceAdapter } from "./types";
+
+const SOURCE = "USGS Quaternary Faults";
+const FEET_PER_METER = 3.28084;
+
+export const usgsQfaultsAdapter: SourceAdapter<"faults"> = {
+  id: "faults",
+  name: "USGS Quaternary fault database",
+  cacheTtlMs: 180 * DAY_MS,
+  signalIds: ["fault-distance", "fault-within-500ft"],
+  fetch: ({ point }) => fetchQuaternaryFaults(point),
+  toFacts: (faults) => [
+    { source: SOURCE, label: "Nearest Quaternary Fault", value: faults.nearest?.name ?? null },
+    {
+      source: SOURCE,
+      label: "Distance to Nearest Fault",
+      value: faults.nearest ? Math.round(faults.nearest.distanceMeters * FEET_PER_METER) : null,
+      unit: "ft"
+    },
+    { source: SOURCE, label: "Most Recent Fault Activity", value: faults.nearest?.age ?? null },
+    { source: SOURCE, label: "Fault Slip Rate", value: faults.nearest?.slipRate ?? null },
+    {
+      source: SOURCE,
+      label: "Faults Within Search Radius",
+      value: faults.faultCount,
+      note: `${faults.searchRadiusKm} km`
+    }
+  ],
+  health: (faults) =>
+    faults.provenance?.fallbackUsed
+      ? { status: "degraded", detail: "USGS Qfaults unavailable; fault distance screened against a bundled subset of major faults only." }
+      : { status: "ok" }
+};
@@ -0,0 +1,67 @@
+import { UtilityAsset, resolveUtilities } from "../utilities";
+import { SourceAdapter } from "./types";
+
+const SOURCE = "Utility Infrastructure";
+const FEET_PER_METER = 3.28084;
+
+function feet(meters?: number): number | null {
+  return meters == null ? null : Math.round(meters * FEET_PER_METER);
+}
+
+function assetNote(asset?: UtilityAsset): string | undefined {
+  if (!asset) return undefined;
+  return [asset.name, asset.voltageKv ? `${asset.voltageKv} kV` : undefined].filter(Boolean).join(", ") || undefined;
+}
+
+export const utilityInfrastructureAdapter: SourceAdapter<"utilities"> = {
+  id: "utilities",
+  name: "Utility infrastructure dataset",
+  // Local lookup against the bundled dataset; nothing to cache.
+  cacheTtlMs: 0,
+  signalIds: ["utility-extension"],
+  fetch: ({ point, parcel }) => resolveUtilities(point, parcel),
+  toFacts: (utilities) => [
+    {
+      source: SOURCE,
+      label: "Distance to Transmission Line",
+      value: feet(utilities.transmissionLine?.distanceMeters),
+      unit: "ft",
+      note: assetNote(utilities.transmissionLine)
+    },
+    {
+      source: SOURCE,
+      label: "Distance to Substation",
+      value: feet(utilities.substation?.distanceMeters),
+      unit: "ft",
+      note: assetNote(utilities.substation)
+    },
+    {
+      source: SOURCE,
+      label: "Distance to Water Service Area",
+      value: feet(utilities.water?.distanceMeters),
+      unit: "ft",
+      note: utilities.water?.name
+    },
+    {
+      source: SOURCE,
+      label: "Distance to Sewer Service Area",
+      value: feet(utilities.sewer?.distanceMeters),
+      unit: "ft",
+      note: utilities.sewer?.name
+    },
+    {
+      source: SOURCE,
+      label: "Distance to Gas Pipeline",
+      value: feet(utilities.gasPipeline?.distanceMeters),
+      unit: "ft",
+      note: assetNote(utilities.gasPipeline)
+    },
+    { source: SOURCE, label: "Estimated Water Extension", value: feet(utilities.extensionsMeters.water), unit: "ft" },
+    { source: SOURCE, label: "Estimated Sewer Extension", value: feet(utilities.extensionsMeters.sewer), unit: "ft" },
+    { source: SOURCE, label: "Estimated Power Extension", value: feet(utilities.extensionsMeters.power), unit: "ft" }
+  ],
+  health: (utilities) =>
+    utilities.provenance?.fallbackUsed
+      ? { status: "degraded", detail: utilities.provenance.fallbackDetail ?? "Utility dataset is an illustrative stand-in." }
+      : { status: "ok" }
+};
@@ -0,0 +1,132 @@
+import { loadDataset } from "./datasets";
+import { parcelAreaSqMeters, parcelBounds, pointInParcel } from "./geo";
+import { CENSUS_GEOGRAPHIES_URL, FetchProvenance, fetchCensusGeographies } from "./sources";
+import { GeoPoint, ParcelGeometry } from "./types";
+
+const BOUNDARY_DATASET = "us-boundaries.json";
+
+// OMB metropolitan areas at or above this population are treated as major metros.
+export const MAJOR_METRO_MIN_POPULATION = 5_000_000;
+
+export type MetroClass = "major-metro" | "metro" | "non-metro";
+
+export type StateBoundary = { fips: string; abbr: string; name: string };
+export type CountyBoundary = { fips: string; name: string; state?: string };
+export type CbsaBoundary = { code: string; name: string; type: "metropolitan" | "micropolitan"; population?: number };
+
+export type SiteBoundaries = {
+  state?: StateBoundary;
+  county?: CountyBoundary;
+  cbsa?: CbsaBoundary;
+  metroClass: MetroClass;
+  provenance?: FetchProvenance;
+};
+
+type Indexed<T> = T & {
+  geometry: ParcelGeometry;
+  bounds: ReturnType<typeof parcelBounds>;
+  areaSqMeters: number;
+};
+
+type BoundaryIndex = {
+  version?: string;
+  sample: boolean;
+  states: Indexed<StateBoundary>[];
+  counties: Indexed<CountyBoundary>[];
+  cbsas: Indexed<CbsaBoundary>[];
+};
+
+function indexLayer<T>(rows: unknown): Indexed<T>[] {
+  if (!Array.isArray(rows)) return [];
+  return rows
+    .filter((row) => row?.geometry?.type === "Polygon" || row?.geometry?.type === "MultiPolygon")
+    .map((row) => ({ ...row, bounds: parcelBounds(row.geometry), areaSqMeters: parcelAreaSqMeters(row.geometry) }));
+}
+
+let index: Promise<BoundaryIndex> | undefined;
+
+function loadIndex(): Promise<BoundaryIndex> {
+  index ??= loadDataset<any>(BOUNDARY_DATASET).then((raw) => ({
+    version: raw?.version,
+    sample: Boolean(raw?.sample),
+    states: indexLayer<StateBoundary>(raw?.states),
+    counties: indexLayer<CountyBoundary>(raw?.counties),
+    cbsas: indexLayer<CbsaBoundary>(raw?.cbsas)
+  }));
+  index.catch(() => (index = undefined));
+  return index;
+}
+
+// Smallest containing feature wins, so an enclave (e.g. DC inside Maryland's simplified outline) resolves correctly.
+function locate<T>(layer: Indexed<T>[], point: GeoPoint): T | undefined {
+  let best: Indexed<T> | undefined;
+  for (const feature of layer) {
+    const { minLat, maxLat, minLon, maxLon } = feature.bounds;
+    if (point.lat < minLat || point.lat > maxLat || point.lon < minLon || point.lon > maxLon) continue;
+    if (!pointInParcel(point, feature.geometry)) continue;
+    if (!best || feature.areaSqMeters < best.areaSqMeters) best = feature;
+  }
+  if (!best) return undefined;
+  const { geometry, bounds, areaSqMeters, ...properties } = best;
+  return properties as T;
+}
+
+export function classifyMetro(cbsa?: CbsaBoundary): MetroClass {
+  if (cbsa?.type !== "metropolitan") return "non-metro";
+  return (cbsa.population ?? 0) >= MAJOR_METRO_MIN_POPULATION ? "major-metro" : "metro";
+}
+
+function resolveFromIndex(boundaries: BoundaryIndex, point: GeoPoint): SiteBoundaries {
+  const state = locate(boundaries.states, point);
+  if (!state) throw new Error("Census geocoder unavailable and the site is outside the U.S. state boundary index");
+  const county = locate(boundaries.counties, point);
+  const cbsa = locate(boundaries.cbsas, point);
+
+  const gaps = [!county && "county", !cbsa && "CBSA"].filter(Boolean).join(" or ");
+  return {
+    state,
+    county,
+    cbsa,
+    metroClass: classifyMetro(cbsa),
+    provenance: {
+      endpoint: `data/${BOUNDARY_DATASET}`,
+      dataVintage: boundaries.version,
+      fallbackUsed: true,
+      fallbackDetail:
+        "Census geocoder unavailable; located the site in the bundled boundary index." +
+        (boundaries.sample
+          ? " The index is an illustrative stand-in with simplified outlines, so sites near a state line may resolve to the neighbor."
+          : "") +
+        (gaps ? ` No ${gaps} covers the site, so metro class defaults to non-metro.` : "")
+    }
+  };
+}
+
+// The Census geocoder answers the containment questions; the index supplies CBSA populations and the offline fallback.
+export async function resolveBoundaries(point: GeoPoint): Promise<SiteBoundaries> {
+  const boundaries = await loadIndex();
+  let live: Awaited<ReturnType<typeof fetchCensusGeographies>>;
+  try {
+    live = await fetchCensusGeographies(point);
+  } catch {
+    return resolveFromIndex(boundaries, point);
+  }
+  if (!live.state) throw new Error("Census geocoder found no U.S. state at the site");
+
+  const stateFips = live.state.geoid;
+  const abbr = live.state.stusab ?? boundaries.states.find((row) => row.fips === stateFips)?.abbr ?? stateFips;
+  const area = live.metro ?? live.micro;
+  const cbsa: CbsaBoundary | undefined = area && {
+    code: area.geoid,
+    name: area.basename ?? area.name,
+    type: live.metro ? "metropolitan" : "micropolitan",
+    population: boundaries.cbsas.find((row) => row.code === area.geoid)?.population
+  };
+  return {
+    state: { fips: stateFips, abbr, name: live.state.name },
+    county: live.county && { fips: live.county.geoid, name: live.county.name, state: abbr },
+    cbsa,
+    metroClass: classifyMetro(cbsa),
+    provenance: { endpoint: CENSUS_GEOGRAPHIES_URL, dataVintage: "Census TIGERweb, current vintage" }
+  };
+}
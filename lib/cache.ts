@@ -0,0 +1,93 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { fixtureMode } from "./fixtures";
+import { GeoPoint, ParcelGeometry } from "./types";
+
+export const MINUTE_MS = 60 * 1000;
+export const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// ~11 m at 4 decimals: repeated runs on the same parcel share entries, neighbours do not.
+const COORDINATE_DIGITS = 4;
+
+export type CacheEntry = {
+  value: unknown;
+  storedAt: number;
+  expiresAt: number;
+};
+
+export type CacheStore = {
+  kind: string;
+  get: (key: string) => Promise<CacheEntry | undefined>;
+  set: (key: string, entry: CacheEntry) => Promise<void>;
+};
+
+export function coordinateKey(point: GeoPoint, digits = COORDINATE_DIGITS): string {
+  return `${point.lat.toFixed(digits)},${point.lon.toFixed(digits)}`;
+}
+
+export function geometryKey(parcel: ParcelGeometry): string {
+  return createHash("sha1").update(JSON.stringify(parcel.coordinates)).digest("hex").slice(0, 12);
+}
+
+export function createMemoryCacheStore(): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    kind: "memory",
+    get: async (key) => {
+      const entry = entries.get(key);
+      if (entry && entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry;
+    },
+    set: async (key, entry) => {
+      entries.set(key, entry);
+    }
+  };
+}
+
+export function createFileCacheStore(dir: string): CacheStore {
+  const fileFor = (key: string) => path.join(dir, `${key.replace(/[^A-Za-z0-9.-]+/g, "_")}.json`);
+  return {
+    kind: "file",
+    get: async (key) => {
+      try {
+        const entry = JSON.parse(await fs.readFile(fileFor(key), "utf8")) as CacheEntry;
+        return entry.expiresAt > Date.now() ? entry : undefined;
+      } catch {
+        return undefined;
+      }
+    },
+    set: async (key, entry) => {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(fileFor(key), JSON.stringify(entry));
+    }
+  };
+}
+
+function storeFromEnv(): CacheStore | null {
+  // Recording must reach every upstream, so caching defaults off unless explicitly requested.
+  const fallback = fixtureMode() === "record" ? "off" : "memory";
+  const mode = (process.env.SITE_INTEL_CACHE ?? fallback).toLowerCase();
+  if (mode === "off") return null;
+  if (mode === "file") {
+    return createFileCacheStore(process.env.SITE_INTEL_CACHE_DIR ?? path.join(process.cwd(), ".cache", "site-intel"));
+  }
+  return createMemoryCacheStore();
+}
+
+let activeStore: CacheStore | null | undefined;
+
+export function getCacheStore(): CacheStore | null {
+  if (activeStore === undefined) {
+    activeStore = storeFromEnv();
+  }
+  return activeStore;
+}
+
+// Swap the backing store (e.g. a shared or database-backed store); pass null to disable caching.
+export function setCacheStore(store: CacheStore | null) {
+  activeStore = store;
+}
@@ -0,0 +1,20 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Bundled offline datasets live in data/; SITE_INTEL_DATA_DIR points at a fuller local copy.
+function datasetDir(): string {
+  return process.env.SITE_INTEL_DATA_DIR ?? path.join(process.cwd(), "data");
+}
+
+const loaded = new Map<string, Promise<unknown>>();
+
+// Parsed once per process; a failed read is retried on the next call.
+export function loadDataset<T>(name: string): Promise<T> {
+  let pending = loaded.get(name);
+  if (!pending) {
+    pending = fs.readFile(path.join(datasetDir(), name), "utf8").then((text) => JSON.parse(text) as unknown);
+    pending.catch(() => loaded.delete(name));
+    loaded.set(name, pending);
+  }
+  return pending as Promise<T>;
+}
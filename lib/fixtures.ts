@@ -0,0 +1,71 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// SITE_INTEL_FIXTURES=record captures every upstream response; =replay serves them without network.
+export type FixtureMode = "live" | "record" | "replay";
+
+type Fixture = {
+  request: { method: string; url: string; body?: string };
+  status: number;
+  contentType: string | null;
+  body: string;
+  recordedAt: string;
+};
+
+export function fixtureMode(): FixtureMode {
+  const mode = (process.env.SITE_INTEL_FIXTURES ?? "").toLowerCase();
+  return mode === "record" || mode === "replay" ? mode : "live";
+}
+
+function fixtureDir(): string {
+  return process.env.SITE_INTEL_FIXTURE_DIR ?? path.join(process.cwd(), "fixtures", "http");
+}
+
+function requestBody(init?: RequestInit): string | undefined {
+  if (init?.body == null) return undefined;
+  return typeof init.body === "string" ? init.body : String(init.body);
+}
+
+function fixturePath(method: string, url: string, body?: string): string {
+  const host = new URL(url).hostname.replace(/[^A-Za-z0-9.-]+/g, "_");
+  const hash = createHash("sha1").update(`${method} ${url}\n${body ?? ""}`).digest("hex").slice(0, 16);
+  return path.join(fixtureDir(), host, `${hash}.json`);
+}
+
+// Drop-in replacement for fetch() on every upstream call in lib/sources.ts.
+export async function upstreamFetch(url: string, init?: RequestInit): Promise<Response> {
+  const mode = fixtureMode();
+  if (mode === "live") {
+    return fetch(url, init);
+  }
+
+  const method = (init?.method ?? "GET").toUpperCase();
+  const body = requestBody(init);
+  const file = fixturePath(method, url, body);
+
+  if (mode === "replay") {
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(await fs.readFile(file, "utf8")) as Fixture;
+    } catch {
+      throw new Error(`No recorded fixture for ${method} ${url}`);
+    }
+    return new Response(fixture.body, {
+      status: fixture.status,
+      headers: fixture.contentType ? { "Content-Type": fixture.contentType } : undefined
+    });
+  }
+
+  const res = await fetch(url, init);
+  const fixture: Fixture = {
+    request: { method, url, body },
+    status: res.status,
+    contentType: res.headers.get("content-type"),
+    body: await res.clone().text(),
+    recordedAt: new Date().toISOString()
+  };
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(fixture, null, 2));
+  return res;
+}
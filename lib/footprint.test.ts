@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { footprintGrid, shareBy } from "./footprint";
+import { pointInParcel } from "./geo";
+import { ParcelGeometry } from "./types";
+
+// Roughly 250 m on a side, near the Ames demo address.
+const SQUARE: ParcelGeometry = {
+  type: "Polygon",
+  coordinates: [
+    [
+      [-93.61, 42.021],
+      [-93.607, 42.021],
+      [-93.607, 42.0233],
+      [-93.61, 42.0233],
+      [-93.61, 42.021]
+    ]
+  ]
+};
+
+describe("footprintGrid", () => {
+  it("places about the target number of points, all inside the parcel", () => {
+    const points = footprintGrid(SQUARE);
+    expect(points.length).toBeGreaterThanOrEqual(12);
+    expect(points.length).toBeLessThanOrEqual(30);
+    expect(points.every((point) => pointInParcel(point, SQUARE))).toBe(true);
+  });
+
+  it("caps the grid at 64 points", () => {
+    expect(footprintGrid(SQUARE, 500)).toHaveLength(64);
+  });
+});
+
+describe("shareBy", () => {
+  it("returns shares largest first and counts missing samples in the denominator", () => {
+    const shares = shareBy(["X", "AE", "X", undefined], (zone) => zone);
+    expect(shares).toEqual([
+      { value: "X", fraction: 0.5 },
+      { value: "AE", fraction: 0.25 }
+    ]);
+  });
+
+  it("returns nothing for no samples", () => {
+    expect(shareBy<string>([], (zone) => zone)).toEqual([]);
+  });
+});
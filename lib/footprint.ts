@@ -0,0 +1,60 @@
+import { metersPerDegreeLon, parcelAreaSqMeters, parcelBounds, parcelCentroid, pointInParcel } from "./geo";
+import { GeoPoint, ParcelGeometry } from "./types";
+
+// A condition covering at least this share of the footprint drives severity, wherever the centroid falls.
+export const MATERIAL_SHARE = 0.1;
+
+const DEFAULT_TARGET_POINTS = 20;
+const MAX_POINTS = 64;
+
+export type Share<T> = {
+  value: T;
+  fraction: number;
+};
+
+// Regular grid of cell centers inside the parcel, sized so roughly `targetPoints` land inside.
+export function footprintGrid(parcel: ParcelGeometry, targetPoints = DEFAULT_TARGET_POINTS): GeoPoint[] {
+  const bounds = parcelBounds(parcel);
+  const area = parcelAreaSqMeters(parcel);
+  const lonScale = metersPerDegreeLon((bounds.minLat + bounds.maxLat) / 2);
+  let spacingMeters = Math.max(5, Math.sqrt(area / targetPoints));
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const dLat = spacingMeters / 111_320;
+    const dLon = spacingMeters / lonScale;
+    const points: GeoPoint[] = [];
+    for (let lat = bounds.minLat + dLat / 2; lat < bounds.maxLat; lat += dLat) {
+      for (let lon = bounds.minLon + dLon / 2; lon < bounds.maxLon; lon += dLon) {
+        const point = { lat, lon };
+        if (pointInParcel(point, parcel)) points.push(point);
+      }
+    }
+    // Thin or irregular parcels can miss most cells; tighten the grid and retry.
+    if (points.length >= Math.min(4, targetPoints)) {
+      return points.slice(0, MAX_POINTS);
+    }
+    spacingMeters /= 2;
+  }
+
+  return [parcelCentroid(parcel)];
+}
+
+// Fraction of samples per distinct key, largest first. Undefined samples count toward the denominator.
+export function shareBy<T>(samples: Array<T | undefined>, keyOf: (value: T) => string): Array<Share<T>> {
+  const counts = new Map<string, { value: T; count: number }>();
+  for (const sample of samples) {
+    if (sample === undefined) continue;
+    const key = keyOf(sample);
+    const existing = counts.get(key);
+    if (existing) existing.count += 1;
+    else counts.set(key, { value: sample, count: 1 });
+  }
+  const total = samples.length || 1;
+  return Array.from(counts.values())
+    .map(({ value, count }) => ({ value, fraction: count / total }))
+    .sort((a, b) => b.fraction - a.fraction);
+}
+
+export function formatShare(fraction: number): string {
+  return `${Math.round(fraction * 100)}%`;
+}
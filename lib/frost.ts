@@ -0,0 +1,80 @@
+const FREEZING_F = 32;
+// Winters are counted July through June so a season's freezing spell is not split at New Year.
+const SEASON_START_MONTH = 7;
+const MIN_SEASON_DAYS = 300;
+// USACE design freezing index: mean of the three coldest winters in the record.
+const DESIGN_WINTERS = 3;
+// Stefan-type screening estimate, depth (in) = coefficient x sqrt(freezing index in °F-days),
+// for moist fine-grained soil without snow cover. Local code frost depth governs.
+const FROST_DEPTH_COEFFICIENT = 1.0;
+// Codes rarely allow exterior footings shallower than this, even without frost.
+export const MIN_FOOTING_DEPTH_IN = 12;
+
+export type DailyTemperatures = {
+  dates: string[];
+  maxTempF: Array<number | null>;
+  minTempF: Array<number | null>;
+};
+
+export type FrostSummary = {
+  // Air freezing index in °F-days.
+  meanFreezingIndex: number;
+  designFreezingIndex: number;
+  // Days per winter where the low falls below and the high rises above freezing.
+  freezeThawCycles: number;
+  frostDepthIn: number;
+  seasons: number;
+};
+
+type SeasonTally = { days: number; cumulative: number; peak: number; index: number; cycles: number };
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function frostDepthFromFreezingIndex(freezingIndex: number): number {
+  return Math.round(FROST_DEPTH_COEFFICIENT * Math.sqrt(Math.max(0, freezingIndex)));
+}
+
+// Footing depth to carry in the bid: the frost estimate rounded up to the next 6 in, never below the code minimum.
+export function minimumFootingDepthIn(frost: FrostSummary): number {
+  return Math.max(MIN_FOOTING_DEPTH_IN, Math.ceil(frost.frostDepthIn / 6) * 6);
+}
+
+export function summarizeFrost(daily: DailyTemperatures): FrostSummary | undefined {
+  const seasons = new Map<number, SeasonTally>();
+  for (let i = 0; i < daily.dates.length; i++) {
+    const year = Number(daily.dates[i].slice(0, 4));
+    const month = Number(daily.dates[i].slice(5, 7));
+    const max = daily.maxTempF[i];
+    const min = daily.minTempF[i];
+    if (!Number.isFinite(year) || !month || max == null || min == null) continue;
+
+    const season = month >= SEASON_START_MONTH ? year : year - 1;
+    let tally = seasons.get(season);
+    if (!tally) {
+      tally = { days: 0, cumulative: 0, peak: 0, index: 0, cycles: 0 };
+      seasons.set(season, tally);
+    }
+    tally.days++;
+    // The freezing index is the largest drop of the cumulative degree-day curve within the season.
+    tally.cumulative += (max + min) / 2 - FREEZING_F;
+    tally.peak = Math.max(tally.peak, tally.cumulative);
+    tally.index = Math.max(tally.index, tally.peak - tally.cumulative);
+    if (min < FREEZING_F && max > FREEZING_F) tally.cycles++;
+  }
+
+  const complete = Array.from(seasons.values()).filter((tally) => tally.days >= MIN_SEASON_DAYS);
+  if (!complete.length) return undefined;
+
+  const indexes = complete.map((tally) => tally.index).sort((a, b) => b - a);
+  const coldest = indexes.slice(0, DESIGN_WINTERS);
+  const designFreezingIndex = coldest.reduce((sum, value) => sum + value, 0) / coldest.length;
+  return {
+    meanFreezingIndex: Math.round(indexes.reduce((sum, value) => sum + value, 0) / indexes.length),
+    designFreezingIndex: Math.round(designFreezingIndex),
+    freezeThawCycles: round1(complete.reduce((sum, tally) => sum + tally.cycles, 0) / complete.length),
+    frostDepthIn: frostDepthFromFreezingIndex(designFreezingIndex),
+    seasons: complete.length
+  };
+}
@@ -0,0 +1,206 @@
+import { GeoPoint, ParcelGeometry } from "./types";
+
+const EARTH_RADIUS_M = 6_371_000;
+const METERS_PER_DEG_LAT = 111_320;
+
+type Ring = number[][];
+
+export function isValidPoint(point: { lat?: unknown; lon?: unknown }): point is GeoPoint {
+  const { lat, lon } = point;
+  return (
+    typeof lat === "number" &&
+    typeof lon === "number" &&
+    Number.isFinite(lat) &&
+    Number.isFinite(lon) &&
+    Math.abs(lat) <= 90 &&
+    Math.abs(lon) <= 180
+  );
+}
+
+function isRing(value: unknown): value is Ring {
+  return (
+    Array.isArray(value) &&
+    value.length >= 4 &&
+    value.every(
+      (pos) =>
+        Array.isArray(pos) &&
+        pos.length >= 2 &&
+        isValidPoint({ lon: pos[0], lat: pos[1] })
+    )
+  );
+}
+
+// A polygon needs at least its outer ring; `every` alone would accept an empty list.
+function isPolygon(value: unknown): value is Ring[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isRing);
+}
+
+// Accepts a GeoJSON Polygon/MultiPolygon geometry, Feature, or single-feature FeatureCollection.
+export function parseParcelGeometry(raw: any): ParcelGeometry | null {
+  let geometry = raw;
+  if (geometry?.type === "FeatureCollection") geometry = geometry.features?.[0];
+  if (geometry?.type === "Feature") geometry = geometry.geometry;
+
+  if (geometry?.type === "Polygon" && isPolygon(geometry.coordinates)) {
+    return { type: "Polygon", coordinates: geometry.coordinates };
+  }
+  if (
+    geometry?.type === "MultiPolygon" &&
+    Array.isArray(geometry.coordinates) &&
+    geometry.coordinates.length > 0 &&
+    geometry.coordinates.every(isPolygon)
+  ) {
+    return { type: "MultiPolygon", coordinates: geometry.coordinates };
+  }
+  return null;
+}
+
+export function parcelPolygons(parcel: ParcelGeometry): Ring[][] {
+  return parcel.type === "Polygon" ? [parcel.coordinates] : parcel.coordinates;
+}
+
+export function metersPerDegreeLon(lat: number): number {
+  return METERS_PER_DEG_LAT * Math.cos((lat * Math.PI) / 180);
+}
+
+// Local equirectangular projection (meters from origin); adequate at parcel scale.
+function projector(origin: GeoPoint) {
+  const metersPerDegLon = metersPerDegreeLon(origin.lat);
+  return (pos: number[]) => [(pos[0] - origin.lon) * metersPerDegLon, (pos[1] - origin.lat) * METERS_PER_DEG_LAT];
+}
+
+function ringSignedArea(ring: Ring, project: (pos: number[]) => number[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x1, y1] = project(ring[i]);
+    const [x2, y2] = project(ring[i + 1]);
+    sum += x1 * y2 - x2 * y1;
+  }
+  return sum / 2;
+}
+
+export function parcelBounds(parcel: ParcelGeometry): { minLat: number; maxLat: number; minLon: number; maxLon: number } {
+  const positions = parcelPolygons(parcel).flat(2);
+  const lons = positions.map((pos) => pos[0]);
+  const lats = positions.map((pos) => pos[1]);
+  return {
+    minLat: Math.min(...lats),
+    maxLat: Math.max(...lats),
+    minLon: Math.min(...lons),
+    maxLon: Math.max(...lons)
+  };
+}
+
+export function parcelAreaSqMeters(parcel: ParcelGeometry): number {
+  const bounds = parcelBounds(parcel);
+  const project = projector({ lat: bounds.minLat, lon: bounds.minLon });
+  let area = 0;
+  for (const polygon of parcelPolygons(parcel)) {
+    const [outer, ...holes] = polygon;
+    area += Math.abs(ringSignedArea(outer, project));
+    for (const hole of holes) area -= Math.abs(ringSignedArea(hole, project));
+  }
+  return Math.max(0, area);
+}
+
+function ringContains(ring: Ring, point: GeoPoint): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crosses = yi > point.lat !== yj > point.lat;
+    if (crosses && point.lon < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function pointInParcel(point: GeoPoint, parcel: ParcelGeometry): boolean {
+  return parcelPolygons(parcel).some(
+    ([outer, ...holes]) => ringContains(outer, point) && !holes.some((hole) => ringContains(hole, point))
+  );
+}
+
+// Area-weighted centroid of the outer rings; falls back to the bounds center when degenerate.
+export function parcelCentroid(parcel: ParcelGeometry): GeoPoint {
+  const bounds = parcelBounds(parcel);
+  const origin = { lat: bounds.minLat, lon: bounds.minLon };
+  const project = projector(origin);
+
+  let areaSum = 0;
+  let cx = 0;
+  let cy = 0;
+  for (const [outer] of parcelPolygons(parcel)) {
+    for (let i = 0; i < outer.length - 1; i++) {
+      const [x1, y1] = project(outer[i]);
+      const [x2, y2] = project(outer[i + 1]);
+      const cross = x1 * y2 - x2 * y1;
+      areaSum += cross;
+      cx += (x1 + x2) * cross;
+      cy += (y1 + y2) * cross;
+    }
+  }
+
+  if (Math.abs(areaSum) < 1e-9) {
+    return { lat: (bounds.minLat + bounds.maxLat) / 2, lon: (bounds.minLon + bounds.maxLon) / 2 };
+  }
+  return {
+    lat: origin.lat + cy / (3 * areaSum) / METERS_PER_DEG_LAT,
+    lon: origin.lon + cx / (3 * areaSum) / metersPerDegreeLon(origin.lat)
+  };
+}
+
+// Closest point on a [lon, lat] polyline, measured on a projection centered at the point.
+export function nearestPointOnLine(point: GeoPoint, line: number[][]): { point: GeoPoint; distanceMeters: number } {
+  const project = projector(point);
+  const vertices = line.map(project);
+  let best = { x: 0, y: 0, distance: Infinity };
+  if (vertices.length === 1) {
+    best = { x: vertices[0][0], y: vertices[0][1], distance: Math.hypot(vertices[0][0], vertices[0][1]) };
+  }
+  for (let i = 0; i < vertices.length - 1; i++) {
+    const [x1, y1] = vertices[i];
+    const [x2, y2] = vertices[i + 1];
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lengthSq = dx * dx + dy * dy;
+    // Parameter of the foot of the perpendicular from the origin, clamped to the segment.
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(x1 * dx + y1 * dy) / lengthSq)) : 0;
+    const x = x1 + t * dx;
+    const y = y1 + t * dy;
+    const distance = Math.hypot(x, y);
+    if (distance < best.distance) best = { x, y, distance };
+  }
+  return {
+    point: { lat: point.lat + best.y / METERS_PER_DEG_LAT, lon: point.lon + best.x / metersPerDegreeLon(point.lat) },
+    distanceMeters: best.distance
+  };
+}
+
+export function distanceToLineMeters(point: GeoPoint, line: number[][]): number {
+  return nearestPointOnLine(point, line).distanceMeters;
+}
+
+// Whether the straight segment a-b crosses any segment of a [lon, lat] polyline.
+export function segmentCrossesLine(a: GeoPoint, b: GeoPoint, line: number[][]): boolean {
+  const orient = (p: number[], q: number[], r: number[]) => Math.sign((q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]));
+  const p1 = [a.lon, a.lat];
+  const p2 = [b.lon, b.lat];
+  for (let i = 0; i < line.length - 1; i++) {
+    const q1 = line[i];
+    const q2 = line[i + 1];
+    if (orient(p1, p2, q1) !== orient(p1, p2, q2) && orient(q1, q2, p1) !== orient(q1, q2, p2)) return true;
+  }
+  return false;
+}
+
+export function distanceMeters(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
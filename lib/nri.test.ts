@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { NRI_HAZARDS, severityFromNriRating } from "./nri";
+
+describe("severityFromNriRating", () => {
+  it("maps NRI rating labels onto severities", () => {
+    expect(severityFromNriRating("Very High")).toBe("high");
+    expect(severityFromNriRating("Relatively High")).toBe("high");
+    expect(severityFromNriRating("Relatively Moderate")).toBe("medium");
+    expect(severityFromNriRating("Relatively Low")).toBe("low");
+    expect(severityFromNriRating("Very Low")).toBe("low");
+  });
+
+  it("treats hazards NRI does not rate as low", () => {
+    expect(severityFromNriRating("No Rating")).toBe("low");
+    expect(severityFromNriRating("Not Applicable")).toBe("low");
+  });
+
+  it("is unknown without a usable rating", () => {
+    expect(severityFromNriRating(undefined)).toBe("unknown");
+    expect(severityFromNriRating("")).toBe("unknown");
+    expect(severityFromNriRating("Insufficient Data")).toBe("unknown");
+    expect(severityFromNriRating("Extreme")).toBe("unknown");
+  });
+
+  it("ignores case and surrounding whitespace", () => {
+    expect(severityFromNriRating("  very high ")).toBe("high");
+  });
+});
+
+describe("NRI_HAZARDS", () => {
+  it("has unique prefixes and slugs", () => {
+    expect(new Set(NRI_HAZARDS.map((h) => h.prefix)).size).toBe(NRI_HAZARDS.length);
+    expect(new Set(NRI_HAZARDS.map((h) => h.slug)).size).toBe(NRI_HAZARDS.length);
+  });
+});
@@ -0,0 +1,45 @@
+import { Signal } from "./types";
+
+// FEMA National Risk Index hazards, keyed by the field prefix NRI uses for each (e.g. HAIL_RISKR).
+export const NRI_HAZARDS: Array<{ prefix: string; slug: string; label: string }> = [
+  { prefix: "AVLN", slug: "avalanche", label: "Avalanche" },
+  { prefix: "CFLD", slug: "coastal-flooding", label: "Coastal Flooding" },
+  { prefix: "CWAV", slug: "cold-wave", label: "Cold Wave" },
+  { prefix: "DRGT", slug: "drought", label: "Drought" },
+  { prefix: "ERQK", slug: "earthquake", label: "Earthquake" },
+  { prefix: "HAIL", slug: "hail", label: "Hail" },
+  { prefix: "HWAV", slug: "heat-wave", label: "Heat Wave" },
+  { prefix: "HRCN", slug: "hurricane", label: "Hurricane" },
+  { prefix: "ISTM", slug: "ice-storm", label: "Ice Storm" },
+  { prefix: "LNDS", slug: "landslide", label: "Landslide" },
+  { prefix: "LTNG", slug: "lightning", label: "Lightning" },
+  { prefix: "RFLD", slug: "riverine-flooding", label: "Riverine Flooding" },
+  { prefix: "SWND", slug: "strong-wind", label: "Strong Wind" },
+  { prefix: "TRND", slug: "tornado", label: "Tornado" },
+  { prefix: "TSUN", slug: "tsunami", label: "Tsunami" },
+  { prefix: "VLCN", slug: "volcanic-activity", label: "Volcanic Activity" },
+  { prefix: "WFIR", slug: "wildfire", label: "Wildfire" },
+  { prefix: "WNTW", slug: "winter-weather", label: "Winter Weather" }
+];
+
+export const NRI_COMPOSITE_SIGNAL_ID = "nri-composite-risk";
+
+export function nriSignalId(slug: string): string {
+  return `nri-${slug}`;
+}
+
+const RATING_SEVERITY: Record<string, Signal["severity"]> = {
+  "very high": "high",
+  "relatively high": "high",
+  "relatively moderate": "medium",
+  "relatively low": "low",
+  "very low": "low",
+  "no rating": "low",
+  "not applicable": "low",
+  "insufficient data": "unknown"
+};
+
+export function severityFromNriRating(rating?: string): Signal["severity"] {
+  if (!rating) return "unknown";
+  return RATING_SEVERITY[rating.trim().toLowerCase()] ?? "unknown";
+}
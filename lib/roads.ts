@@ -0,0 +1,360 @@
+import { loadDataset } from "./datasets";
+import { distanceMeters, distanceToLineMeters, parcelPolygons } from "./geo";
+import { FetchProvenance, OSM_HAUL_RADIUS_KM, fetchOsmRoads } from "./sources";
+import { GeoPoint, ParcelGeometry } from "./types";
+
+const ROAD_DATASET = "road-network.json";
+
+// Drive searches stop here; farther plants are reported as not found.
+export const MAX_HAUL_KM = 120;
+// 80,000 lb federal gross weight limit in short tons; lower postings restrict legal loads.
+export const LEGAL_GROSS_TONS = 40;
+// OSM classes a loaded tractor-trailer can use without a local route permit.
+const TRUCK_HIGHWAY_CLASSES = new Set([
+  "motorway",
+  "motorway_link",
+  "trunk",
+  "trunk_link",
+  "primary",
+  "primary_link",
+  "secondary",
+  "secondary_link",
+  "tertiary",
+  "tertiary_link"
+]);
+// Interstate and U.S. route refs as OSM writes them, e.g. "I 35" or "US 30;IA 17".
+const HIGHWAY_REF = /(?:^|;)\s*(I|US)[\s-]*\d+/;
+const SHORT_TONS_PER_TONNE = 1.10231;
+
+export type PlantKind = "ready-mix" | "aggregate";
+
+export type RoadMatch = {
+  name?: string;
+  ref?: string;
+  highway: string;
+  distanceMeters: number;
+};
+
+export type HaulRoute = {
+  name?: string;
+  driveMeters: number;
+  // Lowest posted weight limit along the route, in short tons.
+  weightLimitTons?: number;
+  weightLimitRoad?: string;
+};
+
+export type RoadAccess = {
+  // Plants and highways farther than this (straight line) were not searched.
+  searchRadiusKm: number;
+  truckRoad?: RoadMatch;
+  highway?: HaulRoute & { ref: string };
+  readyMix?: HaulRoute;
+  aggregate?: HaulRoute;
+  provenance?: FetchProvenance;
+};
+
+type Way = {
+  highway: string;
+  name?: string;
+  ref?: string;
+  maxweightTons?: number;
+  nodes: number[];
+};
+
+type Plant = { kind: PlantKind; name?: string; lon: number; lat: number };
+
+type Edge = { to: number; meters: number; way: number };
+
+type RoadNetwork = {
+  version?: string;
+  sample: boolean;
+  // [west, south, east, north] boxes the extract was cut to.
+  coverage: number[][];
+  nodes: GeoPoint[];
+  ways: Way[];
+  edges: Edge[][];
+  plants: Array<Plant & { node: number; accessMeters: number }>;
+};
+
+function toPoint([lon, lat]: number[]): GeoPoint {
+  return { lat, lon };
+}
+
+function nearestNode(network: Pick<RoadNetwork, "nodes" | "edges">, point: GeoPoint): { node: number; meters: number } | undefined {
+  let best: { node: number; meters: number } | undefined;
+  network.nodes.forEach((node, idx) => {
+    if (!network.edges[idx].length) return;
+    const meters = distanceMeters(point, node);
+    if (!best || meters < best.meters) best = { node: idx, meters };
+  });
+  return best;
+}
+
+// Tag rules match scripts/build-road-network.mjs, so live and bundled networks route the same way.
+// OSM maxweight is metric tonnes unless a unit says otherwise; the app works in U.S. short tons.
+function maxweightTons(value: unknown): number | undefined {
+  const match = String(value ?? "").trim().match(/^([\d.]+)\s*(t|st|lbs?|kg)?$/i);
+  if (!match) return undefined;
+  const amount = Number(match[1]);
+  const unit = (match[2] ?? "t").toLowerCase();
+  const tons =
+    unit === "st"
+      ? amount
+      : unit.startsWith("lb")
+        ? amount / 2000
+        : unit === "kg"
+          ? (amount / 1000) * SHORT_TONS_PER_TONNE
+          : amount * SHORT_TONS_PER_TONNE;
+  return Number.isFinite(tons) && tons > 0 ? Math.round(tons * 10) / 10 : undefined;
+}
+
+function plantKind(tags: Record<string, string>): PlantKind | undefined {
+  const product = String(tags.product ?? "").toLowerCase();
+  if (tags.industrial === "concrete_plant" || (tags.man_made === "works" && /concrete/.test(product))) return "ready-mix";
+  if (
+    tags.landuse === "quarry" ||
+    tags.industrial === "aggregate" ||
+    (tags.man_made === "works" && /gravel|sand|aggregate|stone|asphalt/.test(product))
+  ) {
+    return "aggregate";
+  }
+  return undefined;
+}
+
+// Overpass elements in the extract's layout; ways sharing an OSM node id share a vertex.
+function fromOverpass(elements: any[]): any {
+  const nodes: number[][] = [];
+  const nodeIds = new Map<number, number>();
+  const ways: Array<Omit<Way, "nodes"> & { nodes: number[] }> = [];
+  const plants: Plant[] = [];
+  for (const element of elements) {
+    const tags = element?.tags ?? {};
+    const kind = plantKind(tags);
+    if (kind) {
+      const at = element.type === "node" ? element : element.center;
+      if (typeof at?.lat === "number" && typeof at?.lon === "number") plants.push({ kind, name: tags.name, lon: at.lon, lat: at.lat });
+      continue;
+    }
+    const ids: unknown = element?.nodes;
+    const geometry: unknown = element?.geometry;
+    if (element?.type !== "way" || typeof tags.highway !== "string" || !Array.isArray(ids) || !Array.isArray(geometry)) continue;
+    if (ids.length !== geometry.length || tags.hgv === "no" || tags.access === "no") continue;
+    ways.push({
+      highway: tags.highway,
+      name: tags.name,
+      ref: tags.ref,
+      maxweightTons: maxweightTons(tags.maxweight),
+      nodes: ids.map((id: number, idx: number) => {
+        if (!nodeIds.has(id)) {
+          nodeIds.set(id, nodes.length);
+          nodes.push([geometry[idx].lon, geometry[idx].lat]);
+        }
+        return nodeIds.get(id) as number;
+      })
+    });
+  }
+  return { nodes, ways, plants };
+}
+
+function buildNetwork(raw: any): RoadNetwork {
+  const nodes: GeoPoint[] = Array.isArray(raw?.nodes) ? raw.nodes.map(toPoint) : [];
+  const ways: Way[] = Array.isArray(raw?.ways)
+    ? raw.ways.filter((way: any) => typeof way?.highway === "string" && Array.isArray(way?.nodes) && way.nodes.length >= 2)
+    : [];
+  const edges: Edge[][] = nodes.map(() => []);
+  ways.forEach((way, wayIdx) => {
+    for (let i = 1; i < way.nodes.length; i++) {
+      const a = way.nodes[i - 1];
+      const b = way.nodes[i];
+      if (!nodes[a] || !nodes[b]) continue;
+      const meters = distanceMeters(nodes[a], nodes[b]);
+      // Oneway tags are ignored: loads run plant-to-site while the search runs site-outward.
+      edges[a].push({ to: b, meters, way: wayIdx });
+      edges[b].push({ to: a, meters, way: wayIdx });
+    }
+  });
+
+  const plants: RoadNetwork["plants"] = [];
+  for (const plant of Array.isArray(raw?.plants) ? raw.plants : []) {
+    if ((plant?.kind !== "ready-mix" && plant?.kind !== "aggregate") || typeof plant.lat !== "number") continue;
+    const access = nearestNode({ nodes, edges }, plant);
+    if (access) plants.push({ ...plant, node: access.node, accessMeters: access.meters });
+  }
+
+  return {
+    version: raw?.version,
+    sample: Boolean(raw?.sample),
+    coverage: Array.isArray(raw?.coverage) ? raw.coverage : [],
+    nodes,
+    ways,
+    edges,
+    plants
+  };
+}
+
+let network: Promise<RoadNetwork> | undefined;
+
+function loadNetwork(): Promise<RoadNetwork> {
+  network ??= loadDataset<any>(ROAD_DATASET).then(buildNetwork);
+  network.catch(() => (network = undefined));
+  return network;
+}
+
+// Binary min-heap of [distance, node] for the drive-distance search.
+function pushHeap(heap: Array<[number, number]>, item: [number, number]) {
+  heap.push(item);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent][0] <= heap[i][0]) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+}
+
+function popHeap(heap: Array<[number, number]>): [number, number] | undefined {
+  const top = heap[0];
+  const last = heap.pop();
+  if (!heap.length || !last) return top;
+  heap[0] = last;
+  let i = 0;
+  for (;;) {
+    const left = 2 * i + 1;
+    const right = left + 1;
+    let smallest = i;
+    if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+    if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+    if (smallest === i) break;
+    [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+    i = smallest;
+  }
+  return top;
+}
+
+type DriveTree = { dist: Float64Array; via: Int32Array; viaWay: Int32Array };
+
+function shortestDrives(graph: RoadNetwork, start: number): DriveTree {
+  const dist = new Float64Array(graph.nodes.length).fill(Infinity);
+  const via = new Int32Array(graph.nodes.length).fill(-1);
+  const viaWay = new Int32Array(graph.nodes.length).fill(-1);
+  const heap: Array<[number, number]> = [[0, start]];
+  dist[start] = 0;
+  for (let item = popHeap(heap); item; item = popHeap(heap)) {
+    const [meters, node] = item;
+    if (meters > dist[node] || meters > MAX_HAUL_KM * 1000) continue;
+    for (const edge of graph.edges[node]) {
+      const next = meters + edge.meters;
+      if (next < dist[edge.to]) {
+        dist[edge.to] = next;
+        via[edge.to] = node;
+        viaWay[edge.to] = edge.way;
+        pushHeap(heap, [next, edge.to]);
+      }
+    }
+  }
+  return { dist, via, viaWay };
+}
+
+function wayLabel(way: Way): string {
+  return way.ref ?? way.name ?? way.highway;
+}
+
+function routeTo(graph: RoadNetwork, tree: DriveTree, node: number, extraMeters: number, name?: string): HaulRoute {
+  const route: HaulRoute = { name, driveMeters: Math.round(tree.dist[node] + extraMeters) };
+  for (let at = node; tree.via[at] >= 0; at = tree.via[at]) {
+    const way = graph.ways[tree.viaWay[at]];
+    if (way.maxweightTons != null && (route.weightLimitTons == null || way.maxweightTons < route.weightLimitTons)) {
+      route.weightLimitTons = way.maxweightTons;
+      route.weightLimitRoad = wayLabel(way);
+    }
+  }
+  return route;
+}
+
+function nearestPlant(graph: RoadNetwork, tree: DriveTree, kind: PlantKind, accessMeters: number): HaulRoute | undefined {
+  let best: (typeof graph.plants)[number] | undefined;
+  let bestMeters = Infinity;
+  for (const plant of graph.plants) {
+    if (plant.kind !== kind) continue;
+    const meters = tree.dist[plant.node] + plant.accessMeters;
+    if (meters < bestMeters) {
+      best = plant;
+      bestMeters = meters;
+    }
+  }
+  if (!best || bestMeters > MAX_HAUL_KM * 1000) return undefined;
+  return routeTo(graph, tree, best.node, best.accessMeters + accessMeters, best.name);
+}
+
+// The highway connection is the closest node (by drive) on any Interstate or U.S. route.
+function nearestHighway(graph: RoadNetwork, tree: DriveTree, accessMeters: number): RoadAccess["highway"] {
+  let best: { node: number; ref: string } | undefined;
+  graph.ways.forEach((way) => {
+    const ref = way.ref?.match(HIGHWAY_REF)?.[0].replace(/^;/, "").trim();
+    if (!ref) return;
+    for (const node of way.nodes) {
+      if (tree.dist[node] <= MAX_HAUL_KM * 1000 && (!best || tree.dist[node] < tree.dist[best.node])) best = { node, ref };
+    }
+  });
+  return best ? { ...routeTo(graph, tree, best.node, accessMeters), ref: best.ref } : undefined;
+}
+
+// Frontage counts: the parcel vertex closest to a truck road sets the distance when a parcel is given.
+function nearestTruckRoad(graph: RoadNetwork, point: GeoPoint, parcel?: ParcelGeometry): RoadMatch | undefined {
+  const origins = [point, ...(parcel ? parcelPolygons(parcel).flat(2).map(toPoint) : [])];
+  let best: RoadMatch | undefined;
+  for (const way of graph.ways) {
+    if (!TRUCK_HIGHWAY_CLASSES.has(way.highway)) continue;
+    const line = way.nodes.map((node) => [graph.nodes[node].lon, graph.nodes[node].lat]);
+    const meters = Math.min(...origins.map((origin) => distanceToLineMeters(origin, line)));
+    if (!best || meters < best.distanceMeters) {
+      best = { name: way.name, ref: way.ref, highway: way.highway, distanceMeters: Math.round(meters) };
+    }
+  }
+  return best;
+}
+
+function routeAccess(graph: RoadNetwork, point: GeoPoint, parcel?: ParcelGeometry): Omit<RoadAccess, "searchRadiusKm" | "provenance"> {
+  const access = nearestNode(graph, point);
+  if (!access) throw new Error("Road network has no drivable roads near the site");
+  const tree = shortestDrives(graph, access.node);
+
+  return {
+    truckRoad: nearestTruckRoad(graph, point, parcel),
+    highway: nearestHighway(graph, tree, access.meters),
+    readyMix: nearestPlant(graph, tree, "ready-mix", access.meters),
+    aggregate: nearestPlant(graph, tree, "aggregate", access.meters)
+  };
+}
+
+// Live OpenStreetMap roads around the site; the bundled extract answers when Overpass is unavailable.
+export async function resolveRoadAccess(point: GeoPoint, parcel?: ParcelGeometry): Promise<RoadAccess> {
+  let reason: string;
+  try {
+    const osm = await fetchOsmRoads(point);
+    const live = buildNetwork(fromOverpass(osm.elements));
+    return { searchRadiusKm: OSM_HAUL_RADIUS_KM, ...routeAccess(live, point, parcel), provenance: osm.provenance };
+  } catch (err) {
+    reason = err instanceof Error ? err.message : String(err);
+  }
+
+  const graph = await loadNetwork();
+  const covered = graph.coverage.some(
+    ([west, south, east, north]) => point.lon >= west && point.lat >= south && point.lon <= east && point.lat <= north
+  );
+  if (!covered) throw new Error(`Overpass unavailable (${reason}) and the site is outside the road network extract coverage`);
+
+  return {
+    searchRadiusKm: MAX_HAUL_KM,
+    ...routeAccess(graph, point, parcel),
+    provenance: {
+      endpoint: `data/${ROAD_DATASET}`,
+      dataVintage: graph.version,
+      fallbackUsed: true,
+      fallbackDetail:
+        `Overpass query failed (${reason}); routed on the bundled road extract` +
+        (graph.sample ? ", an illustrative stand-in with hand-drawn roads and plants around the demo addresses." : "."),
+      sample: graph.sample || undefined
+    }
+  };
+}
@@ -0,0 +1,141 @@
+import { SoilData } from "./sources";
+import { AsceEdition, RiskCategory, SeismicBasis } from "./types";
+
+export type SeismicInputs = {
+  codeEdition?: string;
+  riskCategory?: RiskCategory;
+  siteClass?: string;
+};
+
+type CodeEdition = {
+  edition: AsceEdition;
+  label: string;
+};
+
+// USGS design-maps endpoints by ASCE 7 edition, plus the IBC editions that adopt each one.
+export const CODE_EDITIONS: Record<string, CodeEdition> = {
+  "asce7-10": { edition: "asce7-10", label: "ASCE 7-10" },
+  "asce7-16": { edition: "asce7-16", label: "ASCE 7-16" },
+  "asce7-22": { edition: "asce7-22", label: "ASCE 7-22" },
+  "ibc-2012": { edition: "asce7-10", label: "IBC 2012 (ASCE 7-10)" },
+  "ibc-2015": { edition: "asce7-10", label: "IBC 2015 (ASCE 7-10)" },
+  "ibc-2018": { edition: "asce7-16", label: "IBC 2018 (ASCE 7-16)" },
+  "ibc-2021": { edition: "asce7-16", label: "IBC 2021 (ASCE 7-16)" },
+  "ibc-2024": { edition: "asce7-22", label: "IBC 2024 (ASCE 7-22)" }
+};
+
+const DEFAULT_CODE_EDITION = "asce7-16";
+const DEFAULT_RISK_CATEGORY: RiskCategory = "II";
+const RISK_CATEGORIES: RiskCategory[] = ["I", "II", "III", "IV"];
+
+// "Default" is the ASCE 7-16 §11.4.3 / 7-22 §11.4.2 envelope for sites without geotechnical data.
+const SITE_CLASSES: Record<AsceEdition, string[]> = {
+  "asce7-10": ["A", "B", "C", "D", "E"],
+  "asce7-16": ["A", "B", "C", "D", "E", "Default"],
+  "asce7-22": ["A", "B", "BC", "C", "CD", "D", "DE", "E", "Default"]
+};
+
+const ORGANIC_UNIFIED_CLASSES = ["PT", "OL", "OH"];
+const SHALLOW_BEDROCK_CM = 150;
+const INFERENCE_DEPTH_CM = 150;
+
+function normalizeEdition(raw: string): string {
+  return raw.toLowerCase().replace(/\s+/g, "").replace(/^asce-?7-?/, "asce7-").replace(/^ibc-?/, "ibc-");
+}
+
+export function parseSeismicInputs(body: any): SeismicInputs | { error: string } {
+  const inputs: SeismicInputs = {};
+
+  if (body?.codeEdition != null && body.codeEdition !== "") {
+    const key = normalizeEdition(String(body.codeEdition));
+    if (!CODE_EDITIONS[key]) {
+      return { error: `codeEdition must be one of ${Object.keys(CODE_EDITIONS).join(", ")}` };
+    }
+    inputs.codeEdition = key;
+  }
+
+  if (body?.riskCategory != null && body.riskCategory !== "") {
+    const category = String(body.riskCategory).toUpperCase() as RiskCategory;
+    if (!RISK_CATEGORIES.includes(category)) {
+      return { error: "riskCategory must be I, II, III or IV" };
+    }
+    inputs.riskCategory = category;
+  }
+
+  if (body?.siteClass != null && body.siteClass !== "") {
+    const raw = String(body.siteClass);
+    const siteClass = raw.toLowerCase() === "default" ? "Default" : raw.toUpperCase();
+    const edition = CODE_EDITIONS[inputs.codeEdition ?? DEFAULT_CODE_EDITION].edition;
+    if (!SITE_CLASSES[edition].includes(siteClass)) {
+      return { error: `siteClass for ${edition} must be one of ${SITE_CLASSES[edition].join(", ")}` };
+    }
+    inputs.siteClass = siteClass;
+  }
+
+  return inputs;
+}
+
+// Share of the map unit whose upper horizons are organic soil or peat.
+function organicShare(soils: SoilData): number {
+  const components = soils.profile?.components ?? [];
+  const total = components.reduce((sum, c) => sum + c.percent, 0);
+  if (total <= 0) return 0;
+  const organic = components
+    .filter((c) =>
+      c.horizons.some(
+        (h) =>
+          (h.topDepthCm ?? Infinity) < INFERENCE_DEPTH_CM &&
+          ORGANIC_UNIFIED_CLASSES.some((cls) => h.unifiedClass?.toUpperCase().split(/[-,\s]+/).includes(cls))
+      )
+    )
+    .reduce((sum, c) => sum + c.percent, 0);
+  return organic / total;
+}
+
+// Screening-level site class from SSURGO. SSURGO carries no shear-wave velocity or SPT data and
+// describes only the top ~2 m, so this is a placeholder until a geotechnical report is available.
+export function inferSiteClass(soils: SoilData | undefined): { siteClass: string; basis: string } | undefined {
+  if (!soils?.profile?.components.length) return undefined;
+
+  if (organicShare(soils) >= 0.5) {
+    return { siteClass: "E", basis: "SSURGO: organic or peat horizons dominate the map unit (soft soil profile)" };
+  }
+  if (soils.bedrockDepthCm != null && soils.bedrockDepthCm <= SHALLOW_BEDROCK_CM) {
+    return {
+      siteClass: "C",
+      basis: `SSURGO: bedrock at ${Math.round(soils.bedrockDepthCm)} cm (very dense soil and soft rock profile)`
+    };
+  }
+  return {
+    siteClass: "D",
+    basis: "SSURGO: mineral soil with no shallow bedrock (stiff soil profile assumed)"
+  };
+}
+
+export function resolveSeismicBasis(inputs: SeismicInputs | undefined, soils: SoilData | undefined): SeismicBasis {
+  const code = CODE_EDITIONS[inputs?.codeEdition ?? DEFAULT_CODE_EDITION];
+  const riskCategory = inputs?.riskCategory ?? DEFAULT_RISK_CATEGORY;
+  const base = { edition: code.edition, codeReference: code.label, riskCategory };
+
+  if (inputs?.siteClass) {
+    return { ...base, siteClass: inputs.siteClass, siteClassSource: "requested", siteClassBasis: "Requested site class" };
+  }
+
+  const inferred = inferSiteClass(soils);
+  if (inferred) {
+    return { ...base, siteClass: inferred.siteClass, siteClassSource: "ssurgo", siteClassBasis: inferred.basis };
+  }
+
+  // ASCE 7-10 predates the "Default" envelope; D was the customary assumption.
+  const fallback = SITE_CLASSES[code.edition].includes("Default") ? "Default" : "D";
+  return {
+    ...base,
+    siteClass: fallback,
+    siteClassSource: "default",
+    siteClassBasis: "No geotechnical or SSURGO data; code default site class"
+  };
+}
+
+export function describeSeismicBasis(basis: SeismicBasis): string {
+  return `${basis.codeReference}, Risk Category ${basis.riskCategory}, Site Class ${basis.siteClass}`;
+}
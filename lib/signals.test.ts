@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { assessLiquefaction, severityFromContamination } from "./signals";
+import {
+  CONTAMINATION_SEARCH_RADII_M,
+  ContaminationData,
+  ContaminationSiteType,
+  RcraUniverse,
+  RegulatedFacility,
+  SoilData
+} from "./sources";
+import { SoilComponent } from "./types";
+
+function component(unifiedClass: string, percent: number, waterTableDepthCm: number | null): SoilComponent {
+  return {
+    cokey: unifiedClass,
+    name: unifiedClass,
+    percent,
+    majorComponent: true,
+    restrictiveDepthCm: null,
+    bedrockDepthCm: null,
+    waterTableDepthCm,
+    horizons: [
+      {
+        topDepthCm: 0,
+        bottomDepthCm: 150,
+        clayPercent: null,
+        sandPercent: null,
+        ksatUmPerSec: null,
+        unifiedClass,
+        lepPercent: null
+      }
+    ]
+  };
+}
+
+function soils(components: SoilComponent[], waterTableDepthCm: number | null, drainageClass?: string): SoilData {
+  return { waterTableDepthCm, drainageClass, profile: { mukey: "1", components } };
+}
+
+describe("assessLiquefaction", () => {
+  const sandy = soils([component("SM", 100, 60)], 60);
+
+  it("needs both PGA and a horizon profile", () => {
+    expect(assessLiquefaction(undefined, sandy).severity).toBe("unknown");
+    expect(assessLiquefaction({ pga: 0.3 }, { waterTableDepthCm: 60 }).severity).toBe("unknown");
+  });
+
+  it("rates low below 0.1 g regardless of soils", () => {
+    expect(assessLiquefaction({ pga: 0.09 }, sandy).severity).toBe("low");
+  });
+
+  it("prefers the site-adjusted PGA", () => {
+    expect(assessLiquefaction({ pga: 0.3, pgam: 0.05 }, sandy).severity).toBe("low");
+  });
+
+  it("rates high for strong shaking, mostly granular soils and shallow water", () => {
+    expect(assessLiquefaction({ pga: 0.25 }, sandy).severity).toBe("high");
+  });
+
+  it("rates medium between the triggers", () => {
+    expect(assessLiquefaction({ pga: 0.2 }, sandy).severity).toBe("medium");
+    expect(assessLiquefaction({ pga: 0.3 }, soils([component("SM", 40, 60), component("CL", 60, 60)], 60)).severity).toBe(
+      "medium"
+    );
+  });
+
+  it("rates low when the granular share is under 15% or the profile is dry", () => {
+    expect(assessLiquefaction({ pga: 0.3 }, soils([component("SM", 10, 60), component("CL", 90, 60)], 60)).severity).toBe(
+      "low"
+    );
+    expect(assessLiquefaction({ pga: 0.3 }, soils([component("SM", 100, null)], 180, "Well drained")).severity).toBe("low");
+  });
+
+  it("counts a poorly drained profile as saturated", () => {
+    expect(assessLiquefaction({ pga: 0.3 }, soils([component("SP", 100, null)], null, "Poorly drained")).severity).toBe("high");
+  });
+});
+
+describe("severityFromContamination", () => {
+  const data = (facilities: RegulatedFacility[], unscreened: ContaminationSiteType[] = []): ContaminationData => ({
+    facilities,
+    searchRadiiMeters: CONTAMINATION_SEARCH_RADII_M,
+    unscreened
+  });
+  const listing = (type: ContaminationSiteType, distanceMeters: number, rcraUniverse?: RcraUniverse): RegulatedFacility => ({
+    name: type,
+    type,
+    rcraUniverse,
+    distanceMeters
+  });
+
+  it("is unknown without data and low with no listings", () => {
+    expect(severityFromContamination(undefined)).toBe("unknown");
+    expect(severityFromContamination(data([]))).toBe("low");
+  });
+
+  it("rates on the screened lists when USTs were not screened", () => {
+    expect(severityFromContamination(data([], ["lust", "ust"]))).toBe("low");
+    expect(severityFromContamination(data([listing("brownfield", 150)], ["lust", "ust"]))).toBe("high");
+  });
+
+  it("rates adjoining release listings high and farther ones medium", () => {
+    expect(severityFromContamination(data([listing("lust", 0)]))).toBe("high");
+    expect(severityFromContamination(data([listing("lust", 400)]))).toBe("medium");
+  });
+
+  it("does not count a registered UST as a release", () => {
+    expect(severityFromContamination(data([listing("ust", 50)]))).toBe("medium");
+  });
+
+  it("rates Superfund sites within 1/2 mile high", () => {
+    expect(severityFromContamination(data([listing("superfund", 800)]))).toBe("high");
+    expect(severityFromContamination(data([listing("superfund", 1200)]))).toBe("medium");
+  });
+
+  it("counts adjoining RCRA handlers unless they are known generators", () => {
+    expect(severityFromContamination(data([listing("rcra", 100)]))).toBe("high");
+    expect(severityFromContamination(data([listing("rcra", 100, "tsd")]))).toBe("high");
+    expect(severityFromContamination(data([listing("rcra", 100, "generator")]))).toBe("medium");
+  });
+});
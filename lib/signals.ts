@@ -1,13 +1,47 @@
 import {
+  ContaminationData,
+  ContaminationSiteType,
   FEMAData,
   SoilData,
   USGSDesignData,
   ElevationSummary,
   FireHazardData,
-  SevereWeatherData
+  SevereWeatherData,
+  FaultData,
+  EarthquakeData,
+  NationalRiskData,
+  RegulatedFacility,
+  WetlandData
 } from "./sources";
+import { MATERIAL_SHARE, Share, formatShare } from "./footprint";
+import { NRI_COMPOSITE_SIGNAL_ID, nriSignalId, severityFromNriRating } from "./nri";
+import { describeSeismicBasis } from "./seismic";
+import { granularShare } from "./soil-profile";
+import { estimateEarthwork, formatSlopeDistribution } from "./terrain";
 import { Implication, Signal } from "./types";
 
+const SEVERITY_RANK: Record<Signal["severity"], number> = { unknown: 0, low: 1, medium: 2, high: 3 };
+
+function worseSeverity(a: Signal["severity"], b: Signal["severity"]): Signal["severity"] {
+  return SEVERITY_RANK[b] > SEVERITY_RANK[a] ? b : a;
+}
+
+// Worst condition among footprint shares large enough to matter; minor slivers are ignored.
+function worstMaterialShare<T>(
+  shares: Array<Share<T>> | undefined,
+  severityOf: (value: T) => Signal["severity"]
+): { share: Share<T>; severity: Signal["severity"] } | undefined {
+  let worst: { share: Share<T>; severity: Signal["severity"] } | undefined;
+  for (const share of shares ?? []) {
+    if (share.fraction < MATERIAL_SHARE) continue;
+    const severity = severityOf(share.value);
+    if (!worst || SEVERITY_RANK[severity] > SEVERITY_RANK[worst.severity]) {
+      worst = { share, severity };
+    }
+  }
+  return worst;
+}
+
 function severityFromFloodZone(zone?: string): Signal["severity"] {
   if (!zone) return "unknown";
   if (zone.startsWith("A") || zone.startsWith("V")) return "high";
@@ -59,6 +93,175 @@ function severityFromRestrictiveDepth(depth?: number | null): Signal["severity"]
   return "low";
 }
 
+// NRCS linear extensibility classes: low < 3, moderate 3-6, high 6-9, very high >= 9.
+function shrinkSwellClass(lep: number): string {
+  if (lep >= 9) return "Very high";
+  if (lep >= 6) return "High";
+  if (lep >= 3) return "Moderate";
+  return "Low";
+}
+
+function severityFromShrinkSwell(lep?: number | null): Signal["severity"] {
+  if (lep == null) return "unknown";
+  if (lep >= 6) return "high";
+  if (lep >= 3) return "medium";
+  return "low";
+}
+
+// SSURGO Low/Moderate/High ratings (corrosivity, frost action).
+function severityFromRating(rating?: string): Signal["severity"] {
+  if (!rating) return "unknown";
+  const value = rating.toLowerCase();
+  if (value.startsWith("high")) return "high";
+  if (value.startsWith("moderate")) return "medium";
+  return "low";
+}
+
+function severityFromWaterTable(depth?: number | null): Signal["severity"] {
+  if (depth == null) return "unknown";
+  if (depth < 50) return "high";
+  if (depth < 150) return "medium";
+  return "low";
+}
+
+function severityFromBedrock(depth?: number | null): Signal["severity"] {
+  if (depth == null) return "unknown";
+  if (depth < 100) return "high";
+  if (depth < 150) return "medium";
+  return "low";
+}
+
+// Well-drained soils have no saturated layer within 150 cm; a deeper recorded water table fits that class.
+const SATURATED_WATER_TABLE_CM = 150;
+
+// Screening per the usual triggers: enough shaking, granular soils, and shallow groundwater.
+export function assessLiquefaction(usgs?: USGSDesignData, soils?: SoilData): { severity: Signal["severity"]; detail: string } {
+  const pga = usgs?.pgam ?? usgs?.pga ?? null;
+  const components = soils?.profile?.components ?? [];
+  if (pga == null || components.length === 0) {
+    return { severity: "unknown", detail: "Requires PGA and a SSURGO horizon profile." };
+  }
+
+  const granular = granularShare(components);
+  const drainage = (soils?.drainageClass ?? "").toLowerCase();
+  const waterTable = soils?.waterTableDepthCm ?? null;
+  const shallowWater =
+    (waterTable != null && waterTable <= SATURATED_WATER_TABLE_CM) || (drainage.includes("poorly") && !drainage.includes("somewhat"));
+  const saturated = shallowWater || drainage.includes("somewhat poorly");
+  const detail =
+    `PGA ${formatNumber(pga, 2)} g, granular horizons in ${formatShare(granular)} of map unit, ` +
+    (waterTable != null ? `water table ${formatNumber(waterTable, 0)} cm` : `${soils?.drainageClass ?? "unknown drainage"}`);
+
+  if (pga < 0.1 || granular < 0.15 || !saturated) return { severity: "low", detail };
+  if (pga >= 0.25 && granular >= 0.5 && shallowWater) return { severity: "high", detail };
+  return { severity: "medium", detail };
+}
+
+// Horizontal accuracy of most FIRM base maps; closer SFHA edges need a survey check.
+const SFHA_EDGE_TOLERANCE_METERS = 150;
+const SFHA_NEAR_METERS = 750;
+// Older FIRMs often predate current hydrology and LiDAR terrain.
+const OUTDATED_FIRM_YEARS = 20;
+
+function severityFromSfhaDistance(fema?: FEMAData): Signal["severity"] {
+  if (fema?.sfhaNearby == null) return "unknown";
+  const distance = fema.sfhaDistanceMeters;
+  if (distance == null) return "low";
+  // Inside the SFHA the flood-zone signal carries the severity; proximity only adds review friction.
+  if (distance === 0) return "medium";
+  if (distance <= SFHA_EDGE_TOLERANCE_METERS) return "high";
+  if (distance <= SFHA_NEAR_METERS) return "medium";
+  return "low";
+}
+
+function severityFromFloodway(fema?: FEMAData): Signal["severity"] {
+  if (fema?.floodway == null && fema?.sfhaNearby == null) return "unknown";
+  const share = fema.footprint?.floodwayFraction ?? 0;
+  if (fema.floodway || share >= MATERIAL_SHARE) return "high";
+  if (share > 0) return "medium";
+  return "low";
+}
+
+function severityFromCoastalZone(zone?: string): Signal["severity"] {
+  if (!zone) return "unknown";
+  if (zone === "V zone" || zone === "Coastal A") return "high";
+  if (zone === "A near V zone") return "medium";
+  return "low";
+}
+
+// Local wetland buffers commonly run 50-100 ft; grading inside one usually needs a permit or variance.
+const WETLAND_BUFFER_METERS = 30.48;
+const WETLAND_NEAR_METERS = 152.4;
+
+// Proximity-based Section 404 jurisdiction risk; NWI mapping is not a jurisdictional delineation.
+export function severityFromWetlands(wetlands?: WetlandData): Signal["severity"] {
+  if (!wetlands) return "unknown";
+  const distance = wetlands.nearest?.distanceMeters;
+  if (wetlands.onSite || (distance != null && distance <= WETLAND_BUFFER_METERS)) return "high";
+  if (distance != null && distance <= WETLAND_NEAR_METERS) return "medium";
+  return "low";
+}
+
+// ASTM E1527 treats listings within 1/8 mile as adjoining the property.
+const ADJOINING_METERS = 201;
+const SUPERFUND_NEAR_METERS = 804.7;
+
+const CONTAMINATION_TYPE_LABELS: Record<ContaminationSiteType, string> = {
+  superfund: "Superfund",
+  rcra: "RCRA",
+  brownfield: "Brownfield",
+  lust: "Leaking UST",
+  ust: "Registered UST"
+};
+
+// Listings that record a release, or RCRA handlers that manage or clean up waste on site. An RCRA handler
+// counts unless it is known to be only a generator, since live FRS results do not give the universe.
+function isReleaseListing(facility: RegulatedFacility): boolean {
+  if (facility.type === "rcra") return facility.rcraUniverse !== "generator";
+  return facility.type !== "ust";
+}
+
+// Any listing inside its search distance is a potential REC; adjoining releases and nearby Superfund sites are the likely ones.
+export function severityFromContamination(data?: ContaminationData): Signal["severity"] {
+  if (!data) return "unknown";
+  const likely = data.facilities.some(
+    (facility) =>
+      (isReleaseListing(facility) && facility.distanceMeters <= ADJOINING_METERS) ||
+      (facility.type === "superfund" && facility.distanceMeters <= SUPERFUND_NEAR_METERS)
+  );
+  if (likely) return "high";
+  if (data.facilities.length) return "medium";
+  // Rated on the lists that were screened; the value and explanation name any that were not.
+  return "low";
+}
+
+// 500 ft is the customary setback from an active trace (e.g. California Alquist-Priolo zones).
+const FAULT_SETBACK_METERS = 152.4;
+// ASCE 7 treats sites within 15 km of a major active fault as near-fault.
+const NEAR_FAULT_METERS = 15_000;
+const SURFACE_RUPTURE_REVIEW_METERS = 1000;
+
+// The bundled fault and quake subsets only hold major features, so they can raise a rating but never clear a site.
+function severityFromFaultDistance(faults?: FaultData): Signal["severity"] {
+  if (!faults) return "unknown";
+  const distance = faults.nearest?.distanceMeters;
+  if (distance != null && distance <= SURFACE_RUPTURE_REVIEW_METERS) return "high";
+  if (distance != null && distance <= NEAR_FAULT_METERS) return "medium";
+  return faults.provenance?.fallbackUsed ? "unknown" : "low";
+}
+
+function severityFromMagnitude(quakes?: EarthquakeData): Signal["severity"] {
+  if (!quakes) return "unknown";
+  const magnitude = quakes.largest?.magnitude;
+  if (magnitude != null && magnitude >= 6.5) return "high";
+  if (magnitude != null && magnitude >= 5) return "medium";
+  return quakes.provenance?.fallbackUsed ? "unknown" : "low";
+}
+
+function formatDistance(meters: number): string {
+  return meters < 1000 ? `${formatQuantity(meters * 3.28084)} ft` : `${formatNumber(meters / 1000, 1)} km`;
+}
+
 function severityFromSlope(slope?: number | null): Signal["severity"] {
   if (slope == null) return "unknown";
   if (slope >= 10) return "high";
@@ -76,6 +279,21 @@ function severityFromTornadoOutlook(args?: SevereWeatherData): Signal["severity"
   return "low";
 }
 
+function severityFromEarthworkDepth(depthMeters?: number | null): Signal["severity"] {
+  if (depthMeters == null) return "unknown";
+  if (depthMeters >= 0.9) return "high";
+  if (depthMeters >= 0.3) return "medium";
+  return "low";
+}
+
+function formatQuantity(value: number): string {
+  return Math.round(value).toLocaleString("en-US");
+}
+
+function formatUsd(value: number): string {
+  return `$${formatQuantity(value)}`;
+}
+
 function formatNumber(value?: number | null, digits = 2): string {
   if (value == null || Number.isNaN(value)) return "N/A";
   return value.toFixed(digits);
@@ -88,27 +306,142 @@ export function buildSignals(args: {
   elevation?: ElevationSummary;
   fire?: FireHazardData;
   severe?: SevereWeatherData;
+  faults?: FaultData;
+  earthquakes?: EarthquakeData;
+  nri?: NationalRiskData;
+  wetlands?: WetlandData;
+  contamination?: ContaminationData;
+  // Target finished pad elevation for cut/fill; defaults to the balanced elevation.
+  padElevationMeters?: number;
 }): Signal[] {
   const signals: Signal[] = [];
 
-  signals.push({
-    id: "flood-zone",
-    label: "Flood Hazard Zone",
-    value: args.fema?.floodZone ?? "Unknown",
-    severity: severityFromFloodZone(args.fema?.floodZone),
-    explanation: "FEMA NFHL zone indicates insurance and elevation-driven design requirements."
-  });
+  const floodFootprint = args.fema?.footprint;
+  if (floodFootprint && floodFootprint.zones.length > 0) {
+    const worst = worstMaterialShare(floodFootprint.zones, (sample) => severityFromFloodZone(sample.zone));
+    let severity = worseSeverity(severityFromFloodZone(args.fema?.floodZone), worst?.severity ?? "unknown");
+    // An SFHA sliver below the material threshold still warrants a look at the site plan.
+    if (floodFootprint.sfhaFraction > 0 && SEVERITY_RANK[severity] < SEVERITY_RANK.medium) severity = "medium";
+    const breakdown = floodFootprint.zones
+      .map((share) => `${share.value.zone} ${formatShare(share.fraction)}`)
+      .join(", ");
+    signals.push({
+      id: "flood-zone",
+      label: "Flood Hazard Zone",
+      value: `${args.fema?.floodZone ?? "Unknown"} at centroid (footprint: ${breakdown})`,
+      severity,
+      explanation:
+        floodFootprint.sfhaFraction > 0
+          ? `${formatShare(floodFootprint.sfhaFraction)} of footprint in SFHA ` +
+            `(${floodFootprint.zones.filter((share) => share.value.sfha).map((share) => `Zone ${share.value.zone}`).join(", ")}). ` +
+            "Affected building pads need elevation or floodproofing design."
+          : "No sampled footprint point falls in an SFHA; FEMA NFHL zone indicates insurance and elevation-driven design requirements."
+    });
+  } else {
+    signals.push({
+      id: "flood-zone",
+      label: "Flood Hazard Zone",
+      value: args.fema?.floodZone ?? "Unknown",
+      severity: severityFromFloodZone(args.fema?.floodZone),
+      explanation: "FEMA NFHL zone indicates insurance and elevation-driven design requirements."
+    });
+  }
 
+  const sfhaDistance = args.fema?.sfhaDistanceMeters;
   signals.push({
     id: "floodplain-proximity",
-    label: "Floodplain Proximity (FEMA SFHA)",
+    label: "Distance to Nearest SFHA",
     value: args.fema?.sfhaNearby == null
       ? "Not available"
-      : args.fema.sfhaNearby
-        ? `SFHA detected within ~${(args.fema.sfhaSearchRadiusKm ?? 1.5).toFixed(1)} km`
-        : `No SFHA detected within ~${(args.fema.sfhaSearchRadiusKm ?? 1.5).toFixed(1)} km`,
-    severity: args.fema?.sfhaNearby == null ? "unknown" : args.fema.sfhaNearby ? "medium" : "low",
-    explanation: "Nearby FEMA Special Flood Hazard Areas indicate potential floodplain-adjacent constraints even outside parcel SFHA."
+      : sfhaDistance == null
+        ? `No SFHA within ${formatNumber(args.fema.sfhaSearchRadiusKm ?? 3, 1)} km`
+        : sfhaDistance === 0
+          ? "Inside SFHA"
+          : formatDistance(sfhaDistance),
+    severity: severityFromSfhaDistance(args.fema),
+    explanation:
+      sfhaDistance === 0
+        ? "Site is inside a Special Flood Hazard Area; see the flood hazard zone for elevation and floodproofing requirements."
+        : sfhaDistance != null && sfhaDistance <= SFHA_EDGE_TOLERANCE_METERS
+          ? "SFHA edge is within FIRM mapping tolerance of the site; a survey against the BFE may place improvements in the floodplain."
+          : "Nearby FEMA Special Flood Hazard Areas indicate potential floodplain-adjacent constraints even outside parcel SFHA."
+  });
+
+  const floodwayShare = args.fema?.footprint?.floodwayFraction ?? 0;
+  const floodwayDistance = args.fema?.floodwayDistanceMeters;
+  signals.push({
+    id: "floodway",
+    label: "Regulatory Floodway",
+    value: args.fema?.floodway == null
+      ? args.fema?.sfhaNearby == null
+        ? "Not available"
+        : "Not mapped at site"
+      : args.fema.floodway
+        ? "Site centroid in regulatory floodway"
+        : floodwayShare > 0
+          ? `${formatShare(floodwayShare)} of footprint in floodway`
+          : floodwayDistance != null
+            ? `Not in floodway (nearest ${formatDistance(floodwayDistance)})`
+            : "Not in floodway",
+    severity: severityFromFloodway(args.fema),
+    explanation: args.fema?.floodway || floodwayShare > 0
+      ? "Encroachments in the floodway require a no-rise certification backed by hydraulic modeling; most communities effectively prohibit new buildings there."
+      : "Floodway encroachment rules do not apply to the mapped site area."
+  });
+
+  const coastalZone = args.fema?.coastalZone;
+  signals.push({
+    id: "coastal-flood-zone",
+    label: "Coastal Flood Hazard",
+    value: coastalZone ?? "Not available",
+    severity: severityFromCoastalZone(coastalZone),
+    explanation:
+      coastalZone === "V zone"
+        ? "Coastal High Hazard Area: pile or column foundations, breakaway walls, and lowest horizontal member above BFE are required."
+        : coastalZone === "Coastal A"
+          ? "Seaward of the LiMWA: ASCE 24 and the IBC call for V-zone-style open foundations against 1.5-3 ft waves."
+          : coastalZone === "A near V zone"
+            ? "A zone adjacent to a V zone with no mapped LiMWA; confirm wave height with the flood study before selecting foundations."
+            : coastalZone
+              ? "No coastal wave hazard at the site."
+              : "Coastal zone could not be determined from FEMA NFHL."
+  });
+
+  const revisions = args.fema?.mapRevisions;
+  signals.push({
+    id: "flood-map-revisions",
+    label: "LOMR/LOMA Overlays",
+    value: revisions == null
+      ? "Not available"
+      : revisions.length
+        ? revisions
+            .map((r) => [r.type, r.caseNumber, r.effectiveDate ? `eff. ${r.effectiveDate}` : undefined].filter(Boolean).join(" "))
+            .join("; ")
+        : "None",
+    severity: revisions == null ? "unknown" : revisions.length ? "medium" : "low",
+    explanation: revisions?.length
+      ? "The effective FIRM has been amended at or near the site; confirm the determination covers the proposed structures and grades."
+      : "No Letters of Map Revision or Amendment affect the site."
+  });
+
+  const firmDate = args.fema?.firmEffectiveDate;
+  const firmAgeYears = firmDate ? (Date.now() - Date.parse(firmDate)) / (365.25 * 24 * 3600 * 1000) : null;
+  signals.push({
+    id: "firm-effective-date",
+    label: "FIRM Panel Effective Date",
+    value: firmDate
+      ? `${firmDate}${args.fema?.firmPanelNumber ? ` (panel ${args.fema.firmPanelNumber})` : ""}`
+      : "Not available",
+    severity:
+      firmAgeYears == null || Number.isNaN(firmAgeYears)
+        ? "unknown"
+        : firmAgeYears >= OUTDATED_FIRM_YEARS
+          ? "medium"
+          : "low",
+    explanation:
+      firmAgeYears != null && firmAgeYears >= OUTDATED_FIRM_YEARS
+        ? `Panel is ${Math.floor(firmAgeYears)} years old; check for preliminary FIRMs that may raise BFEs or expand the SFHA before permitting.`
+        : "Effective flood map date used for insurance ratings and floodplain permitting."
   });
 
   const hasFemaZone = Boolean(args.fema?.floodZone);
@@ -132,13 +465,79 @@ export function buildSignals(args: {
       : "Base flood elevation data unavailable."
   });
 
+  const wetland = args.wetlands?.nearest;
+  const wetlandLabel = wetland ? wetland.wetlandType + (wetland.cowardinCode ? ` (${wetland.cowardinCode})` : "") : "";
+  const wetlandSeverity = severityFromWetlands(args.wetlands);
+  signals.push({
+    id: "wetland-404",
+    label: "Mapped Wetlands (NWI)",
+    value: !args.wetlands
+      ? "Not available"
+      : args.wetlands.onSite
+        ? `On site - ${wetlandLabel}`
+        : wetland
+          ? `${wetlandLabel} ${formatDistance(wetland.distanceMeters)} away`
+          : `None mapped within ${formatDistance(args.wetlands.searchRadiusMeters)}`,
+    severity: wetlandSeverity,
+    explanation: !args.wetlands
+      ? "National Wetlands Inventory data could not be retrieved."
+      : wetlandSeverity === "high"
+        ? "Mapped wetland on or within 100 ft of the site: fill or grading may need a Clean Water Act Section 404 permit. " +
+          "A wetland delineation and USACE jurisdictional determination confirm the boundary."
+        : wetlandSeverity === "medium"
+          ? "Mapped wetland within 500 ft: confirm the boundary and any local buffer before fixing the site layout."
+          : "No mapped wetland near the site. NWI misses some small or farmed wetlands, so a field check still applies."
+  });
+
+  const contamination = args.contamination;
+  const contaminationSeverity = severityFromContamination(contamination);
+  const nearestListing = contamination?.facilities[0];
+  const listingCounts = contamination
+    ? (Object.keys(CONTAMINATION_TYPE_LABELS) as ContaminationSiteType[])
+        .map((type) => [type, contamination.facilities.filter((facility) => facility.type === type).length] as const)
+        .filter(([, count]) => count > 0)
+        .map(([type, count]) => `${count} ${CONTAMINATION_TYPE_LABELS[type]}`)
+    : [];
+  const unscreened = contamination?.unscreened.length
+    ? ` Not screened here: ${contamination.unscreened.map((type) => CONTAMINATION_TYPE_LABELS[type]).join(", ")}. ` +
+      "The rating covers the other lists only; the Phase I ESA's state UST and LUST search covers these."
+    : "";
+  signals.push({
+    id: "contamination-risk",
+    label: "Regulated Contamination Sites",
+    value: !contamination
+      ? "Not available"
+      : nearestListing
+        ? `${listingCounts.join(", ")} - nearest ${CONTAMINATION_TYPE_LABELS[nearestListing.type]} ${nearestListing.name}, ` +
+          (nearestListing.distanceMeters === 0 ? "on site" : `${formatDistance(nearestListing.distanceMeters)} away`)
+        : contamination.unscreened.length
+          ? "No federal listings within ASTM search distances (USTs not screened)"
+          : "None listed within ASTM search distances",
+    severity: contaminationSeverity,
+    explanation: !contamination
+      ? "EPA regulated-facility data could not be retrieved."
+      : (contaminationSeverity === "high"
+          ? "A release listing or RCRA handler other than a known generator on or adjoining the property, or a Superfund " +
+            "site within 1/2 mile, is a likely recognized environmental condition. Expect a Phase I ESA and possibly " +
+            "Phase II sampling before acquisition or excavation."
+          : contaminationSeverity === "medium"
+            ? "Listed facilities within the ASTM E1527 search distances: a Phase I ESA should evaluate whether any is a " +
+              "recognized environmental condition for the site."
+            : "No screened listings within the ASTM E1527 search distances. Unlisted historical uses can still contaminate " +
+              "a site.") + unscreened
+  });
+
   signals.push({
     id: "sdc",
     label: "Seismic Design Category",
     value: args.usgs?.sdc ?? "Not available",
     severity: severityFromSdc(args.usgs?.sdc),
     explanation: args.usgs?.sdc
-      ? `SDC ${args.usgs.sdc}: Higher categories drive increased lateral force design complexity and detailing costs.`
+      ? `SDC ${args.usgs.sdc}: Higher categories drive increased lateral force design complexity and detailing costs.` +
+        (args.usgs.basis
+          ? ` Basis: ${describeSeismicBasis(args.usgs.basis)}` +
+            (args.usgs.basis.siteClassSource === "requested" ? "." : ` (${args.usgs.basis.siteClassBasis}; confirm with geotech).`)
+          : "")
       : "Seismic design parameters could not be determined from USGS."
   });
 
@@ -162,21 +561,124 @@ export function buildSignals(args: {
       : "Seismic acceleration parameters not determined."
   });
 
+  const liquefaction = assessLiquefaction(args.usgs, args.soils);
+  signals.push({
+    id: "liquefaction",
+    label: "Liquefaction Susceptibility",
+    value:
+      liquefaction.severity === "unknown"
+        ? "Not available"
+        : `${liquefaction.severity === "high" ? "High" : liquefaction.severity === "medium" ? "Moderate" : "Low"} (${liquefaction.detail})`,
+    severity: liquefaction.severity,
+    explanation:
+      liquefaction.severity === "high"
+        ? "Saturated granular soils under strong shaking; expect ground improvement or deep foundations pending SPT/CPT analysis."
+        : liquefaction.severity === "medium"
+          ? "Some liquefaction triggers present; a site-specific liquefaction check should precede foundation selection."
+          : liquefaction.severity === "low"
+            ? "Shaking, soil texture, or groundwater conditions make liquefaction unlikely at screening level."
+            : `Liquefaction screening not possible. ${liquefaction.detail}`
+  });
+
+  const nearestFault = args.faults?.nearest;
+  const faultAge = nearestFault?.age ? `, ${nearestFault.age}` : "";
+  const faultSeverity = severityFromFaultDistance(args.faults);
+  const faultsPartial = args.faults?.provenance?.fallbackUsed === true;
+  signals.push({
+    id: "fault-distance",
+    label: "Distance to Nearest Quaternary Fault",
+    value: !args.faults
+      ? "Not available"
+      : nearestFault
+        ? `${formatDistance(nearestFault.distanceMeters)} (${nearestFault.name}${faultAge})`
+        : faultsPartial
+          ? `None of the bundled major faults within ${args.faults.searchRadiusKm} km`
+          : `None mapped within ${args.faults.searchRadiusKm} km`,
+    severity: faultSeverity,
+    explanation: !args.faults
+      ? "USGS Quaternary fault data could not be retrieved."
+      : faultSeverity === "unknown"
+        ? "Only major faults could be searched, so a closer mapped fault cannot be ruled out. Recheck when Qfaults is available."
+        : !nearestFault
+          ? "No mapped Quaternary fault near the site; fault rupture and near-fault effects are not expected."
+          : nearestFault.distanceMeters <= NEAR_FAULT_METERS
+            ? "Within the near-fault region: expect directivity and pulse effects in design ground motions and possible fault-rupture review."
+            : "Mapped fault is beyond the near-fault region; shaking is captured by the code design values."
+  });
+
+  const faultWithinSetback = nearestFault != null && nearestFault.distanceMeters <= FAULT_SETBACK_METERS;
+  signals.push({
+    id: "fault-within-500ft",
+    label: "Fault Within 500 ft",
+    value: !args.faults
+      ? "Not available"
+      : faultWithinSetback && nearestFault
+        ? `Yes (${nearestFault.name} at ${formatDistance(nearestFault.distanceMeters)})`
+        : faultsPartial
+          ? "Not confirmed"
+          : "No",
+    severity: !args.faults ? "unknown" : faultWithinSetback ? "high" : faultsPartial ? "unknown" : "low",
+    explanation: faultWithinSetback
+      ? "Mapped fault trace within 500 ft: a fault rupture hazard investigation and trenching are typically required before siting structures."
+      : !args.faults
+        ? "USGS Quaternary fault data could not be retrieved."
+        : faultsPartial
+          ? "Only major faults could be searched, so a trace within the customary 500 ft setback cannot be ruled out."
+          : "No mapped Quaternary fault trace within the customary 500 ft setback."
+  });
+
+  const largestQuake = args.earthquakes?.largest;
+  const quakeSeverity = severityFromMagnitude(args.earthquakes);
+  signals.push({
+    id: "historical-earthquakes",
+    label: `Max Historical Magnitude (${args.earthquakes?.searchRadiusKm ?? 100} km)`,
+    value: !args.earthquakes
+      ? "Not available"
+      : largestQuake
+        ? `M${formatNumber(largestQuake.magnitude, 1)} ${formatNumber(largestQuake.distanceKm, 0)} km away` +
+          (largestQuake.time ? ` (${largestQuake.time.slice(0, 4)})` : "")
+        : args.earthquakes.provenance?.fallbackUsed
+          ? "None of the bundled significant events nearby"
+          : `No M${args.earthquakes.minMagnitude}+ events recorded`,
+    severity: quakeSeverity,
+    explanation: !args.earthquakes
+      ? "USGS earthquake catalog could not be retrieved."
+      : quakeSeverity === "unknown"
+        ? "Only significant historical earthquakes could be searched, so smaller nearby events are not counted. Recheck when ComCat is available."
+        : largestQuake
+          ? `${args.earthquakes.eventCount} M${args.earthquakes.minMagnitude}+ events on record within ${args.earthquakes.searchRadiusKm} km` +
+            (largestQuake.place ? `; largest: ${largestQuake.place}.` : ".")
+          : "No significant recorded earthquakes near the site in the instrumental catalog."
+  });
+
+  const soilUnits = args.soils?.footprint?.mapUnits;
+  const worstDrainage = worstMaterialShare(soilUnits, (unit) => severityFromDrainageClass(unit.drainageClass));
+  const drainageSeverity = severityFromDrainageClass(args.soils?.drainageClass);
+  const drainageFromFootprint =
+    worstDrainage && SEVERITY_RANK[worstDrainage.severity] > SEVERITY_RANK[drainageSeverity] ? worstDrainage : undefined;
   signals.push({
     id: "soil-drainage",
     label: "Soil Drainage Class",
-    value: args.soils?.drainageClass ?? "Not available",
-    severity: severityFromDrainageClass(args.soils?.drainageClass),
+    value: drainageFromFootprint
+      ? `${args.soils?.drainageClass ?? "Not available"}; ${drainageFromFootprint.share.value.drainageClass} on ${formatShare(drainageFromFootprint.share.fraction)} of footprint`
+      : args.soils?.drainageClass ?? "Not available",
+    severity: drainageFromFootprint ? drainageFromFootprint.severity : drainageSeverity,
     explanation: args.soils?.drainageClass
       ? "Poor drainage elevates earthwork, dewatering, and slab moisture risk."
       : "Soil drainage class data not available."
   });
 
+  const worstHydro = worstMaterialShare(soilUnits, (unit) => severityFromHydroGroup(unit.hydrologicGroup));
+  const hydroSeverity = severityFromHydroGroup(args.soils?.hydrologicGroup);
+  const hydroFromFootprint =
+    worstHydro && SEVERITY_RANK[worstHydro.severity] > SEVERITY_RANK[hydroSeverity] ? worstHydro : undefined;
   signals.push({
     id: "hydro-group",
     label: "Soil Hydrologic Group",
-    value: args.soils?.hydrologicGroup ?? "Not available",
-    severity: severityFromHydroGroup(args.soils?.hydrologicGroup),
+    value: hydroFromFootprint
+      ? `${args.soils?.hydrologicGroup ?? "Not available"}; ${hydroFromFootprint.share.value.hydrologicGroup} on ${formatShare(hydroFromFootprint.share.fraction)} of footprint`
+      : args.soils?.hydrologicGroup ?? "Not available",
+    severity: hydroFromFootprint ? hydroFromFootprint.severity : hydroSeverity,
     explanation: args.soils?.hydrologicGroup
       ? "Hydrologic group indicates runoff potential affecting stormwater design."
       : "Hydrologic group data not available."
@@ -188,7 +690,10 @@ export function buildSignals(args: {
     value: args.soils?.clayPercent != null ? `${formatNumber(args.soils?.clayPercent, 0)}%` : "Not available",
     severity: severityFromClay(args.soils?.clayPercent ?? null),
     explanation: args.soils?.clayPercent != null
-      ? "Higher clay content raises shrink-swell and slab movement risk."
+      ? args.soils.profile && args.soils.profile.components.length > 1
+        ? `Peak clay in the top 100 cm, weighted across ${args.soils.profile.components.length} map unit components. ` +
+          "Higher clay content raises shrink-swell and slab movement risk."
+        : "Higher clay content raises shrink-swell and slab movement risk."
       : "Clay content data not available."
   });
 
@@ -202,24 +707,139 @@ export function buildSignals(args: {
       : "Restrictive layer depth data not available."
   });
 
+  const lep = args.soils?.shrinkSwellLepPercent ?? null;
+  signals.push({
+    id: "shrink-swell",
+    label: "Shrink-Swell Potential",
+    value: lep != null ? `${formatNumber(lep, 1)}% LEP (${shrinkSwellClass(lep)})` : "Not available",
+    severity: severityFromShrinkSwell(lep),
+    explanation: lep != null
+      ? "Linear extensibility in the top 100 cm; moderate or higher drives slab design, moisture conditioning, or soil replacement."
+      : "Linear extensibility data not available."
+  });
+
+  signals.push({
+    id: "concrete-corrosivity",
+    label: "Concrete Corrosivity",
+    value: args.soils?.concreteCorrosion ?? "Not available",
+    severity: severityFromRating(args.soils?.concreteCorrosion),
+    explanation: args.soils?.concreteCorrosion
+      ? "Sulfate and acidity exposure; moderate or high ratings call for sulfate-resistant cement, lower w/c ratio, and added cover."
+      : "Concrete corrosivity rating not available."
+  });
+
+  signals.push({
+    id: "steel-corrosivity",
+    label: "Uncoated Steel Corrosivity",
+    value: args.soils?.steelCorrosion ?? "Not available",
+    severity: severityFromRating(args.soils?.steelCorrosion),
+    explanation: args.soils?.steelCorrosion
+      ? "Buried steel piping, piles, and anchors may need coatings, sacrificial thickness, or cathodic protection."
+      : "Steel corrosivity rating not available."
+  });
+
+  signals.push({
+    id: "frost-action",
+    label: "Frost Action Potential",
+    value: args.soils?.frostAction ?? "Not available",
+    severity: severityFromRating(args.soils?.frostAction),
+    explanation: args.soils?.frostAction
+      ? "Frost-susceptible subgrade heaves under pavements and slabs; budget non-frost-susceptible base or insulation."
+      : "Frost action rating not available."
+  });
+
+  // SSURGO only records wet layers and bedrock where they occur, so a populated profile without them means none.
+  const hasProfile = (args.soils?.profile?.components.length ?? 0) > 0;
+  const waterTable = args.soils?.waterTableDepthCm ?? null;
+  signals.push({
+    id: "water-table-depth",
+    label: "Seasonal High Water Table",
+    value: waterTable != null ? `${formatNumber(waterTable, 0)} cm` : hasProfile ? "None reported in profile" : "Not available",
+    severity: waterTable != null ? severityFromWaterTable(waterTable) : hasProfile ? "low" : "unknown",
+    explanation: waterTable != null
+      ? "Shallow seasonal groundwater drives dewatering for footings, utilities, and below-grade work."
+      : hasProfile
+        ? "No saturated layer is recorded for the map unit components."
+        : "Water table data not available."
+  });
+
+  const bedrock = args.soils?.bedrockDepthCm ?? null;
+  signals.push({
+    id: "bedrock-depth",
+    label: "Depth to Bedrock",
+    value: bedrock != null ? `${formatNumber(bedrock, 0)} cm` : hasProfile ? "None reported in profile" : "Not available",
+    severity: bedrock != null ? severityFromBedrock(bedrock) : hasProfile ? "low" : "unknown",
+    explanation: bedrock != null
+      ? "Shallow bedrock may require ripping, hoe-ramming, or blasting for foundations and utility trenches."
+      : hasProfile
+        ? "No bedrock restriction is recorded for the map unit components."
+        : "Bedrock depth data not available."
+  });
+
+  if (soilUnits && soilUnits.length > 0) {
+    const dominant = soilUnits[0];
+    const materialUnits = soilUnits.filter((share) => share.fraction >= MATERIAL_SHARE).length;
+    signals.push({
+      id: "soil-map-units",
+      label: "Footprint Soil Map Units",
+      value:
+        `${soilUnits.length} soil map unit${soilUnits.length === 1 ? "" : "s"}, dominant ` +
+        `${dominant.value.compname ?? dominant.value.name ?? dominant.value.mukey} ${formatShare(dominant.fraction)}`,
+      severity: materialUnits >= 3 ? "medium" : "low",
+      explanation:
+        materialUnits >= 3
+          ? "Several material soil map units across the footprint; plan borings per unit and expect variable subgrade."
+          : "Footprint soils are largely uniform across the sampled grid."
+    });
+  }
+
+  const terrain = args.elevation?.terrain;
   signals.push({
     id: "site-slope",
-    label: "Local Slope (Approx)",
-    value: args.elevation?.slopePercent != null ? `${formatNumber(args.elevation?.slopePercent, 1)}%` : "Not available",
+    label: "Site Slope",
+    value: terrain?.meanSlopePercent != null
+      ? `${formatNumber(terrain.meanSlopePercent, 1)}% mean, ${formatNumber(terrain.p90SlopePercent, 1)}% P90, ` +
+        `${formatNumber(terrain.maxReliefMeters, 1)} m relief`
+      : args.elevation?.slopePercent != null
+        ? `${formatNumber(args.elevation.slopePercent, 1)}%`
+        : "Not available",
     severity: severityFromSlope(args.elevation?.slopePercent ?? null),
-    explanation: args.elevation?.slopePercent != null
-      ? "Higher slope increases grading, retaining, and erosion control needs."
-      : "Slope data could not be calculated."
+    explanation: terrain?.meanSlopePercent != null
+      ? `Slope across ${terrain.sampleCount} grid samples (${formatSlopeDistribution(terrain.slopeDistribution)}), ` +
+        `${terrain.aspect ? `facing ${terrain.aspect}` : "effectively flat"}. ` +
+        "Higher slope increases grading, retaining, and erosion control needs."
+      : args.elevation?.slopePercent != null
+        ? "Higher slope increases grading, retaining, and erosion control needs."
+        : "Slope data could not be calculated."
+  });
+
+  const earthwork = args.elevation?.grid ? estimateEarthwork(args.elevation.grid, args.padElevationMeters) : null;
+  signals.push({
+    id: "earthwork-volume",
+    label: "Earthwork Cut/Fill",
+    value: earthwork
+      ? `Cut ${formatQuantity(earthwork.cutCubicYards)} CY / Fill ${formatQuantity(earthwork.fillCubicYards)} CY ` +
+        `(net ${earthwork.netCubicYards >= 0 ? "export" : "import"} ${formatQuantity(Math.abs(earthwork.netCubicYards))} CY)`
+      : "Not available",
+    severity: severityFromEarthworkDepth(earthwork?.meanDepthMeters),
+    explanation: earthwork
+      ? `Pad at ${formatNumber(earthwork.padElevationMeters, 1)} m ` +
+        `(${earthwork.padSource === "requested" ? "requested" : "balanced cut/fill"}) over ` +
+        `${formatQuantity(earthwork.footprintAreaSqMeters)} m² of footprint; average ${formatNumber(earthwork.meanDepthMeters, 2)} m of cut or fill. ` +
+        "Bank volumes from the terrain grid; excludes stripping, over-excavation, and shrink/swell."
+      : "Terrain grid unavailable; cut/fill could not be estimated."
   });
 
   signals.push({
     id: "wildfire-risk",
     label: "Wildfire Risk",
-    value: args.fire?.wildfireRisk ?? "Not available",
+    value: args.fire?.hazardPotential ?? "Not available",
     severity: severityFromFireRisk(args.fire?.wildfireRisk),
-    explanation: args.fire?.wildfireRisk
-      ? `Wildfire risk: ${args.fire.wildfireRisk}. Higher risk affects defensibility, insurance, and long-term viability.`
-      : "Wildfire risk data not available for this location."
+    explanation: args.fire?.hazardPotential
+      ? `USFS Wildfire Hazard Potential: ${args.fire.hazardPotential}` +
+        (args.fire.wuiClass ? `; ${args.fire.wuiClass}` : "") +
+        ". Higher hazard affects defensibility, insurance, and long-term viability."
+      : "No wildfire hazard data covers this location; risk is unknown, not low."
   });
 
   const tornadoValue =
@@ -237,6 +857,36 @@ export function buildSignals(args: {
         : "Direct NOAA SPC Day 1/2 probabilistic tornado outlook for the site point."
   });
 
+  const nri = args.nri;
+  signals.push({
+    id: NRI_COMPOSITE_SIGNAL_ID,
+    label: "FEMA National Risk Index",
+    value: nri?.riskRating
+      ? nri.riskRating + (nri.expectedAnnualLossUsd != null ? ` (tract EAL ${formatUsd(nri.expectedAnnualLossUsd)}/yr)` : "")
+      : "Not available",
+    severity: severityFromNriRating(nri?.riskRating),
+    explanation: nri?.riskRating
+      ? `Composite risk across 18 hazards for census tract ${nri.tractFips ?? "at the site"}; insurers cite it for community-level exposure.`
+      : "FEMA National Risk Index data not available for this location."
+  });
+
+  // Only hazards rated moderate or worse become signals; the full table is in the facts.
+  for (const hazard of nri?.hazards ?? []) {
+    const severity = severityFromNriRating(hazard.riskRating);
+    if (severity !== "medium" && severity !== "high") continue;
+    signals.push({
+      id: nriSignalId(hazard.slug),
+      label: `NRI ${hazard.label} Risk`,
+      value:
+        hazard.riskRating +
+        (hazard.expectedAnnualLossUsd != null ? ` (EAL ${formatUsd(hazard.expectedAnnualLossUsd)}/yr)` : ""),
+      severity,
+      explanation:
+        `${hazard.label} risk is ${hazard.riskRating?.toLowerCase()} for the census tract relative to the nation; ` +
+        "expect it to show up in builder's risk and property underwriting."
+    });
+  }
+
   return signals;
 }
 
@@ -245,6 +895,22 @@ export function buildImplications(signals: Signal[]): Implication[] {
 
   const flood = signals.find((s) => s.id === "flood-zone");
   const floodNearby = signals.find((s) => s.id === "floodplain-proximity");
+  const floodway = signals.find((s) => s.id === "floodway");
+  if (floodway?.severity === "high" || floodway?.severity === "medium") {
+    implications.push({
+      title: "Floodway Encroachment",
+      detail: "Keep structures and fill out of the floodway or budget hydraulic modeling for a no-rise certification."
+    });
+  }
+
+  const coastal = signals.find((s) => s.id === "coastal-flood-zone");
+  if (coastal?.severity === "high") {
+    implications.push({
+      title: "Coastal Foundation Design",
+      detail: "Carry open pile or column foundations with breakaway enclosures below the design flood elevation."
+    });
+  }
+
   if (flood?.severity === "high" || floodNearby?.severity === "medium" || floodNearby?.severity === "high") {
     implications.push({
       title: "Flood Mitigation Budget",
@@ -284,6 +950,46 @@ export function buildImplications(signals: Signal[]): Implication[] {
     });
   }
 
+  const liquefaction = signals.find((s) => s.id === "liquefaction");
+  if (liquefaction?.severity === "high") {
+    implications.push({
+      title: "Liquefaction Mitigation",
+      detail: "Carry allowances for ground improvement or deep foundations until SPT/CPT liquefaction analysis is complete."
+    });
+  }
+
+  const faultSetback = signals.find((s) => s.id === "fault-within-500ft");
+  if (faultSetback?.severity === "high") {
+    implications.push({
+      title: "Fault Rupture Investigation",
+      detail: "Budget for a fault trenching study and hold building footprints flexible until setbacks from the trace are confirmed."
+    });
+  }
+
+  const wetlands = signals.find((s) => s.id === "wetland-404");
+  if (wetlands?.severity === "high") {
+    implications.push({
+      title: "Wetland Permitting",
+      detail: "Commission a wetland delineation early; a Section 404 permit and mitigation credits can add months to the schedule."
+    });
+  }
+
+  const contamination = signals.find((s) => s.id === "contamination-risk");
+  if (contamination?.severity === "high") {
+    implications.push({
+      title: "Environmental Due Diligence",
+      detail: "Order a Phase I ESA now and hold a Phase II sampling budget; contaminated soil handling and disposal can dominate sitework cost."
+    });
+  }
+
+  const earthwork = signals.find((s) => s.id === "earthwork-volume");
+  if (earthwork?.severity === "high") {
+    implications.push({
+      title: "Mass Grading",
+      detail: "Cut/fill depths warrant a grading plan, haul or borrow strategy, and compaction testing budget."
+    });
+  }
+
   const fire = signals.find((s) => s.id === "wildfire-risk");
   if (fire?.severity === "high") {
     implications.push({
@@ -0,0 +1,175 @@
+import { isValidPoint, parcelCentroid, parseParcelGeometry } from "./geo";
+import { SeismicInputs, parseSeismicInputs } from "./seismic";
+import { GeocodeResult, geocodeAddress, isCoarsePrecision } from "./sources";
+import { GeocodeCandidate, GeocodeSummary, GeoPoint, MatchPrecision, ParcelGeometry } from "./types";
+
+const PRECISIONS: MatchPrecision[] = ["coordinates", "rooftop", "street", "zip", "city"];
+
+export type SiteRequest = {
+  address: string;
+  geocode: GeocodeResult;
+  parcel?: ParcelGeometry;
+};
+
+function formatPoint(point: GeoPoint): string {
+  return `${point.lat.toFixed(6)}, ${point.lon.toFixed(6)}`;
+}
+
+function directGeocode(point: GeoPoint, label: string, source: string): GeocodeResult {
+  return {
+    matchedAddress: label,
+    location: point,
+    source,
+    precision: "coordinates",
+    ambiguous: false,
+    candidates: []
+  };
+}
+
+function parsePoint(body: any): GeoPoint | null | undefined {
+  const raw = body?.location ?? (body?.lat != null || body?.lon != null ? { lat: body?.lat, lon: body?.lon } : undefined);
+  if (raw === undefined) return undefined;
+  if (raw?.lat == null || raw?.lon == null || raw.lat === "" || raw.lon === "") return null;
+  const point = { lat: Number(raw.lat), lon: Number(raw.lon) };
+  return isValidPoint(point) ? point : null;
+}
+
+function parseCandidate(raw: any): GeocodeCandidate | null {
+  const lat = Number(raw?.location?.lat);
+  const lon = Number(raw?.location?.lon);
+  if (!isValidPoint({ lat, lon })) {
+    return null;
+  }
+  const precision = PRECISIONS.includes(raw?.precision) ? (raw.precision as MatchPrecision) : "city";
+  return {
+    matchedAddress: typeof raw?.matchedAddress === "string" ? raw.matchedAddress : `${lat}, ${lon}`,
+    location: { lat, lon },
+    source: typeof raw?.source === "string" ? raw.source : "User-selected candidate",
+    precision
+  };
+}
+
+// Resolve the analyze request body to a site. In priority order the body may carry:
+// - `parcel`: a GeoJSON polygon; analysis runs at its centroid and keeps the boundary
+// - `lat`/`lon` (or `location`): coordinates for sites with no street address yet
+// - `candidate`: a pick from a previous response's `geocode.candidates`
+// - `address`: geocoded as usual
+export async function resolveSite(body: any): Promise<SiteRequest | { error: string }> {
+  const address = typeof body?.address === "string" ? body.address.trim() : "";
+
+  if (body?.parcel != null) {
+    const parcel = parseParcelGeometry(body.parcel);
+    if (!parcel) {
+      return { error: "Parcel must be a GeoJSON Polygon or MultiPolygon with [lon, lat] positions" };
+    }
+    const centroid = parcelCentroid(parcel);
+    return {
+      address: address || `Parcel at ${formatPoint(centroid)}`,
+      geocode: directGeocode(centroid, address || `Parcel centroid ${formatPoint(centroid)}`, "User parcel boundary"),
+      parcel
+    };
+  }
+
+  const point = parsePoint(body);
+  if (point === null) {
+    return { error: "Coordinates must be numeric lat (-90 to 90) and lon (-180 to 180)" };
+  }
+  if (point) {
+    return {
+      address: address || formatPoint(point),
+      geocode: directGeocode(point, address || formatPoint(point), "User coordinates")
+    };
+  }
+
+  if (!address) {
+    return { error: "Address, coordinates, or parcel boundary required" };
+  }
+
+  if (body?.candidate != null) {
+    const candidate = parseCandidate(body.candidate);
+    if (!candidate) {
+      return { error: "Selected geocode candidate has invalid coordinates" };
+    }
+    return {
+      address,
+      geocode: {
+        matchedAddress: candidate.matchedAddress,
+        location: candidate.location,
+        source: candidate.source,
+        precision: candidate.precision,
+        ambiguous: false,
+        candidates: [candidate]
+      }
+    };
+  }
+
+  return { address, geocode: await geocodeAddress(address) };
+}
+
+export type ProjectInputs = {
+  padElevationMeters?: number;
+  seismic?: SeismicInputs;
+  // YYYY-MM-DD; dates the weather calendar's phases.
+  plannedStartDate?: string;
+  // New roof and paving area; sizes the detention estimate.
+  imperviousAreaSqFt?: number;
+};
+
+// Optional design inputs that shape the analysis but not the site location.
+export function parseProjectInputs(body: any): ProjectInputs | { error: string } {
+  const inputs: ProjectInputs = {};
+  if (body?.padElevationMeters != null && body.padElevationMeters !== "") {
+    const pad = Number(body.padElevationMeters);
+    if (!Number.isFinite(pad) || pad < -500 || pad > 9000) {
+      return { error: "padElevationMeters must be a number of meters above sea level" };
+    }
+    inputs.padElevationMeters = pad;
+  }
+  if (body?.plannedStartDate != null && body.plannedStartDate !== "") {
+    const date = String(body.plannedStartDate);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(`${date}T00:00:00Z`))) {
+      return { error: "plannedStartDate must be a date in YYYY-MM-DD format" };
+    }
+    inputs.plannedStartDate = date;
+  }
+  if (body?.imperviousAreaSqFt != null && body.imperviousAreaSqFt !== "") {
+    const area = Number(body.imperviousAreaSqFt);
+    if (!Number.isFinite(area) || area <= 0) {
+      return { error: "imperviousAreaSqFt must be a positive number of square feet" };
+    }
+    inputs.imperviousAreaSqFt = area;
+  }
+  const seismic = parseSeismicInputs(body);
+  if ("error" in seismic) {
+    return seismic;
+  }
+  if (Object.keys(seismic).length > 0) {
+    inputs.seismic = seismic;
+  }
+  return inputs;
+}
+
+export function summarizeGeocode(geocode: GeocodeResult): GeocodeSummary {
+  return {
+    precision: geocode.precision,
+    ambiguous: geocode.ambiguous,
+    candidates: geocode.candidates
+  };
+}
+
+export function geocodeWarnings(geocode: GeocodeResult): string[] {
+  const warnings: string[] = [];
+  if (isCoarsePrecision(geocode.precision)) {
+    warnings.push(
+      `Geocoder matched only at ${geocode.precision} precision ("${geocode.matchedAddress ?? "unknown"}"). ` +
+      "Flood, soils and terrain signals describe that centroid, not the parcel."
+    );
+  }
+  if (geocode.ambiguous) {
+    warnings.push(
+      `Address matched ${geocode.candidates.length} distinct locations; analysis uses the top-ranked match. ` +
+      "Confirm the intended site."
+    );
+  }
+  return warnings;
+}
@@ -0,0 +1,109 @@
+import { SoilComponent, SoilHorizon } from "./types";
+
+// Clay and shrink-swell are screened over the upper profile, where slabs and shallow foundations bear.
+const UPPER_PROFILE_DEPTH_CM = 100;
+// SSURGO records water table and bedrock depths to about 2 m.
+const RECORDED_DEPTH_CM = 200;
+
+export type ComponentWeightedSoil = {
+  compname?: string;
+  hydrologicGroup?: string;
+  drainageClass?: string;
+  restrictiveDepthCm: number | null;
+  clayPercent: number | null;
+  shrinkSwellLepPercent: number | null;
+  concreteCorrosion?: string;
+  steelCorrosion?: string;
+  frostAction?: string;
+  waterTableDepthCm: number | null;
+  bedrockDepthCm: number | null;
+};
+
+function weightedMode(components: SoilComponent[], valueOf: (c: SoilComponent) => string | undefined): string | undefined {
+  const weights = new Map<string, number>();
+  for (const component of components) {
+    const value = valueOf(component);
+    if (!value) continue;
+    weights.set(value, (weights.get(value) ?? 0) + component.percent);
+  }
+  let best: string | undefined;
+  for (const [value, weight] of weights) {
+    if (best === undefined || weight > (weights.get(best) ?? 0)) best = value;
+  }
+  return best;
+}
+
+// Mean over components reporting a value, weighted by their share of the map unit.
+function weightedMean(components: SoilComponent[], valueOf: (c: SoilComponent) => number | null): number | null {
+  let total = 0;
+  let weight = 0;
+  for (const component of components) {
+    const value = valueOf(component);
+    if (value == null || component.percent <= 0) continue;
+    total += value * component.percent;
+    weight += component.percent;
+  }
+  return weight > 0 ? total / weight : null;
+}
+
+function profileBottomCm(component: SoilComponent): number {
+  const bottoms = component.horizons.map((h) => h.bottomDepthCm).filter((depth): depth is number => depth != null);
+  return Math.max(RECORDED_DEPTH_CM, ...bottoms);
+}
+
+// For depths SSURGO leaves null when the feature is absent (wet layer, bedrock): those components count as below
+// the recorded profile, so a small wet inclusion does not set the depth for the whole map unit.
+// Null when no component reports the feature at all.
+function weightedDepth(components: SoilComponent[], valueOf: (c: SoilComponent) => number | null): number | null {
+  if (!components.some((component) => valueOf(component) != null)) return null;
+  return weightedMean(components, (component) => valueOf(component) ?? profileBottomCm(component));
+}
+
+function maxInUpperProfile(component: SoilComponent, valueOf: (h: SoilHorizon) => number | null): number | null {
+  const values = component.horizons
+    .filter((h) => h.topDepthCm != null && h.topDepthCm <= UPPER_PROFILE_DEPTH_CM)
+    .map(valueOf)
+    .filter((value): value is number => value != null);
+  return values.length ? Math.max(...values) : null;
+}
+
+// Map-unit values from all components by comppct, instead of the dominant component alone.
+export function aggregateComponents(components: SoilComponent[]): ComponentWeightedSoil {
+  const dominant = [...components].sort((a, b) => b.percent - a.percent)[0];
+  return {
+    compname: dominant?.name,
+    hydrologicGroup: weightedMode(components, (c) => c.hydrologicGroup),
+    drainageClass: weightedMode(components, (c) => c.drainageClass),
+    restrictiveDepthCm: weightedMean(components, (c) => c.restrictiveDepthCm),
+    clayPercent: weightedMean(components, (c) => maxInUpperProfile(c, (h) => h.clayPercent)),
+    shrinkSwellLepPercent: weightedMean(components, (c) => maxInUpperProfile(c, (h) => h.lepPercent)),
+    concreteCorrosion: weightedMode(components, (c) => c.concreteCorrosion),
+    steelCorrosion: weightedMode(components, (c) => c.steelCorrosion),
+    frostAction: weightedMode(components, (c) => c.frostAction),
+    waterTableDepthCm: weightedDepth(components, (c) => c.waterTableDepthCm),
+    bedrockDepthCm: weightedDepth(components, (c) => c.bedrockDepthCm)
+  };
+}
+
+const GRANULAR_UNIFIED_CLASSES = ["SP", "SW", "SM", "ML"];
+
+// Clean to silty sands and non-plastic silts: the textures prone to liquefy when saturated.
+function isGranularHorizon(horizon: SoilHorizon): boolean {
+  const classes = horizon.unifiedClass?.toUpperCase().split(/[-,\s]+/) ?? [];
+  if (classes.length > 0) {
+    return classes.some((cls) => GRANULAR_UNIFIED_CLASSES.includes(cls)) && !classes.some((cls) => cls.startsWith("C"));
+  }
+  return horizon.clayPercent != null && horizon.sandPercent != null && horizon.clayPercent < 18 && horizon.sandPercent >= 50;
+}
+
+// Share of the map unit (by comppct) with a granular horizon in the described profile.
+export function granularShare(components: SoilComponent[]): number {
+  const total = components.reduce((sum, c) => sum + c.percent, 0);
+  if (total <= 0) return 0;
+  const granular = components.filter((c) => c.horizons.some(isGranularHorizon)).reduce((sum, c) => sum + c.percent, 0);
+  return granular / total;
+}
+
+export function formatComponents(components: SoilComponent[]): string {
+  return components.map((c) => `${c.name} ${Math.round(c.percent)}%`).join(", ");
+}
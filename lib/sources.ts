@@ -1,16 +1,62 @@
-import { GeoPoint } from "./types";
+import {
+  GeoPoint,
+  GeocodeCandidate,
+  MatchPrecision,
+  ParcelGeometry,
+  ResponseSpectrum,
+  SeismicBasis,
+  SeismicSpectrum,
+  SoilComponent,
+  SoilHorizon,
+  SoilProfile
+} from "./types";
+import { upstreamFetch } from "./fixtures";
+import { Share, shareBy } from "./footprint";
+import { aggregateComponents } from "./soil-profile";
+import { FrostSummary, summarizeFrost } from "./frost";
+import { MonthlyWorkability, summarizeWorkability } from "./workability";
+import { loadDataset } from "./datasets";
+import { NRI_HAZARDS } from "./nri";
+import {
+  distanceMeters,
+  distanceToLineMeters,
+  nearestPointOnLine,
+  parcelBounds,
+  parcelPolygons,
+  pointInParcel,
+  segmentCrossesLine
+} from "./geo";
+import { ElevationGrid, TerrainSummary, analyzeTerrain, gridLayout, gridPoints } from "./terrain";
 
 const DEFAULT_TIMEOUT_MS = 12000;
 const FEMA_FLOOD_ZONE_LAYER_URL =
   "https://hazards.fema.gov/arcgis/rest/services/FIRMette/NFHLREST_FIRMette/MapServer/20/query";
+const FEMA_NFHL_MAPSERVER_URL = "https://hazards.fema.gov/arcgis/rest/services/public/NFHL/MapServer";
+const SDA_TABULAR_URL = "https://sdmdataaccess.sc.egov.usda.gov/Tabular/post.rest";
+const NRCS_TABULAR_URL = "https://sdmdataaccess.nrcs.usda.gov/Tabular/post.rest";
 const NOAA_SPC_MAPSERVER_URL =
   "https://mapservices.weather.noaa.gov/vector/rest/services/outlooks/SPC_wx_outlks/MapServer";
 
+// Upstream details a fetcher knows about its own response; timing is added by the adapter registry.
+export type FetchProvenance = {
+  endpoint?: string;
+  fallbackUsed?: boolean;
+  fallbackDetail?: string;
+  dataVintage?: string;
+  // Set when the answer came from an illustrative bundled dataset rather than real records.
+  sample?: boolean;
+};
+
+function endpointOf(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.origin}${parsed.pathname}`;
+}
+
 async function fetchJson<T>(url: string, init?: RequestInit, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<T> {
   const controller = new AbortController();
   const id = setTimeout(() => controller.abort(), timeoutMs);
   try {
-    const res = await fetch(url, { ...init, signal: controller.signal });
+    const res = await upstreamFetch(url, { ...init, signal: controller.signal });
     if (!res.ok) {
       throw new Error(`Request failed ${res.status}`);
     }
@@ -20,12 +66,67 @@ async function fetchJson<T>(url: string, init?: RequestInit, timeoutMs = DEFAULT
   }
 }
 
+async function fetchText(url: string, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<string> {
+  const controller = new AbortController();
+  const id = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await upstreamFetch(url, { signal: controller.signal });
+    if (!res.ok) {
+      throw new Error(`Request failed ${res.status}`);
+    }
+    return await res.text();
+  } finally {
+    clearTimeout(id);
+  }
+}
+
 export type GeocodeResult = {
   matchedAddress?: string;
   location: GeoPoint;
   source?: string;
+  precision: MatchPrecision;
+  // True when several distinct locations match equally well and the user should pick one.
+  ambiguous: boolean;
+  candidates: GeocodeCandidate[];
 };
 
+const PRECISION_RANK: Record<MatchPrecision, number> = { coordinates: 5, rooftop: 4, street: 3, zip: 2, city: 1 };
+const MAX_CANDIDATES = 5;
+// Candidates closer than this are treated as the same site when judging ambiguity.
+const DISTINCT_CANDIDATE_METERS = 250;
+
+export function isCoarsePrecision(precision: MatchPrecision): boolean {
+  return PRECISION_RANK[precision] <= PRECISION_RANK.zip;
+}
+
+function capPrecision(precision: MatchPrecision, cap: MatchPrecision): MatchPrecision {
+  return PRECISION_RANK[precision] > PRECISION_RANK[cap] ? cap : precision;
+}
+
+function nominatimPrecision(match: any): MatchPrecision {
+  const type = String(match?.addresstype ?? match?.type ?? "").toLowerCase();
+  if (["house", "building", "house_number"].includes(type)) return "rooftop";
+  if (["road", "street", "residential", "highway"].includes(type)) return "street";
+  if (type === "postcode") return "zip";
+  return "city";
+}
+
+function rankCandidates(candidates: GeocodeCandidate[]): GeocodeCandidate[] {
+  const ranked: GeocodeCandidate[] = [];
+  const sorted = candidates
+    .map((candidate, order) => ({ candidate, order }))
+    .sort((a, b) => PRECISION_RANK[b.candidate.precision] - PRECISION_RANK[a.candidate.precision] || a.order - b.order);
+
+  for (const { candidate } of sorted) {
+    const duplicate = ranked.some(
+      (existing) => distanceMeters(existing.location, candidate.location) < DISTINCT_CANDIDATE_METERS
+    );
+    if (!duplicate) ranked.push(candidate);
+    if (ranked.length >= MAX_CANDIDATES) break;
+  }
+  return ranked;
+}
+
 export async function geocodeAddress(address: string): Promise<GeocodeResult> {
   const normalized = address
     .replace(/\s+/g, " ")
@@ -38,43 +139,52 @@ export async function geocodeAddress(address: string): Promise<GeocodeResult> {
   const zip = lastMatch?.[2];
   const city = parts.length >= 2 ? parts[parts.length - 2] : undefined;
 
-  const candidates = new Set<string>();
-  candidates.add(address.trim());
-  candidates.add(normalized);
-  candidates.add(normalized.replace(/^[A-Z]One\s/, "One "));
-  candidates.add(normalized.replace(/(\b[A-Za-z]{2})\s+\d{5}(?:-\d{4})?$/, "$1").trim());
+  // Each query variation carries the best precision it can possibly yield.
+  const variations = new Map<string, MatchPrecision>();
+  const addVariation = (query: string, cap: MatchPrecision) => {
+    if (query && !variations.has(query)) variations.set(query, cap);
+  };
+  addVariation(address.trim(), "rooftop");
+  addVariation(normalized, "rooftop");
+  addVariation(normalized.replace(/^[A-Z]One\s/, "One "), "rooftop");
+  addVariation(normalized.replace(/(\b[A-Za-z]{2})\s+\d{5}(?:-\d{4})?$/, "$1").trim(), "rooftop");
 
   if (city && state) {
     if (parts.length >= 3) {
       const street = parts.slice(0, -2).join(", ");
-      candidates.add(`${street}, ${city}, ${state}`);
+      addVariation(`${street}, ${city}, ${state}`, "rooftop");
       if (zip) {
-        candidates.add(`${street}, ${city}, ${state} ${zip}`);
+        addVariation(`${street}, ${city}, ${state} ${zip}`, "rooftop");
       }
     }
-    candidates.add(`${city}, ${state}`);
+    addVariation(`${city}, ${state}`, "city");
     if (zip) {
-      candidates.add(`${city}, ${state} ${zip}`);
+      addVariation(`${city}, ${state} ${zip}`, "zip");
     }
   }
 
-  const addressVariations = Array.from(candidates).filter(Boolean);
+  const addressVariations = Array.from(variations.entries());
+  const candidates: GeocodeCandidate[] = [];
+  const hasStreetMatch = () => candidates.some((c) => PRECISION_RANK[c.precision] >= PRECISION_RANK.street);
 
-  // Try Census Geocoder first (most accurate for US)
-  for (const addr of addressVariations) {
+  // Try Census Geocoder first (most accurate for US). Matches are interpolated along address ranges.
+  for (const [addr, cap] of addressVariations) {
     try {
       const encoded = encodeURIComponent(addr);
       const url = `https://geocoding.geo.census.gov/geocoder/locations/onelineaddress?address=${encoded}&benchmark=Public_AR_Current&format=json`;
       const data = await fetchJson<any>(url, undefined, 8000);
-      const match = data?.result?.addressMatches?.[0];
+      const matches = Array.isArray(data?.result?.addressMatches) ? data.result.addressMatches : [];
 
-      if (match?.coordinates) {
-        return {
-          matchedAddress: match.matchedAddress,
+      for (const match of matches.slice(0, MAX_CANDIDATES)) {
+        if (!match?.coordinates) continue;
+        candidates.push({
+          matchedAddress: match.matchedAddress ?? addr,
           location: { lat: match.coordinates.y, lon: match.coordinates.x },
-          source: "US Census Geocoder"
-        };
+          source: "US Census Geocoder",
+          precision: capPrecision("street", cap)
+        });
       }
+      if (matches.length > 0) break;
     } catch (err) {
       // Try next variation
       continue;
@@ -82,60 +192,124 @@ export async function geocodeAddress(address: string): Promise<GeocodeResult> {
   }
 
   // Fallback 1: OpenStreetMap Nominatim (free, no API key)
-  for (const addr of addressVariations) {
-    try {
-      const encoded = encodeURIComponent(addr);
-      const url = `https://nominatim.openstreetmap.org/search?q=${encoded}&format=json&limit=1`;
-      const data = await fetchJson<any>(url, {
-        headers: {
-          "User-Agent": "construction-site-intel/1.0 (site-intelligence-app)",
-          "Accept-Language": "en-US,en;q=0.9"
+  if (!hasStreetMatch()) {
+    for (const [addr, cap] of addressVariations) {
+      try {
+        const encoded = encodeURIComponent(addr);
+        const url = `https://nominatim.openstreetmap.org/search?q=${encoded}&format=json&limit=${MAX_CANDIDATES}&countrycodes=us`;
+        const data = await fetchJson<any>(url, {
+          headers: {
+            "User-Agent": "construction-site-intel/1.0 (site-intelligence-app)",
+            "Accept-Language": "en-US,en;q=0.9"
+          }
+        }, 9000);
+
+        if (data && Array.isArray(data) && data.length > 0) {
+          for (const match of data) {
+            candidates.push({
+              matchedAddress: match.display_name || addr,
+              location: {
+                lat: parseFloat(match.lat),
+                lon: parseFloat(match.lon)
+              },
+              source: "OpenStreetMap Nominatim",
+              precision: capPrecision(nominatimPrecision(match), cap)
+            });
+          }
+          break;
         }
-      }, 9000);
-
-      if (data && Array.isArray(data) && data.length > 0) {
-        const match = data[0];
-        return {
-          matchedAddress: match.display_name || addr,
-          location: {
-            lat: parseFloat(match.lat),
-            lon: parseFloat(match.lon)
-          },
-          source: "OpenStreetMap Nominatim"
-        };
+      } catch (err) {
+        continue;
       }
-    } catch (err) {
-      continue;
     }
   }
 
-  // Fallback 2: Open-Meteo geocoding (robust for city/state and many street-level queries)
-  for (const addr of addressVariations) {
-    try {
-      const encoded = encodeURIComponent(addr);
-      const url = `https://geocoding-api.open-meteo.com/v1/search?name=${encoded}&count=1&language=en&format=json`;
-      const data = await fetchJson<any>(url, undefined, 9000);
-      const result = data?.results?.[0];
-      if (result && Number.isFinite(result.latitude) && Number.isFinite(result.longitude)) {
-        const labelParts = [result.name, result.admin1, result.country_code].filter(Boolean);
-        return {
-          matchedAddress: labelParts.length > 0 ? labelParts.join(", ") : addr,
-          location: {
-            lat: Number(result.latitude),
-            lon: Number(result.longitude)
-          },
-          source: "Open-Meteo Geocoding"
-        };
+  // Fallback 2: Open-Meteo geocoding (place names only, so city precision at best)
+  if (candidates.length === 0) {
+    for (const [addr] of addressVariations) {
+      try {
+        const encoded = encodeURIComponent(addr);
+        const url = `https://geocoding-api.open-meteo.com/v1/search?name=${encoded}&count=${MAX_CANDIDATES}&language=en&format=json`;
+        const data = await fetchJson<any>(url, undefined, 9000);
+        const results = Array.isArray(data?.results) ? data.results : [];
+        for (const result of results) {
+          if (!Number.isFinite(result?.latitude) || !Number.isFinite(result?.longitude)) continue;
+          const labelParts = [result.name, result.admin1, result.country_code].filter(Boolean);
+          candidates.push({
+            matchedAddress: labelParts.length > 0 ? labelParts.join(", ") : addr,
+            location: {
+              lat: Number(result.latitude),
+              lon: Number(result.longitude)
+            },
+            source: "Open-Meteo Geocoding",
+            precision: "city"
+          });
+        }
+        if (candidates.length > 0) break;
+      } catch (err) {
+        continue;
       }
-    } catch (err) {
-      continue;
     }
   }
 
-  throw new Error(
-    `Could not geocode address: "${address}". ` +
-    `Please try a standard format like "123 Main St, City, ST 12345" or "City, ST".`
-  );
+  const ranked = rankCandidates(candidates);
+  const best = ranked[0];
+  if (!best) {
+    throw new Error(
+      `Could not geocode address: "${address}". ` +
+      `Please try a standard format like "123 Main St, City, ST 12345" or "City, ST".`
+    );
+  }
+
+  const ambiguous = ranked.filter((candidate) => candidate.precision === best.precision).length > 1;
+  return {
+    matchedAddress: best.matchedAddress,
+    location: best.location,
+    source: best.source,
+    precision: best.precision,
+    ambiguous,
+    candidates: ranked
+  };
+}
+
+export const CENSUS_GEOGRAPHIES_URL = "https://geocoding.geo.census.gov/geocoder/geographies/coordinates";
+const CENSUS_GEOGRAPHY_LAYERS = {
+  state: "States",
+  county: "Counties",
+  metro: "Metropolitan Statistical Areas",
+  micro: "Micropolitan Statistical Areas"
+} as const;
+
+// TIGERweb attributes for the geography containing a point; STUSAB is only set on states.
+export type CensusGeography = { geoid: string; name: string; basename?: string; stusab?: string };
+
+export async function fetchCensusGeographies(
+  point: GeoPoint
+): Promise<Partial<Record<keyof typeof CENSUS_GEOGRAPHY_LAYERS, CensusGeography>>> {
+  const params = new URLSearchParams({
+    x: String(point.lon),
+    y: String(point.lat),
+    benchmark: "Public_AR_Current",
+    vintage: "Current_Current",
+    layers: Object.values(CENSUS_GEOGRAPHY_LAYERS).join(","),
+    format: "json"
+  });
+  const data = await fetchJson<any>(`${CENSUS_GEOGRAPHIES_URL}?${params.toString()}`, undefined, 10000);
+  const geographies = data?.result?.geographies;
+  if (!geographies || typeof geographies !== "object") throw new Error("Unexpected Census geocoder response");
+
+  const found: Partial<Record<keyof typeof CENSUS_GEOGRAPHY_LAYERS, CensusGeography>> = {};
+  for (const [key, layer] of Object.entries(CENSUS_GEOGRAPHY_LAYERS) as Array<[keyof typeof CENSUS_GEOGRAPHY_LAYERS, string]>) {
+    const row = Array.isArray(geographies[layer]) ? geographies[layer][0] : undefined;
+    if (!row?.GEOID) continue;
+    found[key] = {
+      geoid: String(row.GEOID),
+      name: String(row.NAME ?? row.BASENAME ?? row.GEOID),
+      basename: row.BASENAME ?? undefined,
+      stusab: row.STUSAB ?? undefined
+    };
+  }
+  return found;
 }
 
 export type USGSDesignData = {
@@ -143,12 +317,66 @@ export type USGSDesignData = {
   sds?: number;
   sd1?: number;
   pga?: number;
+  // Site-adjusted MCE geometric mean PGA (PGA x FPGA); absent in ASCE 7-10.
+  pgam?: number;
   ss?: number;
   s1?: number;
+  basis?: SeismicBasis;
+  spectrum?: SeismicSpectrum;
+  provenance?: FetchProvenance;
 };
 
-export async function fetchUSGSDesignMap(point: GeoPoint): Promise<USGSDesignData> {
-  const url = `https://earthquake.usgs.gov/ws/designmaps/asce7-16.json?latitude=${point.lat}&longitude=${point.lon}&riskCategory=II&siteClass=C&title=Construction%20Site`;
+// Spectra arrive as { periods, ordinates } (ASCE 7-16/7-22) or as [period, Sa] pairs (ASCE 7-10).
+function parseSpectrum(raw: any): ResponseSpectrum | undefined {
+  let periods: unknown[] = [];
+  let ordinates: unknown[] = [];
+  if (Array.isArray(raw?.periods) && Array.isArray(raw?.ordinates)) {
+    periods = raw.periods;
+    ordinates = raw.ordinates;
+  } else if (Array.isArray(raw)) {
+    periods = raw.map((pair: any) => pair?.[0]);
+    ordinates = raw.map((pair: any) => pair?.[1]);
+  }
+  const points = periods
+    .map((period, idx) => [Number(period), Number(ordinates[idx])])
+    .filter(([period, sa]) => Number.isFinite(period) && Number.isFinite(sa));
+  if (points.length < 2) return undefined;
+  return { periods: points.map(([period]) => period), ordinates: points.map(([, sa]) => sa) };
+}
+
+function optionalNumber(raw: unknown): number | null {
+  return raw != null && Number.isFinite(Number(raw)) ? Number(raw) : null;
+}
+
+function parseDesignSpectrum(payload: any): SeismicSpectrum | undefined {
+  const multiDesign = parseSpectrum(payload?.multiPeriodDesignSpectrum);
+  const kind: SeismicSpectrum["kind"] = multiDesign ? "multi-period" : "two-period";
+  const design = multiDesign ?? parseSpectrum(payload?.twoPeriodDesignSpectrum) ?? parseSpectrum(payload?.sdSpectrum);
+  const mce =
+    parseSpectrum(payload?.multiPeriodMCErSpectrum) ??
+    parseSpectrum(payload?.twoPeriodMCErSpectrum) ??
+    parseSpectrum(payload?.smSpectrum);
+  if (!design && !mce) return undefined;
+  return {
+    kind,
+    design,
+    mce,
+    tl: optionalNumber(payload?.tl ?? payload?.["t-sub-l"]),
+    // ASCE 7-22 folds site effects into the multi-period spectra and publishes no Fa/Fv.
+    fa: optionalNumber(payload?.fa),
+    fv: optionalNumber(payload?.fv)
+  };
+}
+
+export async function fetchUSGSDesignMap(point: GeoPoint, basis: SeismicBasis): Promise<USGSDesignData> {
+  const params = new URLSearchParams({
+    latitude: String(point.lat),
+    longitude: String(point.lon),
+    riskCategory: basis.riskCategory,
+    siteClass: basis.siteClass,
+    title: "Construction Site"
+  });
+  const url = `https://earthquake.usgs.gov/ws/designmaps/${basis.edition}.json?${params.toString()}`;
   try {
     const data = await fetchJson<any>(url);
     const payload = data?.response?.data ?? data?.data ?? {};
@@ -157,8 +385,12 @@ export async function fetchUSGSDesignMap(point: GeoPoint): Promise<USGSDesignDat
       sds: payload?.sds,
       sd1: payload?.sd1,
       pga: payload?.pga,
+      pgam: payload?.pgam ?? undefined,
       ss: payload?.ss,
-      s1: payload?.s1
+      s1: payload?.s1,
+      basis,
+      spectrum: parseDesignSpectrum(payload),
+      provenance: { endpoint: endpointOf(url), dataVintage: basis.codeReference }
     };
   } catch (err) {
     // Return empty if USGS service fails
@@ -168,11 +400,37 @@ export async function fetchUSGSDesignMap(point: GeoPoint): Promise<USGSDesignDat
       sd1: undefined,
       pga: undefined,
       ss: undefined,
-      s1: undefined
+      s1: undefined,
+      basis,
+      provenance: { endpoint: endpointOf(url) }
     };
   }
 }
 
+export type FloodZoneSample = {
+  zone: string;
+  subtype?: string;
+  sfha: boolean;
+};
+
+export type FloodFootprint = {
+  sampleCount: number;
+  zones: Array<Share<FloodZoneSample>>;
+  sfhaFraction: number;
+  floodwayFraction: number;
+};
+
+export type FloodMapRevision = {
+  type: "LOMR" | "LOMA";
+  caseNumber?: string;
+  effectiveDate?: string;
+  status?: string;
+};
+
+// Where the site sits relative to coastal wave hazards: V zones, and the Coastal A zone between
+// the V zone and the Limit of Moderate Wave Action (LiMWA).
+export type CoastalFloodZone = "V zone" | "Coastal A" | "A landward of LiMWA" | "A near V zone" | "None";
+
 export type FEMAData = {
   floodZone?: string;
   zoneSubtype?: string;
@@ -180,13 +438,137 @@ export type FEMAData = {
   firmPanel?: string;
   sfhaNearby?: boolean;
   sfhaSearchRadiusKm?: number;
+  // 0 inside an SFHA; null when no SFHA lies within the search radius.
+  sfhaDistanceMeters?: number | null;
+  floodway?: boolean;
+  floodwayDistanceMeters?: number | null;
+  coastalZone?: CoastalFloodZone;
+  // Undefined when the LOMR/LOMA layers could not be queried.
+  mapRevisions?: FloodMapRevision[];
+  firmPanelNumber?: string;
+  firmEffectiveDate?: string;
   source?: string;
+  footprint?: FloodFootprint;
+  provenance?: FetchProvenance;
 };
 
+const NFHL_LAYER = { lomr: 1, firmPanels: 3, limwa: 19, loma: 34 };
+// LOMAs are recorded as points on the amended structure or lot, so search a short radius.
+const LOMA_SEARCH_METERS = 100;
+
+function isFloodwaySubtype(subtype: unknown): boolean {
+  return String(subtype ?? "").toUpperCase().includes("FLOODWAY");
+}
+
+function nfhlDate(raw: unknown): string | undefined {
+  if (typeof raw === "number" && Number.isFinite(raw)) return new Date(raw).toISOString().slice(0, 10);
+  if (typeof raw === "string" && raw) return raw.slice(0, 10);
+  return undefined;
+}
+
+function envelopeAround(point: GeoPoint, radiusMeters: number): string {
+  const latDelta = radiusMeters / 111_320;
+  const lonDelta = radiusMeters / (111_320 * Math.max(0.2, Math.cos((point.lat * Math.PI) / 180)));
+  return `${point.lon - lonDelta},${point.lat - latDelta},${point.lon + lonDelta},${point.lat + latDelta}`;
+}
+
+async function nfhlQuery(layer: number, params: Record<string, string>): Promise<any[]> {
+  const query = new URLSearchParams({
+    inSR: "4326",
+    outSR: "4326",
+    spatialRel: "esriSpatialRelIntersects",
+    f: "json",
+    ...params
+  });
+  const data = await fetchJson<any>(`${FEMA_NFHL_MAPSERVER_URL}/${layer}/query?${query.toString()}`, undefined, 9000);
+  if (data?.error) throw new Error(data.error.message ?? "NFHL query error");
+  return Array.isArray(data?.features) ? data.features : [];
+}
+
+// Distance to the nearest polygon edge, or 0 when the point is inside one of them.
+function distanceToPolygons(point: GeoPoint, features: any[]): number | null {
+  let best: number | null = null;
+  for (const feature of features) {
+    const rings: number[][][] = Array.isArray(feature?.geometry?.rings) ? feature.geometry.rings : [];
+    if (!rings.length) continue;
+    if (esriRingsContain(rings, point)) return 0;
+    for (const ring of rings) {
+      const distance = distanceToLineMeters(point, ring);
+      if (best == null || distance < best) best = distance;
+    }
+  }
+  return best;
+}
+
+function classifyCoastalZone(
+  point: GeoPoint,
+  floodZone: string | undefined,
+  sfhaFeatures: any[],
+  limwaPaths: number[][][] | undefined
+): CoastalFloodZone {
+  const zone = String(floodZone ?? "").toUpperCase();
+  if (zone.startsWith("V")) return "V zone";
+  if (!zone.startsWith("A")) return "None";
+
+  let nearestV: { point: GeoPoint; distanceMeters: number } | undefined;
+  for (const feature of sfhaFeatures) {
+    if (!String(feature?.attributes?.FLD_ZONE ?? "").toUpperCase().startsWith("V")) continue;
+    for (const ring of feature?.geometry?.rings ?? []) {
+      const candidate = nearestPointOnLine(point, ring);
+      if (!nearestV || candidate.distanceMeters < nearestV.distanceMeters) nearestV = candidate;
+    }
+  }
+  if (!nearestV) return "None";
+  if (!limwaPaths?.length) return "A near V zone";
+  // Seaward of the LiMWA the path to the V zone does not cross it.
+  const target = nearestV.point;
+  return limwaPaths.some((path) => segmentCrossesLine(point, target, path)) ? "A landward of LiMWA" : "Coastal A";
+}
+
+async function fetchFloodMapRevisions(point: GeoPoint): Promise<FloodMapRevision[]> {
+  const [lomrs, lomas] = await Promise.all([
+    nfhlQuery(NFHL_LAYER.lomr, {
+      geometry: `${point.lon},${point.lat}`,
+      geometryType: "esriGeometryPoint",
+      outFields: "*",
+      returnGeometry: "false"
+    }),
+    nfhlQuery(NFHL_LAYER.loma, {
+      geometry: envelopeAround(point, LOMA_SEARCH_METERS),
+      geometryType: "esriGeometryEnvelope",
+      outFields: "*",
+      returnGeometry: "false"
+    })
+  ]);
+  const revision = (type: FloodMapRevision["type"], attributes: any): FloodMapRevision => ({
+    type,
+    caseNumber: attributes?.CASE_NO ?? attributes?.CASE_NUMBER ?? undefined,
+    effectiveDate: nfhlDate(attributes?.EFF_DATE ?? attributes?.DETERM_DT ?? attributes?.DATE_ISSUED),
+    status: attributes?.STATUS ?? attributes?.OUTCOME ?? undefined
+  });
+  return [
+    ...lomrs
+      .map((f) => f?.attributes)
+      // Superseded LOMRs no longer change the effective map.
+      .filter((attributes) => !/superseded|inactive/i.test(String(attributes?.STATUS ?? "")))
+      .map((attributes) => revision("LOMR", attributes)),
+    ...lomas.map((f) => revision("LOMA", f?.attributes))
+  ];
+}
+
+async function fetchFirmPanel(point: GeoPoint): Promise<{ panel?: string; effectiveDate?: string }> {
+  const [panel] = await nfhlQuery(NFHL_LAYER.firmPanels, {
+    geometry: `${point.lon},${point.lat}`,
+    geometryType: "esriGeometryPoint",
+    outFields: "FIRM_PAN,EFF_DATE,PANEL_TYP",
+    returnGeometry: "false"
+  });
+  return { panel: panel?.attributes?.FIRM_PAN ?? undefined, effectiveDate: nfhlDate(panel?.attributes?.EFF_DATE) };
+}
+
 export async function fetchFEMAFloodZone(point: GeoPoint): Promise<FEMAData> {
-  const searchRadiusKm = 1.5;
-  const latDelta = searchRadiusKm / 111.32;
-  const lonDelta = searchRadiusKm / (111.32 * Math.max(0.2, Math.cos((point.lat * Math.PI) / 180)));
+  const searchRadiusKm = 3;
+  const envelope = envelopeAround(point, searchRadiusKm * 1000);
   try {
     const pointUrl =
       `${FEMA_FLOOD_ZONE_LAYER_URL}?geometry=${point.lon},${point.lat}` +
@@ -196,48 +578,74 @@ export async function fetchFEMAFloodZone(point: GeoPoint): Promise<FEMAData> {
     const pointData = await fetchJson<any>(pointUrl, undefined, 9000);
     const feature = pointData?.features?.[0]?.attributes;
 
-    const envelope =
-      `${point.lon - lonDelta},${point.lat - latDelta},${point.lon + lonDelta},${point.lat + latDelta}`;
+    // SFHA polygons around the site (floodways are SFHA subtypes), simplified to ~5 m for edge distances.
     const nearbyUrl =
       `${FEMA_FLOOD_ZONE_LAYER_URL}?geometry=${envelope}` +
-      "&geometryType=esriGeometryEnvelope&inSR=4326&spatialRel=esriSpatialRelIntersects" +
+      "&geometryType=esriGeometryEnvelope&inSR=4326&outSR=4326&spatialRel=esriSpatialRelIntersects" +
       "&where=" + encodeURIComponent("(FLD_ZONE LIKE 'A%' OR FLD_ZONE LIKE 'V%')") +
-      "&returnCountOnly=true&f=json";
-
-    const nearbyData = await fetchJson<any>(nearbyUrl, undefined, 9000);
-    const sfhaNearby = Number(nearbyData?.count ?? 0) > 0;
-
-    if (feature?.FLD_ZONE) {
-      const rawBfe = feature?.STATIC_BFE;
-      const staticBfe =
-        typeof rawBfe === "number" && Number.isFinite(rawBfe) && rawBfe > -9998
-          ? rawBfe
-          : null;
-      const baseSubtype = feature?.ZONE_SUBTY ?? undefined;
-      const zoneSubtype =
-        sfhaNearby && !String(feature.FLD_ZONE).startsWith("A") && !String(feature.FLD_ZONE).startsWith("V")
-          ? `${baseSubtype ?? "Outside mapped areas"}; SFHA nearby within ~${searchRadiusKm} km`
-          : baseSubtype;
-
-      return {
-        floodZone: feature.FLD_ZONE,
-        zoneSubtype,
-        staticBfe,
-        firmPanel: feature?.DFIRM_ID ?? undefined,
-        sfhaNearby,
-        sfhaSearchRadiusKm: searchRadiusKm,
-        source: "FEMA NFHL"
-      };
-    }
+      "&outFields=FLD_ZONE,ZONE_SUBTY&returnGeometry=true&geometryPrecision=6&maxAllowableOffset=0.00005&f=json";
+
+    // The point zone stands alone; the SFHA search and overlay layers are optional, and a failed
+    // lookup leaves its fields undefined.
+    const [nearby, limwa, revisions, panel] = await Promise.allSettled([
+      fetchJson<any>(nearbyUrl, undefined, 12000).then((data): any[] =>
+        Array.isArray(data?.features) ? data.features : []
+      ),
+      nfhlQuery(NFHL_LAYER.limwa, {
+        geometry: envelope,
+        geometryType: "esriGeometryEnvelope",
+        outFields: "OBJECTID",
+        returnGeometry: "true",
+        geometryPrecision: "6"
+      }),
+      fetchFloodMapRevisions(point),
+      fetchFirmPanel(point)
+    ]);
+    const limwaPaths =
+      limwa.status === "fulfilled"
+        ? limwa.value.flatMap((f) => (Array.isArray(f?.geometry?.paths) ? f.geometry.paths : []))
+        : undefined;
+    const sfhaFeatures = nearby.status === "fulfilled" ? nearby.value : [];
+    const sfhaDistanceMeters = nearby.status === "fulfilled" ? distanceToPolygons(point, sfhaFeatures) : undefined;
+    const floodwayDistanceMeters =
+      nearby.status === "fulfilled"
+        ? distanceToPolygons(point, sfhaFeatures.filter((f) => isFloodwaySubtype(f?.attributes?.ZONE_SUBTY)))
+        : undefined;
+    const failedOverlays = [
+      nearby.status === "rejected" ? "SFHA search" : null,
+      limwa.status === "rejected" ? "LiMWA" : null,
+      revisions.status === "rejected" ? "LOMR/LOMA" : null,
+      panel.status === "rejected" ? "FIRM panels" : null
+    ].filter(Boolean);
+    const provenance: FetchProvenance = failedOverlays.length
+      ? {
+          endpoint: FEMA_FLOOD_ZONE_LAYER_URL,
+          fallbackUsed: true,
+          fallbackDetail: `NFHL ${failedOverlays.join(", ")} lookup failed; related flood signals are unknown.`
+        }
+      : { endpoint: FEMA_FLOOD_ZONE_LAYER_URL };
 
+    const rawBfe = feature?.STATIC_BFE;
     return {
-      floodZone: undefined,
-      zoneSubtype: undefined,
-      staticBfe: null,
-      firmPanel: undefined,
-      sfhaNearby,
+      floodZone: feature?.FLD_ZONE ?? undefined,
+      zoneSubtype: feature?.ZONE_SUBTY ?? undefined,
+      staticBfe: typeof rawBfe === "number" && Number.isFinite(rawBfe) && rawBfe > -9998 ? rawBfe : null,
+      firmPanel: feature?.DFIRM_ID ?? undefined,
+      sfhaNearby: nearby.status === "fulfilled" ? sfhaDistanceMeters != null : undefined,
       sfhaSearchRadiusKm: searchRadiusKm,
-      source: "FEMA NFHL"
+      sfhaDistanceMeters,
+      floodway: feature ? isFloodwaySubtype(feature.ZONE_SUBTY) : undefined,
+      floodwayDistanceMeters,
+      coastalZone:
+        nearby.status === "fulfilled" &&
+        (limwa.status === "fulfilled" || !sfhaFeatures.some((f) => /^V/i.test(String(f?.attributes?.FLD_ZONE ?? ""))))
+          ? classifyCoastalZone(point, feature?.FLD_ZONE, sfhaFeatures, limwaPaths)
+          : undefined,
+      mapRevisions: revisions.status === "fulfilled" ? revisions.value : undefined,
+      firmPanelNumber: panel.status === "fulfilled" ? panel.value.panel : undefined,
+      firmEffectiveDate: panel.status === "fulfilled" ? panel.value.effectiveDate : undefined,
+      source: "FEMA NFHL",
+      provenance
     };
   } catch (err) {
     // Return unknown values on source failure to avoid false "low" interpretations.
@@ -248,23 +656,102 @@ export async function fetchFEMAFloodZone(point: GeoPoint): Promise<FEMAData> {
       firmPanel: undefined,
       sfhaNearby: undefined,
       sfhaSearchRadiusKm: searchRadiusKm,
-      source: "FEMA NFHL"
+      source: "FEMA NFHL",
+      provenance: { endpoint: FEMA_FLOOD_ZONE_LAYER_URL }
     };
   }
 }
 
+// Even-odd test across all Esri polygon rings (outer rings and holes alike).
+function esriRingsContain(rings: number[][][], point: GeoPoint): boolean {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if (yi > point.lat !== yj > point.lat && point.lon < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+// One envelope query returns every flood zone polygon over the parcel; samples are classified locally.
+export async function fetchFEMAFootprint(parcel: ParcelGeometry, samples: GeoPoint[]): Promise<FloodFootprint> {
+  const bounds = parcelBounds(parcel);
+  const envelope = `${bounds.minLon},${bounds.minLat},${bounds.maxLon},${bounds.maxLat}`;
+  const url =
+    `${FEMA_FLOOD_ZONE_LAYER_URL}?geometry=${envelope}` +
+    "&geometryType=esriGeometryEnvelope&inSR=4326&outSR=4326&spatialRel=esriSpatialRelIntersects" +
+    "&outFields=FLD_ZONE,ZONE_SUBTY,SFHA_TF&returnGeometry=true&geometryPrecision=6&f=json";
+
+  const data = await fetchJson<any>(url, undefined, 12000);
+  const features = Array.isArray(data?.features) ? data.features : [];
+
+  const classified = samples.map((point): FloodZoneSample | undefined => {
+    const feature = features.find(
+      (f: any) => Array.isArray(f?.geometry?.rings) && esriRingsContain(f.geometry.rings, point)
+    );
+    const zone = feature?.attributes?.FLD_ZONE;
+    if (!zone) return undefined;
+    return {
+      zone: String(zone),
+      subtype: feature.attributes?.ZONE_SUBTY ?? undefined,
+      sfha: feature.attributes?.SFHA_TF === "T" || /^[AV]/.test(String(zone))
+    };
+  });
+
+  const zones = shareBy(classified, (sample) => sample.zone);
+  return {
+    sampleCount: samples.length,
+    zones,
+    sfhaFraction: zones.filter((share) => share.value.sfha).reduce((sum, share) => sum + share.fraction, 0),
+    floodwayFraction: classified.filter((sample) => isFloodwaySubtype(sample?.subtype)).length / (samples.length || 1)
+  };
+}
+
+export type SoilMapUnitSample = {
+  mukey: string;
+  name?: string;
+  compname?: string;
+  hydrologicGroup?: string;
+  drainageClass?: string;
+};
+
+export type SoilFootprint = {
+  sampleCount: number;
+  mapUnits: Array<Share<SoilMapUnitSample>>;
+};
+
 export type SoilData = {
   compname?: string;
   hydrologicGroup?: string;
   drainageClass?: string;
   restrictiveDepthCm?: number | null;
   clayPercent?: number | null;
+  shrinkSwellLepPercent?: number | null;
+  concreteCorrosion?: string;
+  steelCorrosion?: string;
+  frostAction?: string;
+  waterTableDepthCm?: number | null;
+  bedrockDepthCm?: number | null;
+  // All components and horizons of the map unit at the site; the fields above are component-weighted.
+  profile?: SoilProfile;
+  footprint?: SoilFootprint;
+  provenance?: FetchProvenance;
 };
 
 export type FireHazardData = {
+  // Undefined when no hazard data covers the site; never defaulted to "low".
   wildfireRisk?: "low" | "medium" | "high" | "very high";
-  fireZoneCategory?: string;
-  fireOccurrenceHistoryYears?: number;
+  // USFS Wildfire Hazard Potential class (1-7) and its label.
+  hazardPotentialClass?: number;
+  hazardPotential?: string;
+  // SILVIS wildland-urban interface class, e.g. "WUI Intermix".
+  wuiClass?: string;
+  inWui?: boolean;
+  provenance?: FetchProvenance;
 };
 
 export type ClimateData = {
@@ -273,7 +760,12 @@ export type ClimateData = {
   p90AnnualSnowCm?: number | null;
   p50AnnualSnowCm?: number | null;
   analysisYears?: number | null;
+  // Monthly lost-workday calendar from the same daily series.
+  workability?: MonthlyWorkability[];
+  // Air freezing index, freeze-thaw cycles and screening frost depth from daily highs and lows.
+  frost?: FrostSummary;
   source?: string;
+  provenance?: FetchProvenance;
 };
 
 export type SevereWeatherData = {
@@ -284,6 +776,7 @@ export type SevereWeatherData = {
   source?: string;
   day1Valid?: string;
   day2Valid?: string;
+  provenance?: FetchProvenance;
 };
 
 function buildWkt(point: GeoPoint, delta = 0.00025): string {
@@ -304,7 +797,7 @@ async function sdaQuery(sql: string, maxRetries = 3): Promise<any[]> {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 15000);
 
-      const res = await fetch("https://sdmdataaccess.sc.egov.usda.gov/Tabular/post.rest", {
+      const res = await upstreamFetch(SDA_TABULAR_URL, {
         method: "POST",
         headers: { "Content-Type": "application/x-www-form-urlencoded" },
         body,
@@ -336,17 +829,19 @@ async function sdaQuery(sql: string, maxRetries = 3): Promise<any[]> {
 // Fallback: Query NRCS Web Soil Survey via MapServer
 async function fetchNRCSSoilData(point: GeoPoint): Promise<SoilData> {
   try {
-    const url = `https://sdmdataaccess.nrcs.usda.gov/Tabular/post.rest`;
+    const url = NRCS_TABULAR_URL;
     const wkt = buildWkt(point, 0.0005); // Slightly larger buffer for fallback
 
     // Try to get component data directly
-    const sql = `SELECT TOP 1 compname, hydgrp, drainagecl, resdept_r
+    const sql = `SELECT TOP 1 compname, hydgrp, drainagecl,
+      (SELECT MIN(cr.resdept_r) FROM corestrictions cr WHERE cr.cokey = component.cokey) AS resdept_r,
+      corcon, corsteel, frostact
       FROM component 
       WHERE mukey IN (SELECT mukey FROM SDA_Get_Mukey_from_intersection_with_WktWgs84('${wkt}'))
       ORDER BY comppct_r DESC`;
 
     const body = new URLSearchParams({ query: sql, format: "JSON" }).toString();
-    const res = await fetch(url, {
+    const res = await upstreamFetch(url, {
       method: "POST",
       headers: { "Content-Type": "application/x-www-form-urlencoded" },
       body,
@@ -369,13 +864,29 @@ async function fetchNRCSSoilData(point: GeoPoint): Promise<SoilData> {
       hydrologicGroup: Array.isArray(row) ? row[1] : row?.hydgrp,
       drainageClass: Array.isArray(row) ? row[2] : row?.drainagecl,
       restrictiveDepthCm,
-      clayPercent: null
+      clayPercent: null,
+      concreteCorrosion: (Array.isArray(row) ? row[4] : row?.corcon) || undefined,
+      steelCorrosion: (Array.isArray(row) ? row[5] : row?.corsteel) || undefined,
+      frostAction: (Array.isArray(row) ? row[6] : row?.frostact) || undefined,
+      provenance: {
+        endpoint: NRCS_TABULAR_URL,
+        fallbackUsed: true,
+        fallbackDetail: "SDA primary query failed; used direct NRCS component query without horizon data."
+      }
     };
   } catch (err) {
     throw new Error(`NRCS fallback failed: ${err instanceof Error ? err.message : String(err)}`);
   }
 }
 
+function rowValue(row: any, index: number, field: string): any {
+  return Array.isArray(row) ? row[index] : row?.[field];
+}
+
+function toNumberOrNull(raw: unknown): number | null {
+  return raw != null && raw !== "" && Number.isFinite(Number(raw)) ? Number(raw) : null;
+}
+
 export async function fetchSoils(point: GeoPoint): Promise<SoilData> {
   try {
     // Step 1: Get mukey from location
@@ -394,51 +905,85 @@ export async function fetchSoils(point: GeoPoint): Promise<SoilData> {
       throw new Error("Could not extract mukey from response");
     }
 
-    // Step 2: Get component data (comppct_r, hydgrp, drainagecl, restrictive depth)
+    // Step 2: Every component in the map unit with engineering attributes. Restrictions (incl. bedrock)
+    // live in corestrictions; the seasonal high water table is the shallowest "Wet" month layer.
     const compSql =
-      `SELECT TOP 1 compname, comppct_r, hydgrp, drainagecl, resdept_r ` +
-      `FROM component WHERE mukey = '${mukey}' ORDER BY comppct_r DESC`;
+      `SELECT c.cokey, c.compname, c.comppct_r, c.majcompflag, c.hydgrp, c.drainagecl, ` +
+      `(SELECT MIN(cr.resdept_r) FROM corestrictions cr WHERE cr.cokey = c.cokey) AS resdept_r, ` +
+      `c.corcon, c.corsteel, c.frostact, ` +
+      `(SELECT MIN(cr.resdept_r) FROM corestrictions cr WHERE cr.cokey = c.cokey AND cr.reskind LIKE '%bedrock%') AS bedrock_r, ` +
+      `(SELECT MIN(sm.soimoistdept_r) FROM comonth cm INNER JOIN cosoilmoist sm ON sm.comonthkey = cm.comonthkey ` +
+      `WHERE cm.cokey = c.cokey AND sm.soimoiststat = 'Wet') AS wettop_r ` +
+      `FROM component c WHERE c.mukey = '${mukey}' ORDER BY c.comppct_r DESC`;
     const compRows = await sdaQuery(compSql, 3);
 
-    // Step 3: Get maximum clay content in shallow profile (top 100 cm).
+    // Step 3: Horizon table for all components, with the representative AASHTO and Unified classes.
     const horizonSql =
-      `SELECT MAX(claytotal_r) AS max_clay ` +
+      `SELECT ch.cokey, ch.hzname, ch.hzdept_r, ch.hzdepb_r, ch.claytotal_r, ch.sandtotal_r, ch.ksat_r, ` +
+      `(SELECT TOP 1 a.aashtocl FROM chaashto a WHERE a.chkey = ch.chkey ORDER BY a.rvindicator DESC) AS aashtocl, ` +
+      `(SELECT TOP 1 u.unifiedcl FROM chunified u WHERE u.chkey = ch.chkey ORDER BY u.rvindicator DESC) AS unifiedcl, ` +
+      `ch.lep_r ` +
       `FROM chorizon ch INNER JOIN component c ON c.cokey = ch.cokey ` +
-      `WHERE c.mukey = '${mukey}' AND ch.hzdept_r <= 100`;
+      `WHERE c.mukey = '${mukey}' ORDER BY ch.cokey, ch.hzdept_r`;
     const horizonRows = await sdaQuery(horizonSql, 2);
 
-    // Parse component data (comes as array of [compname, comppct_r, hydgrp, drainagecl, resdept_r])
-    let compData: any = {};
-    if (compRows && compRows.length > 0) {
-      const row = compRows[0];
-      compData = {
-        compname: Array.isArray(row) ? row[0] : row?.compname,
-        comppct_r: Array.isArray(row) ? row[1] : row?.comppct_r,
-        hydgrp: Array.isArray(row) ? row[2] : row?.hydgrp,
-        drainagecl: Array.isArray(row) ? row[3] : row?.drainagecl,
-        resdept_r: Array.isArray(row) ? row[4] : row?.resdept_r
-      };
-    }
-
-    // Parse horizon data for clay
-    let clayPercent: number | null = null;
-    if (horizonRows && horizonRows.length > 0) {
-      const clayValue = Array.isArray(horizonRows[0]) ? horizonRows[0][0] : horizonRows[0]?.max_clay;
-      clayPercent = clayValue ? Number(clayValue) : null;
+    // Step 4: Map unit name and survey area version date, reported as the data vintage.
+    const vintageSql =
+      `SELECT TOP 1 sc.saverest, mu.muname FROM mapunit mu ` +
+      `INNER JOIN legend l ON l.lkey = mu.lkey ` +
+      `INNER JOIN sacatalog sc ON sc.areasymbol = l.areasymbol ` +
+      `WHERE mu.mukey = '${mukey}'`;
+    const vintageRows = await sdaQuery(vintageSql, 1).catch(() => []);
+    const vintageRaw = rowValue(vintageRows[0], 0, "saverest");
+
+    const horizonsByComponent = new Map<string, SoilHorizon[]>();
+    for (const row of horizonRows ?? []) {
+      const cokey = String(rowValue(row, 0, "cokey"));
+      const horizons = horizonsByComponent.get(cokey) ?? [];
+      horizons.push({
+        name: rowValue(row, 1, "hzname") || undefined,
+        topDepthCm: toNumberOrNull(rowValue(row, 2, "hzdept_r")),
+        bottomDepthCm: toNumberOrNull(rowValue(row, 3, "hzdepb_r")),
+        clayPercent: toNumberOrNull(rowValue(row, 4, "claytotal_r")),
+        sandPercent: toNumberOrNull(rowValue(row, 5, "sandtotal_r")),
+        ksatUmPerSec: toNumberOrNull(rowValue(row, 6, "ksat_r")),
+        aashtoClass: rowValue(row, 7, "aashtocl") || undefined,
+        unifiedClass: rowValue(row, 8, "unifiedcl") || undefined,
+        lepPercent: toNumberOrNull(rowValue(row, 9, "lep_r"))
+      });
+      horizonsByComponent.set(cokey, horizons);
     }
 
-    const restrictiveDepthRaw = compData.resdept_r;
-    const restrictiveDepthCm =
-      restrictiveDepthRaw != null && Number.isFinite(Number(restrictiveDepthRaw))
-        ? Number(restrictiveDepthRaw)
-        : null;
+    const components: SoilComponent[] = (compRows ?? []).map((row) => {
+      const cokey = String(rowValue(row, 0, "cokey"));
+      return {
+        cokey,
+        name: rowValue(row, 1, "compname") || "Unnamed component",
+        percent: toNumberOrNull(rowValue(row, 2, "comppct_r")) ?? 0,
+        majorComponent: rowValue(row, 3, "majcompflag") === "Yes",
+        hydrologicGroup: rowValue(row, 4, "hydgrp") || undefined,
+        drainageClass: rowValue(row, 5, "drainagecl") || undefined,
+        restrictiveDepthCm: toNumberOrNull(rowValue(row, 6, "resdept_r")),
+        concreteCorrosion: rowValue(row, 7, "corcon") || undefined,
+        steelCorrosion: rowValue(row, 8, "corsteel") || undefined,
+        frostAction: rowValue(row, 9, "frostact") || undefined,
+        bedrockDepthCm: toNumberOrNull(rowValue(row, 10, "bedrock_r")),
+        waterTableDepthCm: toNumberOrNull(rowValue(row, 11, "wettop_r")),
+        horizons: horizonsByComponent.get(cokey) ?? []
+      };
+    });
 
     return {
-      compname: compData.compname,
-      hydrologicGroup: compData.hydgrp,
-      drainageClass: compData.drainagecl,
-      restrictiveDepthCm,
-      clayPercent
+      ...aggregateComponents(components),
+      profile: {
+        mukey: String(mukey),
+        mapUnitName: rowValue(vintageRows[0], 1, "muname") || undefined,
+        components
+      },
+      provenance: {
+        endpoint: SDA_TABULAR_URL,
+        dataVintage: vintageRaw ? `SSURGO survey area version ${String(vintageRaw).slice(0, 10)}` : undefined
+      }
     };
   } catch (primaryError) {
     // Fallback: Try NRCS Web Soil Survey
@@ -457,26 +1002,90 @@ export async function fetchSoils(point: GeoPoint): Promise<SoilData> {
         hydrologicGroup: undefined,
         drainageClass: undefined,
         restrictiveDepthCm: null,
-        clayPercent: null
+        clayPercent: null,
+        provenance: { endpoint: SDA_TABULAR_URL, fallbackUsed: true, fallbackDetail: "SDA primary and NRCS fallback both failed." }
       };
     }
   }
 }
 
+// Map unit per grid sample in one SDA round trip, then the dominant major component of each unit.
+export async function fetchSoilFootprint(samples: GeoPoint[]): Promise<SoilFootprint> {
+  const mukeySql = samples
+    .map((point, idx) => `SELECT ${idx} AS idx, mukey FROM SDA_Get_Mukey_from_intersection_with_WktWgs84('${buildWkt(point, 0.00005)}')`)
+    .join(" UNION ALL ");
+  const mukeyRows = await sdaQuery(mukeySql, 2);
+
+  const mukeyBySample = new Map<number, string>();
+  for (const row of mukeyRows) {
+    const idx = Number(Array.isArray(row) ? row[0] : row?.idx);
+    const mukey = Array.isArray(row) ? row[1] : row?.mukey;
+    if (Number.isFinite(idx) && mukey && !mukeyBySample.has(idx)) {
+      mukeyBySample.set(idx, String(mukey));
+    }
+  }
+
+  const mukeys = Array.from(new Set(mukeyBySample.values()));
+  const units = new Map<string, SoilMapUnitSample>();
+  if (mukeys.length > 0) {
+    const unitSql =
+      `SELECT mu.mukey, mu.muname, c.compname, c.hydgrp, c.drainagecl ` +
+      `FROM mapunit mu INNER JOIN component c ON c.mukey = mu.mukey ` +
+      `WHERE mu.mukey IN (${mukeys.map((key) => `'${key}'`).join(",")}) AND c.majcompflag = 'Yes' ` +
+      `ORDER BY mu.mukey, c.comppct_r DESC`;
+    const unitRows = await sdaQuery(unitSql, 2);
+    for (const row of unitRows) {
+      const mukey = String(Array.isArray(row) ? row[0] : row?.mukey);
+      if (units.has(mukey)) continue;
+      units.set(mukey, {
+        mukey,
+        name: (Array.isArray(row) ? row[1] : row?.muname) || undefined,
+        compname: (Array.isArray(row) ? row[2] : row?.compname) || undefined,
+        hydrologicGroup: (Array.isArray(row) ? row[3] : row?.hydgrp) || undefined,
+        drainageClass: (Array.isArray(row) ? row[4] : row?.drainagecl) || undefined
+      });
+    }
+  }
+
+  const classified = samples.map((_, idx) => {
+    const mukey = mukeyBySample.get(idx);
+    return mukey ? units.get(mukey) ?? { mukey } : undefined;
+  });
+
+  return {
+    sampleCount: samples.length,
+    mapUnits: shareBy(classified, (unit) => unit.mukey)
+  };
+}
+
 export type ElevationSample = {
   elevationMeters?: number | null;
+  fallbackUsed?: boolean;
 };
 
 export type ElevationSummary = {
   elevationMeters?: number | null;
   reliefMeters?: number | null;
   slopePercent?: number | null;
+  grid?: ElevationGrid;
+  terrain?: TerrainSummary;
+  provenance?: FetchProvenance;
 };
 
+const EPQS_URL = "https://epqs.nationalmap.gov/v1/json";
+const USGS_3DEP_IDENTIFY_URL =
+  "https://elevation.nationalmap.gov/arcgis/rest/services/3DEPElevation/ImageServer/identify";
+const USGS_3DEP_SAMPLES_URL =
+  "https://elevation.nationalmap.gov/arcgis/rest/services/3DEPElevation/ImageServer/getSamples";
+const TERRAIN_GRID_SIDE = 11;
+// Point-by-point EPQS fallback is one request per sample, so it runs on a coarser grid.
+const FALLBACK_GRID_SIDE = 5;
+const EPQS_BATCH_SIZE = 5;
+
 async function fetchEPQSElevation(point: GeoPoint, retryCount = 0): Promise<ElevationSample> {
   const maxRetries = 2;
   try {
-    const url = `https://epqs.nationalmap.gov/v1/json?x=${point.lon}&y=${point.lat}&units=Meters&wkid=4326&includeDate=false`;
+    const url = `${EPQS_URL}?x=${point.lon}&y=${point.lat}&units=Meters&wkid=4326&includeDate=false`;
     const data = await fetchJson<any>(url, undefined, 8000);
     return { elevationMeters: typeof data?.value === "number" ? data.value : null };
   } catch (err) {
@@ -488,113 +1097,232 @@ async function fetchEPQSElevation(point: GeoPoint, retryCount = 0): Promise<Elev
 
     // Fallback: Try USGS 3DEP service
     try {
-      const url = `https://elevation.nationalmap.gov/arcgis/rest/services/3DEPElevation/ImageServer/identify?geometry=${JSON.stringify({ x: point.lon, y: point.lat })}&geometryType=esriGeometryPoint&returnGeometry=false&f=json`;
+      const url = `${USGS_3DEP_IDENTIFY_URL}?geometry=${JSON.stringify({ x: point.lon, y: point.lat })}&geometryType=esriGeometryPoint&returnGeometry=false&f=json`;
       const data = await fetchJson<any>(url, undefined, 8000);
       const value = data?.value;
-      return { elevationMeters: typeof value === "number" ? value : null };
+      return { elevationMeters: typeof value === "number" ? value : null, fallbackUsed: true };
     } catch {
-      return { elevationMeters: null };
+      return { elevationMeters: null, fallbackUsed: true };
     }
   }
 }
 
-export async function fetchElevationSummary(point: GeoPoint, delta = 0.001): Promise<ElevationSummary> {
-  try {
-    const offsets = [
-      { lat: point.lat + delta, lon: point.lon },
-      { lat: point.lat - delta, lon: point.lon },
-      { lat: point.lat, lon: point.lon + delta },
-      { lat: point.lat, lon: point.lon - delta }
-    ];
-
-    const center = await fetchEPQSElevation(point);
-    const samples = await Promise.all(offsets.map((p) => fetchEPQSElevation(p)));
-    const values = [center.elevationMeters, ...samples.map((s) => s.elevationMeters)].filter(
-      (v): v is number => typeof v === "number"
-    );
-
-    if (!values.length) {
-      return { elevationMeters: null, reliefMeters: null, slopePercent: null };
+// One multipoint request to the 3DEP image service; values come back keyed by input index.
+async function fetch3DEPSamples(points: GeoPoint[]): Promise<Array<number | null>> {
+  const params = new URLSearchParams({
+    geometry: JSON.stringify({ points: points.map((p) => [p.lon, p.lat]), spatialReference: { wkid: 4326 } }),
+    geometryType: "esriGeometryMultipoint",
+    returnFirstValueOnly: "true",
+    interpolation: "RSP_BilinearInterpolation",
+    f: "json"
+  });
+  const data = await fetchJson<any>(USGS_3DEP_SAMPLES_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: params.toString()
+  });
+  if (!Array.isArray(data?.samples)) {
+    throw new Error(data?.error?.message ?? "3DEP getSamples returned no samples");
+  }
+  const values: Array<number | null> = points.map(() => null);
+  for (const sample of data.samples) {
+    const idx = Number(sample?.locationId);
+    const value = Number(sample?.value);
+    // NoData cells come back as non-numeric strings or large negative sentinels.
+    if (Number.isInteger(idx) && idx >= 0 && idx < values.length && Number.isFinite(value) && value > -1000) {
+      values[idx] = value;
     }
+  }
+  return values;
+}
 
-    const max = Math.max(...values);
-    const min = Math.min(...values);
-    const relief = max - min;
-    const distance = 2 * delta * 111_320; // meters between north/south samples
-    const slopePercent = distance > 0 ? (relief / distance) * 100 : null;
+async function fetchEPQSSamples(points: GeoPoint[]): Promise<ElevationSample[]> {
+  const results: ElevationSample[] = [];
+  for (let i = 0; i < points.length; i += EPQS_BATCH_SIZE) {
+    const batch = points.slice(i, i + EPQS_BATCH_SIZE);
+    results.push(...(await Promise.all(batch.map((p) => fetchEPQSElevation(p)))));
+  }
+  return results;
+}
 
-    return {
-      elevationMeters: center.elevationMeters ?? null,
-      reliefMeters: relief,
-      slopePercent
-    };
+// Samples an elevation grid over the parcel (or a default square pad) for slope, aspect and relief.
+export async function fetchElevationSummary(point: GeoPoint, parcel?: ParcelGeometry): Promise<ElevationSummary> {
+  let layout = gridLayout(point, parcel, TERRAIN_GRID_SIDE);
+  let values: Array<number | null>;
+  let center: number | null;
+  let provenance: FetchProvenance;
+
+  try {
+    const sampled = await fetch3DEPSamples([...gridPoints(layout), point]);
+    center = sampled.pop() ?? null;
+    values = sampled;
+    provenance = { endpoint: USGS_3DEP_SAMPLES_URL };
   } catch (err) {
-    console.warn("Elevation fetch failed:", err instanceof Error ? err.message : String(err));
-    return { elevationMeters: null, reliefMeters: null, slopePercent: null };
+    const reason = err instanceof Error ? err.message : String(err);
+    layout = gridLayout(point, parcel, FALLBACK_GRID_SIDE);
+    const sampled = await fetchEPQSSamples([...gridPoints(layout), point]);
+    center = sampled.pop()?.elevationMeters ?? null;
+    values = sampled.map((s) => s.elevationMeters ?? null);
+    provenance = {
+      endpoint: EPQS_URL,
+      fallbackUsed: true,
+      fallbackDetail:
+        `3DEP grid sampling failed (${reason}); ${sampled.length} points sampled individually from EPQS ` +
+        `on a ${layout.rows}x${layout.cols} grid.`
+    };
   }
+
+  const grid: ElevationGrid = { ...layout, values };
+  const terrain = analyzeTerrain(grid) ?? undefined;
+  if (!terrain) {
+    return { elevationMeters: center, reliefMeters: null, slopePercent: null, provenance };
+  }
+
+  return {
+    elevationMeters: center ?? (terrain.minElevationMeters + terrain.maxElevationMeters) / 2,
+    reliefMeters: terrain.maxReliefMeters,
+    slopePercent: terrain.meanSlopePercent,
+    grid,
+    terrain,
+    provenance
+  };
 }
 
-// Estimate fire hazard risk based on location and wildfire data
-export async function fetchFireHazard(point: GeoPoint): Promise<FireHazardData> {
-  try {
-    // Use USGS Wildland Fire Science data - check if location is in fire-prone region
-    const url = `https://wildfire.usgs.gov/arcgis/rest/services/firehabitat/fc_fuels_hazard/MapServer/0/query?geometry=${point.lon},${point.lat}&geometryType=esriGeometryPoint&inSR=4326&spatialRel=esriSpatialRelIntersects&outFields=*&f=json`;
+const USFS_WHP_IMAGESERVER_URL =
+  "https://apps.fs.usda.gov/fsgisx01/rest/services/RDW_Wildfire/RMRS_WildfireHazardPotential_classified_2023/ImageServer";
+const USFS_WUI_QUERY_URL = "https://apps.fs.usda.gov/fsgisx01/rest/services/RDW_Wildfire/SILVIS_WUI_2020/MapServer/0/query";
+const WILDFIRE_GRID_DATASET = "wildfire-hazard-grid.json";
+
+// Classified Wildfire Hazard Potential raster values.
+const WHP_CLASSES: Record<number, { label: string; risk: FireHazardData["wildfireRisk"] }> = {
+  1: { label: "Very Low", risk: "low" },
+  2: { label: "Low", risk: "low" },
+  3: { label: "Moderate", risk: "medium" },
+  4: { label: "High", risk: "high" },
+  5: { label: "Very High", risk: "very high" },
+  6: { label: "Non-burnable", risk: "low" },
+  7: { label: "Water", risk: "low" }
+};
 
-    try {
-      const data = await fetchJson<any>(url, undefined, 8000);
-      const feature = data?.features?.[0];
-
-      if (feature?.attributes) {
-        const hazardLevel = feature.attributes?.hazard_level?.toLowerCase();
-        let wildfireRisk: "low" | "medium" | "high" | "very high" = "low";
-
-        if (hazardLevel?.includes("very high") || hazardLevel?.includes("extreme")) {
-          wildfireRisk = "very high";
-        } else if (hazardLevel?.includes("high")) {
-          wildfireRisk = "high";
-        } else if (hazardLevel?.includes("moderate")) {
-          wildfireRisk = "medium";
-        }
+const WUI_GRID_CODES: Record<string, string> = {
+  I: "WUI Intermix",
+  F: "WUI Interface",
+  V: "Non-WUI Vegetated",
+  N: "Non-WUI Non-vegetated",
+  W: "Water"
+};
 
-        return {
-          wildfireRisk,
-          fireZoneCategory: feature.attributes?.zone_name ?? undefined,
-          fireOccurrenceHistoryYears: undefined
-        };
-      }
-    } catch {
-      // Fallback: continue to next check
-    }
+// SILVIS WUICLASS2020 values look like "Med_Dens_Intermix" or "Uninhabited_Veg".
+function wuiFromSilvisClass(raw?: string): string | undefined {
+  if (!raw) return undefined;
+  if (/intermix/i.test(raw)) return WUI_GRID_CODES.I;
+  if (/interface/i.test(raw)) return WUI_GRID_CODES.F;
+  if (/water/i.test(raw)) return WUI_GRID_CODES.W;
+  if (/noveg/i.test(raw)) return WUI_GRID_CODES.N;
+  if (/veg/i.test(raw)) return WUI_GRID_CODES.V;
+  return undefined;
+}
 
-    // Fallback: Use state-based fire risk assessment
-    // Estimate risk based on latitude (generally higher risk in western states at certain elevations)
-    const state = getStateFromCoordinates(point.lat, point.lon);
-    const riskLevel = getStateFireRisk(state, point.lat);
+function fireHazard(whpClass: number | undefined, wuiClass: string | undefined, provenance: FetchProvenance): FireHazardData {
+  const whp = whpClass != null ? WHP_CLASSES[whpClass] : undefined;
+  return {
+    wildfireRisk: whp?.risk,
+    hazardPotentialClass: whp ? whpClass : undefined,
+    hazardPotential: whp?.label,
+    wuiClass,
+    inWui: wuiClass ? wuiClass.startsWith("WUI") : undefined,
+    provenance
+  };
+}
 
+// Resolves to undefined when the site is outside the raster (NoData).
+async function identifyWhpClass(point: GeoPoint): Promise<number | undefined> {
+  const params = new URLSearchParams({
+    geometry: JSON.stringify({ x: point.lon, y: point.lat, spatialReference: { wkid: 4326 } }),
+    geometryType: "esriGeometryPoint",
+    returnGeometry: "false",
+    returnCatalogItems: "false",
+    f: "json"
+  });
+  const data = await fetchJson<any>(`${USFS_WHP_IMAGESERVER_URL}/identify?${params.toString()}`, undefined, 8000);
+  if (typeof data?.value !== "string") throw new Error("Unexpected WHP identify response");
+  const value = Number(data.value);
+  return Number.isInteger(value) && WHP_CLASSES[value] ? value : undefined;
+}
+
+async function queryWuiClass(point: GeoPoint): Promise<string | undefined> {
+  const params = new URLSearchParams({
+    geometry: `${point.lon},${point.lat}`,
+    geometryType: "esriGeometryPoint",
+    inSR: "4326",
+    spatialRel: "esriSpatialRelIntersects",
+    outFields: "WUICLASS2020",
+    returnGeometry: "false",
+    f: "json"
+  });
+  const data = await fetchJson<any>(`${USFS_WUI_QUERY_URL}?${params.toString()}`, undefined, 8000);
+  if (!Array.isArray(data?.features)) throw new Error("Unexpected WUI response");
+  return wuiFromSilvisClass(data.features[0]?.attributes?.WUICLASS2020);
+}
+
+// Cell of the bundled sampled grid containing the site; tiles list rows south to north.
+async function sampleWildfireGrid(
+  point: GeoPoint
+): Promise<{ covered: boolean; whpClass?: number; wuiClass?: string; version?: string; sample: boolean }> {
+  const grid = await loadDataset<any>(WILDFIRE_GRID_DATASET);
+  const cell = Number(grid?.cellSizeDeg);
+  const sample = Boolean(grid?.sample);
+  for (const tile of Array.isArray(grid?.tiles) ? grid.tiles : []) {
+    const row = Math.floor((point.lat - tile.south) / cell);
+    const col = Math.floor((point.lon - tile.west) / cell);
+    if (row < 0 || col < 0 || row >= tile.rows || col >= tile.cols) continue;
+    const whpClass = Number(tile.whp?.[row]?.[col]);
     return {
-      wildfireRisk: riskLevel,
-      fireZoneCategory: `${state} (estimated)`,
-      fireOccurrenceHistoryYears: undefined
-    };
-  } catch (err) {
-    console.warn("Fire hazard fetch failed:", err instanceof Error ? err.message : String(err));
-    return {
-      wildfireRisk: "low",
-      fireZoneCategory: undefined,
-      fireOccurrenceHistoryYears: undefined
+      covered: true,
+      whpClass: WHP_CLASSES[whpClass] ? whpClass : undefined,
+      wuiClass: WUI_GRID_CODES[tile.wui?.[row]?.[col]],
+      version: grid?.version,
+      sample
     };
   }
+  return { covered: false, version: grid?.version, sample };
+}
+
+// Wildfire Hazard Potential plus WUI class; without either service or grid coverage the hazard stays unknown.
+export async function fetchFireHazard(point: GeoPoint): Promise<FireHazardData> {
+  const [whp, wui] = await Promise.allSettled([identifyWhpClass(point), queryWuiClass(point)]);
+  if (whp.status === "fulfilled" && wui.status === "fulfilled") {
+    return fireHazard(whp.value, wui.value, { endpoint: USFS_WHP_IMAGESERVER_URL, dataVintage: "WHP 2023" });
+  }
+
+  const failed = [whp.status === "rejected" && "WHP", wui.status === "rejected" && "WUI"].filter(Boolean);
+  const outage = `USFS ${failed.join(" and ")} ${failed.length > 1 ? "services" : "service"} unavailable`;
+  const grid = await sampleWildfireGrid(point).catch(() => undefined);
+  const whpClass = whp.status === "fulfilled" ? whp.value : grid?.whpClass;
+  const wuiClass = wui.status === "fulfilled" ? wui.value : grid?.wuiClass;
+  const fallbackDetail = grid?.covered
+    ? `${outage}; used the bundled sampled grid.` +
+      (grid.sample ? " Bundled tiles are illustrative, not sampled raster values." : "")
+    : `${outage} and the site is outside the bundled sampled grid; ${whpClass == null ? "wildfire hazard" : "WUI class"} is unknown.`;
+  return fireHazard(whpClass, wuiClass, {
+    endpoint: grid?.covered ? `data/${WILDFIRE_GRID_DATASET}` : USFS_WHP_IMAGESERVER_URL,
+    dataVintage: grid?.covered ? grid.version : undefined,
+    fallbackUsed: true,
+    fallbackDetail
+  });
 }
 
+// Fixed 20-year archive window, so the request (and a recorded fixture of it) does not change with the calendar.
+// Move it forward when the normals are refreshed.
+const CLIMATE_END_YEAR = 2024;
+const CLIMATE_START_YEAR = CLIMATE_END_YEAR - 19;
+
 export async function fetchClimateNormals(point: GeoPoint): Promise<ClimateData> {
   try {
-    const now = new Date();
-    const endYear = now.getUTCFullYear() - 1;
-    const startYear = endYear - 19;
-    const startDate = `${startYear}-01-01`;
-    const endDate = `${endYear}-12-31`;
+    const startDate = `${CLIMATE_START_YEAR}-01-01`;
+    const endDate = `${CLIMATE_END_YEAR}-12-31`;
 
-    const url = `https://archive-api.open-meteo.com/v1/archive?latitude=${point.lat}&longitude=${point.lon}&start_date=${startDate}&end_date=${endDate}&daily=wind_speed_10m_max,snowfall_sum&wind_speed_unit=mph&temperature_unit=fahrenheit&precipitation_unit=inch&timezone=UTC`;
+    const url = `https://archive-api.open-meteo.com/v1/archive?latitude=${point.lat}&longitude=${point.lon}&start_date=${startDate}&end_date=${endDate}&daily=wind_speed_10m_max,snowfall_sum,precipitation_sum,temperature_2m_max,temperature_2m_min,relative_humidity_2m_min&wind_speed_unit=mph&temperature_unit=fahrenheit&precipitation_unit=inch&timezone=UTC`;
     const data = await fetchJson<any>(url, undefined, 10000);
 
     const windSeries = Array.isArray(data?.daily?.wind_speed_10m_max)
@@ -606,6 +1334,20 @@ export async function fetchClimateNormals(point: GeoPoint): Promise<ClimateData>
       : [];
 
     const dates = Array.isArray(data?.daily?.time) ? data.daily.time : [];
+    const numbers = (series: unknown): Array<number | null> =>
+      Array.isArray(series) ? series.map((value) => (typeof value === "number" ? value : null)) : [];
+    const workability = summarizeWorkability({
+      dates: dates.map(String),
+      precipitationIn: numbers(data?.daily?.precipitation_sum),
+      snowfallIn: numbers(snowSeries),
+      maxTempF: numbers(data?.daily?.temperature_2m_max),
+      minHumidityPct: numbers(data?.daily?.relative_humidity_2m_min)
+    });
+    const frost = summarizeFrost({
+      dates: dates.map(String),
+      maxTempF: numbers(data?.daily?.temperature_2m_max),
+      minTempF: numbers(data?.daily?.temperature_2m_min)
+    });
 
     const yearlyWindMax = new Map<number, number>();
     const yearlySnowSum = new Map<number, number>();
@@ -656,7 +1398,10 @@ export async function fetchClimateNormals(point: GeoPoint): Promise<ClimateData>
       p90AnnualSnowCm,
       p50AnnualSnowCm,
       analysisYears: annualSnowCmValues.length || annualWindMaxValues.length || null,
-      source: `Open-Meteo archive ${startYear}-${endYear} (annualized)`
+      workability: workability.length ? workability : undefined,
+      frost,
+      source: `Open-Meteo archive ${CLIMATE_START_YEAR}-${CLIMATE_END_YEAR} (annualized)`,
+      provenance: { endpoint: endpointOf(url), dataVintage: `Daily reanalysis ${startDate} to ${endDate}` }
     };
   } catch {
     return {
@@ -710,43 +1455,675 @@ export async function fetchSPCTornadoOutlook(point: GeoPoint): Promise<SevereWea
       day2Significant: day2Sig.maxDn > 0,
       day1Valid: day1Prob.valid,
       day2Valid: day2Prob.valid,
-      source: "NOAA SPC Convective Outlooks"
+      source: "NOAA SPC Convective Outlooks",
+      provenance: {
+        endpoint: NOAA_SPC_MAPSERVER_URL,
+        dataVintage: day1Prob.valid ? `Day 1 outlook valid ${day1Prob.valid}` : undefined
+      }
     };
   } catch (err) {
     throw new Error(`NOAA SPC tornado outlook unavailable: ${err instanceof Error ? err.message : String(err)}`);
   }
 }
 
-// Simple state lookup from coordinates
-function getStateFromCoordinates(lat: number, lon: number): string {
-  // Rough approximations for common states
-  if (lon < -124 && lon > -117 && lat < 42 && lat > 32) return "CA"; // California
-  if (lon < -105 && lon > -109 && lat < 41 && lat > 37) return "CO"; // Colorado
-  if (lon < -120 && lon > -116 && lat < 49 && lat > 42) return "OR"; // Oregon
-  if (lon < -119 && lon > -114 && lat < 43 && lat > 41) return "ID"; // Idaho
-  if (lon < -109 && lon > -103 && lat < 37 && lat > 31) return "NM"; // New Mexico
-  if (lon < -100 && lon > -94 && lat < 31 && lat > 25) return "TX"; // Texas
-  if (lon < -95 && lon > -80 && lat < 40 && lat > 24) return "FL"; // Florida
-  // Default to Midwest (lower fire risk)
-  return "US";
-}
-
-// Estimate state-level fire risk
-function getStateFireRisk(state: string, latitude: number): "low" | "medium" | "high" | "very high" {
-  const highRiskStates: Record<string, "medium" | "high" | "very high"> = {
-    CA: "very high",
-    WA: "high",
-    OR: "high",
-    ID: "high",
-    MT: "high",
-    NM: "high",
-    AZ: "high",
-    CO: "medium",
-    UT: "medium",
-    NV: "medium",
-    TX: "medium", // parts of TX have high risk
-    FL: "medium"   // especially southern FL has wildfire risk
+export type NearestFault = {
+  name: string;
+  age?: string;
+  slipRate?: string;
+  distanceMeters: number;
+};
+
+export type FaultData = {
+  searchRadiusKm: number;
+  // Mapped fault traces within the search radius.
+  faultCount: number;
+  nearest?: NearestFault;
+  provenance?: FetchProvenance;
+};
+
+export type EarthquakeEvent = {
+  magnitude: number;
+  place?: string;
+  time?: string;
+  distanceKm: number;
+};
+
+export type EarthquakeData = {
+  searchRadiusKm: number;
+  minMagnitude: number;
+  eventCount: number;
+  largest?: EarthquakeEvent;
+  provenance?: FetchProvenance;
+};
+
+const USGS_QFAULTS_URL = "https://earthquake.usgs.gov/arcgis/rest/services/haz/Qfaults/MapServer/0/query";
+const USGS_COMCAT_URL = "https://earthquake.usgs.gov/fdsnws/event/1/query";
+const FAULTS_DATASET = "quaternary-faults.geojson";
+const EARTHQUAKES_DATASET = "comcat-significant.geojson";
+export const FAULT_SEARCH_RADIUS_KM = 50;
+export const EARTHQUAKE_SEARCH_RADIUS_KM = 100;
+const EARTHQUAKE_MIN_MAGNITUDE = 4;
+
+function lineStrings(geometry: any): number[][][] {
+  if (geometry?.type === "LineString" && Array.isArray(geometry.coordinates)) return [geometry.coordinates];
+  if (geometry?.type === "MultiLineString" && Array.isArray(geometry.coordinates)) return geometry.coordinates;
+  return [];
+}
+
+// Qfaults attribute names differ in case between the map service and exported GeoJSON.
+function faultAttribute(props: any, field: string): string | undefined {
+  const value = props?.[field] ?? props?.[field.toUpperCase()];
+  return value == null || value === "" ? undefined : String(value);
+}
+
+function summarizeFaults(point: GeoPoint, features: any[], radiusKm: number): Omit<FaultData, "provenance"> {
+  let nearest: NearestFault | undefined;
+  let faultCount = 0;
+  for (const feature of features) {
+    const lines = lineStrings(feature?.geometry);
+    if (!lines.length) continue;
+    const distance = Math.min(...lines.map((line) => distanceToLineMeters(point, line)));
+    if (distance > radiusKm * 1000) continue;
+    faultCount += 1;
+    if (!nearest || distance < nearest.distanceMeters) {
+      const props = feature.properties;
+      nearest = {
+        name: faultAttribute(props, "fault_name") ?? faultAttribute(props, "name") ?? "Unnamed fault",
+        age: faultAttribute(props, "age"),
+        slipRate: faultAttribute(props, "slip_rate"),
+        distanceMeters: distance
+      };
+    }
+  }
+  return { searchRadiusKm: radiusKm, faultCount, nearest };
+}
+
+function summarizeEarthquakes(
+  point: GeoPoint,
+  features: any[],
+  radiusKm: number,
+  minMagnitude: number
+): Omit<EarthquakeData, "provenance"> {
+  let largest: EarthquakeEvent | undefined;
+  let eventCount = 0;
+  for (const feature of features) {
+    const magnitude = feature?.properties?.mag;
+    const [lon, lat] = feature?.geometry?.coordinates ?? [];
+    if (typeof magnitude !== "number" || magnitude < minMagnitude || typeof lat !== "number" || typeof lon !== "number") {
+      continue;
+    }
+    const distanceKm = distanceMeters(point, { lat, lon }) / 1000;
+    if (distanceKm > radiusKm) continue;
+    eventCount += 1;
+    if (!largest || magnitude > largest.magnitude) {
+      const time = feature.properties.time;
+      largest = {
+        magnitude,
+        place: feature.properties.place ?? undefined,
+        time: typeof time === "number" ? new Date(time).toISOString().slice(0, 10) : undefined,
+        distanceKm
+      };
+    }
+  }
+  return { searchRadiusKm: radiusKm, minMagnitude, eventCount, largest };
+}
+
+export async function fetchQuaternaryFaults(point: GeoPoint): Promise<FaultData> {
+  const params = new URLSearchParams({
+    geometry: `${point.lon},${point.lat}`,
+    geometryType: "esriGeometryPoint",
+    inSR: "4326",
+    spatialRel: "esriSpatialRelIntersects",
+    distance: String(FAULT_SEARCH_RADIUS_KM * 1000),
+    units: "esriSRUnit_Meter",
+    outFields: "*",
+    returnGeometry: "true",
+    outSR: "4326",
+    f: "geojson"
+  });
+  const url = `${USGS_QFAULTS_URL}?${params.toString()}`;
+  try {
+    const data = await fetchJson<any>(url, undefined, 10000);
+    if (!Array.isArray(data?.features)) throw new Error("Unexpected Qfaults response");
+    return {
+      ...summarizeFaults(point, data.features, FAULT_SEARCH_RADIUS_KM),
+      provenance: { endpoint: USGS_QFAULTS_URL }
+    };
+  } catch {
+    const bundled = await loadDataset<any>(FAULTS_DATASET);
+    return {
+      ...summarizeFaults(point, bundled?.features ?? [], FAULT_SEARCH_RADIUS_KM),
+      provenance: {
+        endpoint: `data/${FAULTS_DATASET}`,
+        fallbackUsed: true,
+        fallbackDetail: "Qfaults service unavailable; searched the bundled subset of major Quaternary faults."
+      }
+    };
+  }
+}
+
+export async function fetchEarthquakeHistory(point: GeoPoint): Promise<EarthquakeData> {
+  const params = new URLSearchParams({
+    format: "geojson",
+    latitude: String(point.lat),
+    longitude: String(point.lon),
+    maxradiuskm: String(EARTHQUAKE_SEARCH_RADIUS_KM),
+    minmagnitude: String(EARTHQUAKE_MIN_MAGNITUDE),
+    // ComCat defaults to the last 30 days without a start time.
+    starttime: "1900-01-01",
+    // Largest first, so the limit can only truncate the event count, never the largest event.
+    orderby: "magnitude",
+    limit: "200"
+  });
+  const url = `${USGS_COMCAT_URL}?${params.toString()}`;
+  try {
+    const data = await fetchJson<any>(url, undefined, 10000);
+    if (!Array.isArray(data?.features)) throw new Error("Unexpected ComCat response");
+    return {
+      ...summarizeEarthquakes(point, data.features, EARTHQUAKE_SEARCH_RADIUS_KM, EARTHQUAKE_MIN_MAGNITUDE),
+      provenance: { endpoint: USGS_COMCAT_URL, dataVintage: `M${EARTHQUAKE_MIN_MAGNITUDE}+ since 1900` }
+    };
+  } catch {
+    const bundled = await loadDataset<any>(EARTHQUAKES_DATASET);
+    return {
+      ...summarizeEarthquakes(point, bundled?.features ?? [], EARTHQUAKE_SEARCH_RADIUS_KM, EARTHQUAKE_MIN_MAGNITUDE),
+      provenance: {
+        endpoint: `data/${EARTHQUAKES_DATASET}`,
+        fallbackUsed: true,
+        fallbackDetail: "ComCat unavailable; searched the bundled subset of significant U.S. earthquakes."
+      }
+    };
+  }
+}
+
+export type NriHazardRisk = {
+  slug: string;
+  label: string;
+  riskRating?: string;
+  ealRating?: string;
+  expectedAnnualLossUsd: number | null;
+};
+
+export type NationalRiskData = {
+  tractFips?: string;
+  county?: string;
+  state?: string;
+  riskRating?: string;
+  riskScore: number | null;
+  expectedAnnualLossUsd: number | null;
+  ealRating?: string;
+  socialVulnerabilityRating?: string;
+  communityResilienceRating?: string;
+  hazards: NriHazardRisk[];
+  provenance?: FetchProvenance;
+};
+
+const FEMA_NRI_TRACTS_URL =
+  "https://services.arcgis.com/XG15cJAlne2vxtgt/arcgis/rest/services/National_Risk_Index_Census_Tracts/FeatureServer/0/query";
+const NRI_DATASET = "nri-tracts.json";
+// Bundled rows carry a tract internal point; beyond this the nearest one is not the site's tract.
+const NRI_MAX_TRACT_DISTANCE_KM = 25;
+
+function nriText(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function nriNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+// Same attribute names in the NRI feature service and the bundled table.
+function parseNriAttributes(attributes: any): Omit<NationalRiskData, "provenance"> {
+  return {
+    tractFips: nriText(attributes?.TRACTFIPS),
+    county: nriText(attributes?.COUNTY),
+    state: nriText(attributes?.STATEABBRV),
+    riskRating: nriText(attributes?.RISK_RATNG),
+    riskScore: nriNumber(attributes?.RISK_SCORE),
+    expectedAnnualLossUsd: nriNumber(attributes?.EAL_VALT),
+    ealRating: nriText(attributes?.EAL_RATNG),
+    socialVulnerabilityRating: nriText(attributes?.SOVI_RATNG),
+    communityResilienceRating: nriText(attributes?.RESL_RATNG),
+    hazards: NRI_HAZARDS.map(({ prefix, slug, label }) => ({
+      slug,
+      label,
+      riskRating: nriText(attributes?.[`${prefix}_RISKR`]),
+      ealRating: nriText(attributes?.[`${prefix}_EALR`]),
+      expectedAnnualLossUsd: nriNumber(attributes?.[`${prefix}_EALT`])
+    })).filter((hazard) => hazard.riskRating || hazard.expectedAnnualLossUsd != null)
   };
+}
 
-  return highRiskStates[state] ?? "low";
+async function nearestBundledTract(point: GeoPoint): Promise<NationalRiskData> {
+  const table = await loadDataset<any>(NRI_DATASET);
+  let nearest: { row: any; distanceKm: number } | undefined;
+  for (const row of Array.isArray(table?.tracts) ? table.tracts : []) {
+    if (typeof row?.lat !== "number" || typeof row?.lon !== "number") continue;
+    const distanceKm = distanceMeters(point, { lat: row.lat, lon: row.lon }) / 1000;
+    if (!nearest || distanceKm < nearest.distanceKm) nearest = { row, distanceKm };
+  }
+  if (!nearest || nearest.distanceKm > NRI_MAX_TRACT_DISTANCE_KM) {
+    throw new Error(`NRI service unavailable and no bundled tract within ${NRI_MAX_TRACT_DISTANCE_KM} km`);
+  }
+  return {
+    ...parseNriAttributes(nearest.row),
+    provenance: {
+      endpoint: `data/${NRI_DATASET}`,
+      dataVintage: table?.version,
+      fallbackUsed: true,
+      fallbackDetail:
+        `NRI service unavailable; used the bundled tract table (nearest tract point ${nearest.distanceKm.toFixed(1)} km away).` +
+        (table?.sample ? " Bundled rows are illustrative samples, not published NRI values." : "")
+    }
+  };
+}
+
+export async function fetchNationalRiskIndex(point: GeoPoint): Promise<NationalRiskData> {
+  const params = new URLSearchParams({
+    geometry: `${point.lon},${point.lat}`,
+    geometryType: "esriGeometryPoint",
+    inSR: "4326",
+    spatialRel: "esriSpatialRelIntersects",
+    outFields: "*",
+    returnGeometry: "false",
+    f: "json"
+  });
+  try {
+    const data = await fetchJson<any>(`${FEMA_NRI_TRACTS_URL}?${params.toString()}`, undefined, 10000);
+    const attributes = data?.features?.[0]?.attributes;
+    if (!attributes) throw new Error("No NRI tract at site");
+    return {
+      ...parseNriAttributes(attributes),
+      provenance: { endpoint: FEMA_NRI_TRACTS_URL, dataVintage: nriText(attributes.NRI_VER) }
+    };
+  } catch {
+    return nearestBundledTract(point);
+  }
+}
+
+export type PrecipitationFrequencyData = {
+  // Partial-duration-series depths in inches, indexed [duration][recurrence interval].
+  durations: string[];
+  recurrenceYears: number[];
+  depthsIn: number[][];
+  region?: string;
+  provenance?: FetchProvenance;
+};
+
+const NOAA_PFDS_URL = "https://hdsc.nws.noaa.gov/cgi-bin/hdsc/new/cgi_readH5.py";
+const PFDS_DATASET = "atlas14-pfds.json";
+// Row and column order of the PFDS `quantiles` array.
+export const PFDS_DURATIONS = [
+  "5-min", "10-min", "15-min", "30-min", "60-min", "2-hr", "3-hr", "6-hr", "12-hr", "24-hr",
+  "2-day", "3-day", "4-day", "7-day", "10-day", "20-day", "30-day", "45-day", "60-day"
+];
+export const PFDS_RECURRENCE_YEARS = [1, 2, 5, 10, 25, 50, 100, 200, 500, 1000];
+// Atlas 14 estimates vary smoothly; a bundled point this close stands in for the site.
+const PFDS_MAX_POINT_DISTANCE_KM = 25;
+
+// The PFDS answers with JavaScript assignments, e.g. `quantiles = [['0.38', ...], ...];`.
+function pfdsAssignment(text: string, name: string): string | undefined {
+  return text.match(new RegExp(`(?:^|\\n)\\s*${name}\\s*=\\s*(.+?);\\s*(?:\\n|$)`))?.[1];
+}
+
+function parsePfdsResponse(text: string): Omit<PrecipitationFrequencyData, "provenance"> {
+  const raw = pfdsAssignment(text, "quantiles");
+  if (!raw) throw new Error("No precipitation frequency estimates at site");
+  const rows = JSON.parse(raw.replace(/'/g, '"'));
+  if (!Array.isArray(rows) || !rows.length) throw new Error("No precipitation frequency estimates at site");
+  return {
+    durations: PFDS_DURATIONS.slice(0, rows.length),
+    recurrenceYears: PFDS_RECURRENCE_YEARS,
+    depthsIn: rows.map((row: unknown[]) => row.map((value) => Number(value))),
+    region: pfdsAssignment(text, "region")?.replace(/['"]/g, "")
+  };
+}
+
+async function nearestBundledPfdsPoint(point: GeoPoint): Promise<PrecipitationFrequencyData> {
+  const table = await loadDataset<any>(PFDS_DATASET);
+  let nearest: { row: any; distanceKm: number } | undefined;
+  for (const row of Array.isArray(table?.points) ? table.points : []) {
+    if (typeof row?.lat !== "number" || typeof row?.lon !== "number" || !Array.isArray(row?.depthsIn)) continue;
+    const distanceKm = distanceMeters(point, { lat: row.lat, lon: row.lon }) / 1000;
+    if (!nearest || distanceKm < nearest.distanceKm) nearest = { row, distanceKm };
+  }
+  if (!nearest || nearest.distanceKm > PFDS_MAX_POINT_DISTANCE_KM) {
+    throw new Error(`NOAA PFDS unavailable and no bundled point within ${PFDS_MAX_POINT_DISTANCE_KM} km`);
+  }
+  return {
+    durations: table.durations,
+    recurrenceYears: table.recurrenceYears,
+    depthsIn: nearest.row.depthsIn,
+    region: nearest.row.region,
+    provenance: {
+      endpoint: `data/${PFDS_DATASET}`,
+      dataVintage: table?.version,
+      fallbackUsed: true,
+      fallbackDetail:
+        `NOAA PFDS unavailable; used the bundled table (${nearest.row.name ?? "nearest point"}, ${nearest.distanceKm.toFixed(1)} km away).` +
+        (table?.sample ? " Bundled depths are illustrative approximations, not published Atlas 14 values." : "")
+    }
+  };
+}
+
+export async function fetchPrecipitationFrequency(point: GeoPoint): Promise<PrecipitationFrequencyData> {
+  const params = new URLSearchParams({
+    lat: String(point.lat),
+    lon: String(point.lon),
+    type: "pf",
+    data: "depth",
+    units: "english",
+    series: "pds"
+  });
+  try {
+    const text = await fetchText(`${NOAA_PFDS_URL}?${params.toString()}`, 10000);
+    const data = parsePfdsResponse(text);
+    return {
+      ...data,
+      provenance: {
+        endpoint: NOAA_PFDS_URL,
+        dataVintage: data.region ? `NOAA Atlas 14 (${data.region})` : "NOAA Atlas 14"
+      }
+    };
+  } catch {
+    return nearestBundledPfdsPoint(point);
+  }
+}
+
+export type NearestWetland = {
+  wetlandType: string;
+  // Cowardin classification code, e.g. PEM1C.
+  cowardinCode?: string;
+  acres?: number;
+  distanceMeters: number;
+};
+
+export type WetlandData = {
+  searchRadiusMeters: number;
+  // Mapped NWI polygons within the search radius.
+  wetlandCount: number;
+  // A mapped wetland covers the site point or overlaps the parcel.
+  onSite: boolean;
+  nearest?: NearestWetland;
+  provenance?: FetchProvenance;
+};
+
+const USFWS_NWI_URL = "https://fwspublicservices.wim.usgs.gov/wetlandsmapservice/rest/services/Wetlands/MapServer/0/query";
+const NWI_DATASET = "nwi-wetlands.geojson";
+export const WETLAND_SEARCH_RADIUS_M = 1000;
+
+// Bundled subsets list the [west, south, east, north] boxes they were cut to; elsewhere "no wetland" means no data.
+function withinCoverage(point: GeoPoint, coverage: unknown): boolean {
+  if (!Array.isArray(coverage)) return false;
+  return coverage.some(
+    (box) => Array.isArray(box) && point.lon >= box[0] && point.lat >= box[1] && point.lon <= box[2] && point.lat <= box[3]
+  );
+}
+
+function wetlandGeometry(geometry: any): ParcelGeometry | undefined {
+  return geometry?.type === "Polygon" || geometry?.type === "MultiPolygon" ? geometry : undefined;
+}
+
+function summarizeWetlands(
+  point: GeoPoint,
+  features: any[],
+  parcel?: ParcelGeometry,
+  samples: GeoPoint[] = []
+): Omit<WetlandData, "provenance"> {
+  let nearest: NearestWetland | undefined;
+  let wetlandCount = 0;
+  let onSite = false;
+  for (const feature of features) {
+    const geometry = wetlandGeometry(feature?.geometry);
+    if (!geometry) continue;
+    const rings = parcelPolygons(geometry).flat();
+    const distance = pointInParcel(point, geometry)
+      ? 0
+      : Math.min(...rings.map((ring) => distanceToLineMeters(point, ring)));
+    if (distance > WETLAND_SEARCH_RADIUS_M) continue;
+    wetlandCount += 1;
+    onSite ||=
+      distance === 0 ||
+      samples.some((sample) => pointInParcel(sample, geometry)) ||
+      Boolean(parcel && rings.some((ring) => ring.some(([lon, lat]) => pointInParcel({ lat, lon }, parcel))));
+    if (!nearest || distance < nearest.distanceMeters) {
+      const props = feature.properties ?? {};
+      const acres = Number(props.ACRES);
+      nearest = {
+        wetlandType: props.WETLAND_TYPE || "Mapped wetland",
+        cowardinCode: props.ATTRIBUTE || undefined,
+        acres: Number.isFinite(acres) && acres > 0 ? acres : undefined,
+        distanceMeters: distance
+      };
+    }
+  }
+  return { searchRadiusMeters: WETLAND_SEARCH_RADIUS_M, wetlandCount, onSite, nearest };
+}
+
+export async function fetchWetlands(point: GeoPoint, parcel?: ParcelGeometry, samples?: GeoPoint[]): Promise<WetlandData> {
+  const params = new URLSearchParams({
+    geometry: `${point.lon},${point.lat}`,
+    geometryType: "esriGeometryPoint",
+    inSR: "4326",
+    spatialRel: "esriSpatialRelIntersects",
+    distance: String(WETLAND_SEARCH_RADIUS_M),
+    units: "esriSRUnit_Meter",
+    outFields: "ATTRIBUTE,WETLAND_TYPE,ACRES",
+    returnGeometry: "true",
+    outSR: "4326",
+    geometryPrecision: "6",
+    maxAllowableOffset: "0.00005",
+    f: "geojson"
+  });
+  try {
+    const data = await fetchJson<any>(`${USFWS_NWI_URL}?${params.toString()}`, undefined, 12000);
+    if (!Array.isArray(data?.features)) throw new Error("Unexpected NWI response");
+    return {
+      ...summarizeWetlands(point, data.features, parcel, samples),
+      provenance: { endpoint: USFWS_NWI_URL }
+    };
+  } catch {
+    const bundled = await loadDataset<any>(NWI_DATASET);
+    if (!withinCoverage(point, bundled?.metadata?.coverage)) {
+      throw new Error("NWI service unavailable and the site is outside the bundled wetland coverage");
+    }
+    return {
+      ...summarizeWetlands(point, bundled?.features ?? [], parcel, samples),
+      provenance: {
+        endpoint: `data/${NWI_DATASET}`,
+        dataVintage: bundled?.metadata?.version,
+        fallbackUsed: true,
+        fallbackDetail:
+          "NWI service unavailable; searched the bundled wetland subset, which only covers selected areas." +
+          (bundled?.metadata?.sample ? " Bundled polygons are illustrative, not NWI mapping." : "")
+      }
+    };
+  }
+}
+
+export type ContaminationSiteType = "superfund" | "rcra" | "brownfield" | "lust" | "ust";
+// RCRAInfo handler universes: corrective action and TSD imply a release or waste management on site.
+export type RcraUniverse = "corrective-action" | "tsd" | "generator";
+
+export type RegulatedFacility = {
+  name: string;
+  type: ContaminationSiteType;
+  registryId?: string;
+  status?: string;
+  // Only known for handlers in the bundled subset; live FRS results do not say.
+  rcraUniverse?: RcraUniverse;
+  // 0 when the facility point lies inside the parcel.
+  distanceMeters: number;
+};
+
+export type ContaminationData = {
+  // Facilities inside their type's search radius, nearest first.
+  facilities: RegulatedFacility[];
+  searchRadiiMeters: Record<ContaminationSiteType, number>;
+  // Types with no data for this site (UST Finder coverage is local only).
+  unscreened: ContaminationSiteType[];
+  provenance?: FetchProvenance;
+};
+
+const METERS_PER_MILE = 1609.344;
+// ASTM E1527-21 minimum search distances. RCRAInfo lists generators and TSD facilities together,
+// so both are screened at the TSD distance; registered USTs only matter on or adjoining the site.
+export const CONTAMINATION_SEARCH_RADII_M: Record<ContaminationSiteType, number> = {
+  superfund: 1 * METERS_PER_MILE,
+  rcra: 0.5 * METERS_PER_MILE,
+  brownfield: 0.5 * METERS_PER_MILE,
+  lust: 0.5 * METERS_PER_MILE,
+  ust: 0.125 * METERS_PER_MILE
+};
+const EPA_FRS_URL = "https://frs-public.epa.gov/ords/frs_public2/frs_rest_services.get_facilities";
+// FRS program system acronyms for the federal lists; USTs and LUSTs come from state programs via UST Finder.
+const FRS_PROGRAMS: Partial<Record<ContaminationSiteType, string>> = {
+  superfund: "SEMS",
+  rcra: "RCRAINFO",
+  brownfield: "ACRES"
+};
+const FRS_DATASET = "epa-regulated-facilities.json";
+
+function screenFacilities(
+  point: GeoPoint,
+  rows: Array<{
+    name?: string;
+    type: ContaminationSiteType;
+    registryId?: string;
+    status?: string;
+    rcraUniverse?: RcraUniverse;
+    lat: number;
+    lon: number;
+  }>,
+  parcel?: ParcelGeometry
+): RegulatedFacility[] {
+  const facilities: RegulatedFacility[] = [];
+  for (const row of rows) {
+    const radius = CONTAMINATION_SEARCH_RADII_M[row.type];
+    if (radius == null || !Number.isFinite(row.lat) || !Number.isFinite(row.lon)) continue;
+    const distance = parcel && pointInParcel(row, parcel) ? 0 : distanceMeters(point, row);
+    if (distance > radius) continue;
+    facilities.push({
+      name: row.name || "Unnamed facility",
+      type: row.type,
+      registryId: row.registryId,
+      status: row.status,
+      rcraUniverse: row.type === "rcra" ? row.rcraUniverse : undefined,
+      distanceMeters: Math.round(distance)
+    });
+  }
+  return facilities.sort((a, b) => a.distanceMeters - b.distanceMeters);
+}
+
+async function fetchFrsProgram(point: GeoPoint, type: ContaminationSiteType, program: string) {
+  const params = new URLSearchParams({
+    latitude83: String(point.lat),
+    longitude83: String(point.lon),
+    search_radius: String(CONTAMINATION_SEARCH_RADII_M[type] / METERS_PER_MILE),
+    pgm_sys_acrnm: program,
+    output: "JSON"
+  });
+  const data = await fetchJson<any>(`${EPA_FRS_URL}?${params.toString()}`, undefined, 15000);
+  const rows = data?.Results?.FRSFacility;
+  if (!data?.Results) throw new Error("Unexpected FRS response");
+  return (Array.isArray(rows) ? rows : []).map((row: any) => ({
+    name: row?.FacilityName,
+    type,
+    registryId: row?.RegistryId,
+    lat: Number(row?.Latitude83),
+    lon: Number(row?.Longitude83)
+  }));
+}
+
+export async function fetchContamination(point: GeoPoint, parcel?: ParcelGeometry): Promise<ContaminationData> {
+  const bundled = await loadDataset<any>(FRS_DATASET).catch(() => undefined);
+  const covered = withinCoverage(point, bundled?.coverage);
+  const bundledRows = covered && Array.isArray(bundled?.facilities) ? bundled.facilities : [];
+  const localTypes: ContaminationSiteType[] = ["lust", "ust"];
+
+  try {
+    const programs = Object.entries(FRS_PROGRAMS) as Array<[ContaminationSiteType, string]>;
+    const live = (await Promise.all(programs.map(([type, program]) => fetchFrsProgram(point, type, program)))).flat();
+    // FRS does not return the RCRA universe; the bundled subset knows it for the handlers it lists.
+    const universes = new Map<string, RcraUniverse>(
+      bundledRows
+        .filter((row: any) => row?.type === "rcra" && row.registryId && row.rcraUniverse)
+        .map((row: any) => [row.registryId, row.rcraUniverse])
+    );
+    const enriched = live.map((row) =>
+      row.type === "rcra" && row.registryId ? { ...row, rcraUniverse: universes.get(row.registryId) } : row
+    );
+    const local = bundledRows.filter((row: any) => localTypes.includes(row?.type));
+    return {
+      facilities: screenFacilities(point, [...enriched, ...local], parcel),
+      searchRadiiMeters: CONTAMINATION_SEARCH_RADII_M,
+      unscreened: covered ? [] : localTypes,
+      provenance: {
+        endpoint: EPA_FRS_URL,
+        dataVintage: covered ? `FRS live; USTs from ${bundled?.version ?? "bundled UST Finder subset"}` : "FRS live",
+        fallbackUsed: covered && bundled?.sample ? true : undefined,
+        fallbackDetail:
+          covered && bundled?.sample ? "UST and LUST listings come from the illustrative bundled subset." : undefined
+      }
+    };
+  } catch {
+    if (!covered) {
+      throw new Error("EPA FRS unavailable and the site is outside the bundled regulated-facility coverage");
+    }
+    return {
+      facilities: screenFacilities(point, bundledRows, parcel),
+      searchRadiiMeters: CONTAMINATION_SEARCH_RADII_M,
+      unscreened: [],
+      provenance: {
+        endpoint: `data/${FRS_DATASET}`,
+        dataVintage: bundled?.version,
+        fallbackUsed: true,
+        fallbackDetail:
+          "EPA FRS unavailable; screened the bundled facility subset, which only covers selected areas." +
+          (bundled?.sample ? " Bundled facilities are illustrative, not EPA listings." : "")
+      }
+    };
+  }
+}
+
+const OVERPASS_URL = "https://overpass-api.de/api/interpreter";
+// Highways and plants are fetched this far out; a plant beyond it is past the haul-distance "high" thresholds anyway.
+export const OSM_HAUL_RADIUS_KM = 80;
+// Minor streets only matter for reaching the highway network from the site.
+const OSM_LOCAL_RADIUS_M = 3000;
+
+export type OsmRoadData = {
+  // Raw Overpass elements: highway ways with node ids and geometry, plants as nodes or area centers.
+  elements: any[];
+  provenance?: FetchProvenance;
+};
+
+export async function fetchOsmRoads(point: GeoPoint): Promise<OsmRoadData> {
+  const around = (meters: number) => `(around:${meters},${point.lat},${point.lon})`;
+  const haul = around(OSM_HAUL_RADIUS_KM * 1000);
+  const query =
+    "[out:json][timeout:40];" +
+    `(way${haul}["highway"~"^(motorway|trunk|primary|secondary)(_link)?$"];` +
+    `way${around(OSM_LOCAL_RADIUS_M)}["highway"~"^(tertiary|tertiary_link|unclassified|residential|service|road)$"];);` +
+    "out body geom;" +
+    `(nwr${haul}["industrial"~"^(concrete_plant|aggregate)$"];nwr${haul}["landuse"="quarry"];` +
+    `nwr${haul}["man_made"="works"]["product"~"concrete|gravel|sand|aggregate|stone|asphalt",i];);` +
+    "out tags center;";
+  const data = await fetchJson<any>(
+    OVERPASS_URL,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ data: query }).toString()
+    },
+    45000
+  );
+  if (!Array.isArray(data?.elements)) throw new Error("Unexpected Overpass response");
+  return {
+    elements: data.elements,
+    provenance: {
+      endpoint: OVERPASS_URL,
+      dataVintage: data?.osm3s?.timestamp_osm_base ? `OpenStreetMap ${data.osm3s.timestamp_osm_base}` : "OpenStreetMap"
+    }
+  };
 }
@@ -0,0 +1,75 @@
+import { PrecipitationFrequencyData } from "./sources";
+
+const IMPERVIOUS_CURVE_NUMBER = 98;
+// TR-55 meadow (continuous grass, protected from grazing) as the pre-development cover.
+const PRE_DEVELOPMENT_CURVE_NUMBERS: Record<string, number> = { A: 30, B: 58, C: 71, D: 78 };
+const SQ_FT_PER_ACRE = 43_560;
+
+export type DesignStorm = { recurrenceYears: number; duration: string };
+
+export type DetentionEstimate = {
+  designStorm: DesignStorm;
+  rainfallIn: number;
+  hydrologicGroup: string;
+  preCurveNumber: number;
+  // Added runoff depth over each unit of new impervious area.
+  runoffIncreaseIn: number;
+  imperviousAreaSqFt?: number;
+  volumeCuFt?: number;
+  volumeAcreFt?: number;
+};
+
+export function precipitationDepthIn(
+  data: PrecipitationFrequencyData,
+  duration: string,
+  recurrenceYears: number
+): number | undefined {
+  const row = data.durations.indexOf(duration);
+  const col = data.recurrenceYears.indexOf(recurrenceYears);
+  const depth = data.depthsIn[row]?.[col];
+  return typeof depth === "number" && Number.isFinite(depth) ? depth : undefined;
+}
+
+// NRCS curve number runoff with the standard 0.2S initial abstraction.
+export function runoffDepthIn(rainfallIn: number, curveNumber: number): number {
+  const retention = 1000 / curveNumber - 10;
+  const abstraction = 0.2 * retention;
+  if (rainfallIn <= abstraction) return 0;
+  return (rainfallIn - abstraction) ** 2 / (rainfallIn + 0.8 * retention);
+}
+
+// Dual groups (e.g. B/D) describe drained/undrained soil; undeveloped land takes the undrained group.
+function predevelopmentGroup(hydrologicGroup: string): string | undefined {
+  const groups = hydrologicGroup.toUpperCase().match(/[ABCD]/g);
+  return groups?.[groups.length - 1];
+}
+
+// Screening volume: the added runoff from turning meadow into pavement over the design storm. Release-rate
+// criteria usually govern real ponds, so local ordinances can require noticeably more.
+export function estimateDetention(args: {
+  precipitation: PrecipitationFrequencyData;
+  hydrologicGroup: string;
+  designStorm: DesignStorm;
+  imperviousAreaSqFt?: number;
+}): DetentionEstimate | undefined {
+  const group = predevelopmentGroup(args.hydrologicGroup);
+  const rainfallIn = precipitationDepthIn(args.precipitation, args.designStorm.duration, args.designStorm.recurrenceYears);
+  if (!group || rainfallIn == null) return undefined;
+
+  const preCurveNumber = PRE_DEVELOPMENT_CURVE_NUMBERS[group];
+  const runoffIncreaseIn = runoffDepthIn(rainfallIn, IMPERVIOUS_CURVE_NUMBER) - runoffDepthIn(rainfallIn, preCurveNumber);
+  const estimate: DetentionEstimate = {
+    designStorm: args.designStorm,
+    rainfallIn,
+    hydrologicGroup: group,
+    preCurveNumber,
+    runoffIncreaseIn: Math.round(runoffIncreaseIn * 100) / 100
+  };
+  if (args.imperviousAreaSqFt) {
+    const volumeCuFt = (runoffIncreaseIn / 12) * args.imperviousAreaSqFt;
+    estimate.imperviousAreaSqFt = args.imperviousAreaSqFt;
+    estimate.volumeCuFt = Math.round(volumeCuFt);
+    estimate.volumeAcreFt = Math.round((volumeCuFt / SQ_FT_PER_ACRE) * 100) / 100;
+  }
+  return estimate;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { ElevationGrid, analyzeTerrain, estimateEarthwork } from "./terrain";
+
+// 5 x 5 grid at 10 m spacing; rows run south to north, columns west to east.
+function grid(elevation: (eastMeters: number, northMeters: number) => number | null): ElevationGrid {
+  const rows = 5;
+  const cols = 5;
+  const spacingMeters = 10;
+  const values: Array<number | null> = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) values.push(elevation(col * spacingMeters, row * spacingMeters));
+  }
+  return {
+    origin: { lat: 42.0228, lon: -93.6077 },
+    spacingMeters,
+    rows,
+    cols,
+    inFootprint: values.map(() => true),
+    values
+  };
+}
+
+describe("analyzeTerrain", () => {
+  it("measures a uniform 4% slope falling to the east", () => {
+    const terrain = analyzeTerrain(grid((east) => 100 - 0.04 * east));
+    expect(terrain?.sampleCount).toBe(25);
+    expect(terrain?.maxReliefMeters).toBeCloseTo(1.6);
+    expect(terrain?.meanSlopePercent).toBeCloseTo(4);
+    expect(terrain?.maxSlopePercent).toBeCloseTo(4);
+    expect(terrain?.slopeDistribution.find((band) => band.label === "2-5%")?.fraction).toBe(1);
+    expect(terrain?.aspect).toBe("E");
+    expect(terrain?.aspectDegrees).toBeCloseTo(90);
+  });
+
+  it("reports no aspect on flat ground", () => {
+    const terrain = analyzeTerrain(grid(() => 250));
+    expect(terrain?.maxSlopePercent).toBe(0);
+    expect(terrain?.aspect).toBeNull();
+  });
+
+  it("skips missing samples and returns null without any", () => {
+    expect(analyzeTerrain(grid((east) => (east === 0 ? null : 100)))?.sampleCount).toBe(20);
+    expect(analyzeTerrain(grid(() => null))).toBeNull();
+  });
+});
+
+describe("estimateEarthwork", () => {
+  const sloped = grid((east) => 100 - 0.04 * east);
+
+  it("balances cut and fill at the mean elevation by default", () => {
+    const earthwork = estimateEarthwork(sloped);
+    expect(earthwork?.padSource).toBe("balanced");
+    expect(earthwork?.padElevationMeters).toBeCloseTo(99.2);
+    expect(earthwork?.cutCubicMeters).toBeCloseTo(earthwork?.fillCubicMeters ?? NaN);
+    expect(earthwork?.netCubicMeters).toBeCloseTo(0);
+    expect(earthwork?.footprintAreaSqMeters).toBe(2500);
+  });
+
+  it("reports export when the requested pad sits below grade", () => {
+    const earthwork = estimateEarthwork(sloped, 98);
+    expect(earthwork?.padSource).toBe("requested");
+    expect(earthwork?.fillCubicMeters).toBe(0);
+    expect(earthwork?.cutCubicMeters).toBeCloseTo(3000);
+    expect(earthwork?.netCubicYards).toBeCloseTo(3000 * 1.30795);
+  });
+});
@@ -0,0 +1,250 @@
+import { metersPerDegreeLon, parcelBounds, pointInParcel } from "./geo";
+import { GeoPoint, ParcelGeometry } from "./types";
+
+// Without a parcel, terrain and earthwork are assessed over a square pad of this size centered on the site.
+export const DEFAULT_FOOTPRINT_METERS = 100;
+
+const METERS_PER_DEG_LAT = 111_320;
+const CUBIC_YARDS_PER_CUBIC_METER = 1.30795;
+// 3DEP 1/3 arc-second data is ~10 m; sampling finer than that only interpolates.
+const MIN_SPACING_METERS = 10;
+const FLAT_GRADIENT = 0.005;
+
+const SLOPE_BANDS: Array<{ label: string; maxPercent: number }> = [
+  { label: "0-2%", maxPercent: 2 },
+  { label: "2-5%", maxPercent: 5 },
+  { label: "5-10%", maxPercent: 10 },
+  { label: "10-15%", maxPercent: 15 },
+  { label: ">15%", maxPercent: Infinity }
+];
+
+const COMPASS = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+
+// Square cells on a rectangular grid; rows run south to north, columns west to east.
+export type GridLayout = {
+  origin: GeoPoint;
+  spacingMeters: number;
+  rows: number;
+  cols: number;
+  inFootprint: boolean[];
+};
+
+export type ElevationGrid = GridLayout & {
+  values: Array<number | null>;
+};
+
+export type SlopeBand = {
+  label: string;
+  fraction: number;
+};
+
+export type TerrainSummary = {
+  sampleCount: number;
+  spacingMeters: number;
+  minElevationMeters: number;
+  maxElevationMeters: number;
+  maxReliefMeters: number;
+  meanSlopePercent: number | null;
+  p90SlopePercent: number | null;
+  maxSlopePercent: number | null;
+  slopeDistribution: SlopeBand[];
+  // Downslope direction of the best-fit plane; null on effectively flat sites.
+  aspect: string | null;
+  aspectDegrees: number | null;
+};
+
+export type EarthworkEstimate = {
+  padElevationMeters: number;
+  padSource: "requested" | "balanced";
+  footprintAreaSqMeters: number;
+  cutCubicMeters: number;
+  fillCubicMeters: number;
+  // Positive when the site exports material, negative when it needs import.
+  netCubicMeters: number;
+  cutCubicYards: number;
+  fillCubicYards: number;
+  netCubicYards: number;
+  meanDepthMeters: number;
+};
+
+// Grid over the parcel bounds (or the default square pad) with at most `maxSide` samples per side.
+export function gridLayout(point: GeoPoint, parcel: ParcelGeometry | undefined, maxSide: number): GridLayout {
+  const half = DEFAULT_FOOTPRINT_METERS / 2;
+  const bounds = parcel
+    ? parcelBounds(parcel)
+    : {
+        minLat: point.lat - half / METERS_PER_DEG_LAT,
+        maxLat: point.lat + half / METERS_PER_DEG_LAT,
+        minLon: point.lon - half / metersPerDegreeLon(point.lat),
+        maxLon: point.lon + half / metersPerDegreeLon(point.lat)
+      };
+  const lonScale = metersPerDegreeLon((bounds.minLat + bounds.maxLat) / 2);
+  const height = (bounds.maxLat - bounds.minLat) * METERS_PER_DEG_LAT;
+  const width = (bounds.maxLon - bounds.minLon) * lonScale;
+  const spacingMeters = Math.max(MIN_SPACING_METERS, Math.max(width, height) / (maxSide - 1));
+  const rows = Math.min(maxSide, Math.floor(height / spacingMeters + 1e-6) + 1);
+  const cols = Math.min(maxSide, Math.floor(width / spacingMeters + 1e-6) + 1);
+
+  // Center the grid inside the bounds so edge samples sit symmetrically.
+  const origin = {
+    lat: bounds.minLat + (height - (rows - 1) * spacingMeters) / 2 / METERS_PER_DEG_LAT,
+    lon: bounds.minLon + (width - (cols - 1) * spacingMeters) / 2 / lonScale
+  };
+  const layout: GridLayout = { origin, spacingMeters, rows, cols, inFootprint: [] };
+  layout.inFootprint = gridPoints(layout).map((p) => (parcel ? pointInParcel(p, parcel) : true));
+  return layout;
+}
+
+export function gridPoints(layout: GridLayout): GeoPoint[] {
+  const dLat = layout.spacingMeters / METERS_PER_DEG_LAT;
+  const dLon = layout.spacingMeters / metersPerDegreeLon(layout.origin.lat);
+  const points: GeoPoint[] = [];
+  for (let row = 0; row < layout.rows; row++) {
+    for (let col = 0; col < layout.cols; col++) {
+      points.push({ lat: layout.origin.lat + row * dLat, lon: layout.origin.lon + col * dLon });
+    }
+  }
+  return points;
+}
+
+function valueAt(grid: ElevationGrid, row: number, col: number): number | null {
+  if (row < 0 || col < 0 || row >= grid.rows || col >= grid.cols) return null;
+  return grid.values[row * grid.cols + col];
+}
+
+// Central difference where both neighbours exist, one-sided at edges and gaps.
+function derivative(grid: ElevationGrid, row: number, col: number, dRow: number, dCol: number): number | null {
+  const center = valueAt(grid, row, col);
+  const ahead = valueAt(grid, row + dRow, col + dCol);
+  const behind = valueAt(grid, row - dRow, col - dCol);
+  if (ahead != null && behind != null) return (ahead - behind) / (2 * grid.spacingMeters);
+  if (center == null) return null;
+  if (ahead != null) return (ahead - center) / grid.spacingMeters;
+  if (behind != null) return (center - behind) / grid.spacingMeters;
+  return null;
+}
+
+function footprintCells(grid: ElevationGrid): Array<{ row: number; col: number; z: number }> {
+  const cells: Array<{ row: number; col: number; z: number }> = [];
+  grid.values.forEach((z, idx) => {
+    if (z == null || !grid.inFootprint[idx]) return;
+    cells.push({ row: Math.floor(idx / grid.cols), col: idx % grid.cols, z });
+  });
+  return cells;
+}
+
+// Least-squares plane z = a*x + b*y + c in meters; returns the (east, north) gradient.
+function planeGradient(grid: ElevationGrid, cells: Array<{ row: number; col: number; z: number }>): [number, number] | null {
+  if (cells.length < 3) return null;
+  const n = cells.length;
+  const xs = cells.map((c) => c.col * grid.spacingMeters);
+  const ys = cells.map((c) => c.row * grid.spacingMeters);
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / n;
+  const mx = mean(xs);
+  const my = mean(ys);
+  const mz = mean(cells.map((c) => c.z));
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  let sxz = 0;
+  let syz = 0;
+  cells.forEach((c, i) => {
+    const dx = xs[i] - mx;
+    const dy = ys[i] - my;
+    const dz = c.z - mz;
+    sxx += dx * dx;
+    syy += dy * dy;
+    sxy += dx * dy;
+    sxz += dx * dz;
+    syz += dy * dz;
+  });
+  const det = sxx * syy - sxy * sxy;
+  if (Math.abs(det) < 1e-9) return null;
+  return [(sxz * syy - syz * sxy) / det, (syz * sxx - sxz * sxy) / det];
+}
+
+function percentileOf(sorted: number[], p: number): number {
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[idx];
+}
+
+export function analyzeTerrain(grid: ElevationGrid): TerrainSummary | null {
+  const cells = footprintCells(grid);
+  if (!cells.length) return null;
+
+  const slopes = cells
+    .map(({ row, col }) => {
+      const dzdx = derivative(grid, row, col, 0, 1);
+      const dzdy = derivative(grid, row, col, 1, 0);
+      return dzdx == null || dzdy == null ? null : Math.hypot(dzdx, dzdy) * 100;
+    })
+    .filter((slope): slope is number => slope != null)
+    .sort((a, b) => a - b);
+
+  const slopeDistribution = SLOPE_BANDS.map((band, idx) => {
+    const min = idx === 0 ? -Infinity : SLOPE_BANDS[idx - 1].maxPercent;
+    const count = slopes.filter((slope) => slope > min && slope <= band.maxPercent).length;
+    return { label: band.label, fraction: slopes.length ? count / slopes.length : 0 };
+  });
+
+  const gradient = planeGradient(grid, cells);
+  let aspectDegrees: number | null = null;
+  if (gradient && Math.hypot(gradient[0], gradient[1]) >= FLAT_GRADIENT) {
+    // Compass bearing of steepest descent (0 = north, clockwise).
+    aspectDegrees = ((Math.atan2(-gradient[0], -gradient[1]) * 180) / Math.PI + 360) % 360;
+  }
+
+  const elevations = cells.map((c) => c.z);
+  const minElevationMeters = Math.min(...elevations);
+  const maxElevationMeters = Math.max(...elevations);
+  return {
+    sampleCount: cells.length,
+    spacingMeters: grid.spacingMeters,
+    minElevationMeters,
+    maxElevationMeters,
+    maxReliefMeters: maxElevationMeters - minElevationMeters,
+    meanSlopePercent: slopes.length ? slopes.reduce((sum, s) => sum + s, 0) / slopes.length : null,
+    p90SlopePercent: slopes.length ? percentileOf(slopes, 90) : null,
+    maxSlopePercent: slopes.length ? slopes[slopes.length - 1] : null,
+    slopeDistribution,
+    aspect: aspectDegrees == null ? null : COMPASS[Math.round(aspectDegrees / 45) % 8],
+    aspectDegrees
+  };
+}
+
+// Grid-cell prism method. Without a requested pad elevation, the pad is set where cut and fill balance.
+// Volumes are bank measure: no topsoil stripping, over-excavation, or shrink/swell factors.
+export function estimateEarthwork(grid: ElevationGrid, padElevationMeters?: number): EarthworkEstimate | null {
+  const cells = footprintCells(grid);
+  if (!cells.length) return null;
+
+  const cellArea = grid.spacingMeters ** 2;
+  const pad = padElevationMeters ?? cells.reduce((sum, c) => sum + c.z, 0) / cells.length;
+  let cut = 0;
+  let fill = 0;
+  for (const { z } of cells) {
+    if (z > pad) cut += (z - pad) * cellArea;
+    else fill += (pad - z) * cellArea;
+  }
+
+  const footprintAreaSqMeters = cells.length * cellArea;
+  return {
+    padElevationMeters: pad,
+    padSource: padElevationMeters != null ? "requested" : "balanced",
+    footprintAreaSqMeters,
+    cutCubicMeters: cut,
+    fillCubicMeters: fill,
+    netCubicMeters: cut - fill,
+    cutCubicYards: cut * CUBIC_YARDS_PER_CUBIC_METER,
+    fillCubicYards: fill * CUBIC_YARDS_PER_CUBIC_METER,
+    netCubicYards: (cut - fill) * CUBIC_YARDS_PER_CUBIC_METER,
+    meanDepthMeters: (cut + fill) / footprintAreaSqMeters
+  };
+}
+
+export function formatSlopeDistribution(bands: SlopeBand[]): string {
+  return bands
+    .filter((band) => band.fraction > 0)
+    .map((band) => `${band.label} ${Math.round(band.fraction * 100)}%`)
+    .join(", ");
+}
@@ -1,4 +1,5 @@
 import { AnalysisResult } from "./types";
+import { MonthlyWorkability, WeatherSchedule } from "./workability";
 
 export type ImpactType = "capex" | "general_conditions" | "insurance" | "schedule";
 
@@ -11,6 +12,8 @@ export type CostDriver = {
   impactType: ImpactType;
   estimatedCostDeltaPct: { min: number; max: number };
   estimatedScheduleDeltaDays: { min: number; max: number };
+  // Direct cost from measured quantities (e.g. utility extension lengths), when the driver has them.
+  estimatedCostUsd?: { min: number; max: number };
   rationale: string;
 };
 
@@ -60,4 +63,6 @@ export type V2AnalysisResult = AnalysisResult & {
   costDrivers: CostDriver[];
   actions: PMAction[];
   bidAssumptions: BidAssumption[];
+  workabilityCalendar?: MonthlyWorkability[];
+  weatherSchedule?: WeatherSchedule;
 };
@@ -3,12 +3,47 @@ export type GeoPoint = {
   lon: number;
 };
 
+// GeoJSON Polygon/MultiPolygon in [lon, lat] order.
+export type ParcelGeometry =
+  | { type: "Polygon"; coordinates: number[][][] }
+  | { type: "MultiPolygon"; coordinates: number[][][][] };
+
+// "coordinates" means the user supplied the point or parcel directly; no geocoding was involved.
+export type MatchPrecision = "coordinates" | "rooftop" | "street" | "zip" | "city";
+
+export type GeocodeCandidate = {
+  matchedAddress: string;
+  location: GeoPoint;
+  source: string;
+  precision: MatchPrecision;
+};
+
+export type GeocodeSummary = {
+  precision: MatchPrecision;
+  ambiguous: boolean;
+  candidates: GeocodeCandidate[];
+};
+
+export type Provenance = {
+  sourceId: string;
+  source: string;
+  endpoint?: string;
+  retrievedAt?: string;
+  latencyMs?: number;
+  cached?: boolean;
+  fallbackUsed?: boolean;
+  fallbackDetail?: string;
+  dataVintage?: string;
+  sample?: boolean;
+};
+
 export type Fact = {
   source: string;
   label: string;
   value: string | number | null;
   unit?: string;
   note?: string;
+  provenance?: Provenance;
 };
 
 export type Signal = {
@@ -17,6 +52,7 @@ export type Signal = {
   value: string;
   severity: "low" | "medium" | "high" | "unknown";
   explanation: string;
+  provenance?: Provenance[];
 };
 
 export type Implication = {
@@ -24,11 +60,96 @@ export type Implication = {
   detail: string;
 };
 
+export type SourceStatus = {
+  id: string;
+  name: string;
+  status: "ok" | "degraded" | "unavailable";
+  detail?: string;
+  cache?: {
+    hit: boolean;
+    store: string;
+    storedAt?: string;
+    ttlSeconds: number;
+  };
+};
+
+export type SoilHorizon = {
+  name?: string;
+  topDepthCm: number | null;
+  bottomDepthCm: number | null;
+  clayPercent: number | null;
+  sandPercent: number | null;
+  ksatUmPerSec: number | null;
+  aashtoClass?: string;
+  unifiedClass?: string;
+  // Linear extensibility (shrink-swell), percent.
+  lepPercent: number | null;
+};
+
+export type SoilComponent = {
+  cokey: string;
+  name: string;
+  percent: number;
+  majorComponent: boolean;
+  hydrologicGroup?: string;
+  drainageClass?: string;
+  restrictiveDepthCm: number | null;
+  bedrockDepthCm: number | null;
+  // Shallowest month-by-month "wet" soil moisture layer.
+  waterTableDepthCm: number | null;
+  concreteCorrosion?: string;
+  steelCorrosion?: string;
+  frostAction?: string;
+  horizons: SoilHorizon[];
+};
+
+export type SoilProfile = {
+  mukey: string;
+  mapUnitName?: string;
+  components: SoilComponent[];
+};
+
+export type AsceEdition = "asce7-10" | "asce7-16" | "asce7-22";
+
+export type RiskCategory = "I" | "II" | "III" | "IV";
+
+// The assumptions behind the seismic design values and SDC.
+export type SeismicBasis = {
+  edition: AsceEdition;
+  codeReference: string;
+  riskCategory: RiskCategory;
+  siteClass: string;
+  siteClassSource: "requested" | "ssurgo" | "default";
+  siteClassBasis: string;
+};
+
+export type ResponseSpectrum = {
+  periods: number[];
+  // Spectral acceleration (g) at each period.
+  ordinates: number[];
+};
+
+export type SeismicSpectrum = {
+  // ASCE 7-22 publishes multi-period spectra; earlier editions the two-period (Ts/TL) shape.
+  kind: "multi-period" | "two-period";
+  design?: ResponseSpectrum;
+  mce?: ResponseSpectrum;
+  tl?: number | null;
+  fa?: number | null;
+  fv?: number | null;
+};
+
 export type AnalysisResult = {
   address: string;
   location?: GeoPoint;
+  parcel?: ParcelGeometry;
   facts: Fact[];
   signals: Signal[];
   implications: Implication[];
   warnings: string[];
+  geocode?: GeocodeSummary;
+  sources?: SourceStatus[];
+  soilProfile?: SoilProfile;
+  seismicBasis?: SeismicBasis;
+  seismicSpectrum?: SeismicSpectrum;
 };
@@ -0,0 +1,183 @@
+import { loadDataset } from "./datasets";
+import { distanceMeters, distanceToLineMeters, parcelBounds, parcelPolygons, pointInParcel } from "./geo";
+import { FetchProvenance } from "./sources";
+import { GeoPoint, ParcelGeometry } from "./types";
+
+const UTILITY_DATASET = "utility-infrastructure.json";
+
+// Assets farther than this are reported as not found rather than measured.
+export const UTILITY_SEARCH_RADIUS_KM = 15;
+// Straight-line distance to along-the-road route length for new line work.
+const ROUTE_FACTOR = 1.3;
+// Three-phase distribution feeders are assumed to reach this far from a substation.
+const FEEDER_REACH_METERS = 3000;
+
+export type UtilityAsset = {
+  name?: string;
+  voltageKv?: number;
+  distanceMeters: number;
+};
+
+export type ServiceAreaMatch = {
+  name?: string;
+  inside: boolean;
+  // 0 inside the service area.
+  distanceMeters: number;
+};
+
+export type UtilityExtensionKind = "water" | "sewer" | "power";
+
+export type UtilityContext = {
+  // False outside the dataset's coverage boxes, where nothing was measured.
+  covered: boolean;
+  transmissionLine?: UtilityAsset;
+  substation?: UtilityAsset;
+  gasPipeline?: UtilityAsset;
+  water?: ServiceAreaMatch;
+  sewer?: ServiceAreaMatch;
+  // Estimated new line to serve the site; absent when no asset lies within the search radius.
+  extensionsMeters: Partial<Record<UtilityExtensionKind, number>>;
+  provenance?: FetchProvenance;
+};
+
+type LineAsset = { name?: string; voltageKv?: number; coordinates: number[][] };
+type PointAsset = { name?: string; voltageKv?: number; lon: number; lat: number };
+type AreaAsset = {
+  name?: string;
+  geometry: ParcelGeometry;
+  bounds: ReturnType<typeof parcelBounds>;
+};
+
+type UtilityIndex = {
+  version?: string;
+  sample: boolean;
+  // [west, south, east, north] boxes the layers were cut to.
+  coverage: number[][];
+  transmissionLines: LineAsset[];
+  substations: PointAsset[];
+  gasPipelines: LineAsset[];
+  waterServiceAreas: AreaAsset[];
+  sewerServiceAreas: AreaAsset[];
+};
+
+function lines(rows: unknown): LineAsset[] {
+  return Array.isArray(rows) ? rows.filter((row) => Array.isArray(row?.coordinates) && row.coordinates.length >= 2) : [];
+}
+
+function areas(rows: unknown): AreaAsset[] {
+  if (!Array.isArray(rows)) return [];
+  return rows
+    .filter((row) => row?.geometry?.type === "Polygon" || row?.geometry?.type === "MultiPolygon")
+    .map((row) => ({ name: row.name, geometry: row.geometry, bounds: parcelBounds(row.geometry) }));
+}
+
+let index: Promise<UtilityIndex> | undefined;
+
+function loadIndex(): Promise<UtilityIndex> {
+  index ??= loadDataset<any>(UTILITY_DATASET).then((raw) => ({
+    version: raw?.version,
+    sample: Boolean(raw?.sample),
+    coverage: Array.isArray(raw?.coverage) ? raw.coverage : [],
+    transmissionLines: lines(raw?.transmissionLines),
+    substations: Array.isArray(raw?.substations)
+      ? raw.substations.filter((row: any) => typeof row?.lat === "number" && typeof row?.lon === "number")
+      : [],
+    gasPipelines: lines(raw?.gasPipelines),
+    waterServiceAreas: areas(raw?.waterServiceAreas),
+    sewerServiceAreas: areas(raw?.sewerServiceAreas)
+  }));
+  index.catch(() => (index = undefined));
+  return index;
+}
+
+function nearest<T extends { name?: string; voltageKv?: number }>(
+  assets: T[],
+  distance: (asset: T) => number
+): UtilityAsset | undefined {
+  let best: UtilityAsset | undefined;
+  for (const asset of assets) {
+    const meters = distance(asset);
+    if (meters > UTILITY_SEARCH_RADIUS_KM * 1000) continue;
+    if (!best || meters < best.distanceMeters) {
+      best = { name: asset.name, voltageKv: asset.voltageKv, distanceMeters: meters };
+    }
+  }
+  return best;
+}
+
+// Containing area wins outright; otherwise the nearest edge within the search radius.
+function matchServiceArea(point: GeoPoint, serviceAreas: AreaAsset[], parcel?: ParcelGeometry): ServiceAreaMatch | undefined {
+  let best: ServiceAreaMatch | undefined;
+  for (const area of serviceAreas) {
+    const { minLat, maxLat, minLon, maxLon } = area.bounds;
+    const inBounds = point.lat >= minLat && point.lat <= maxLat && point.lon >= minLon && point.lon <= maxLon;
+    const parcelInside = parcel && parcelPolygons(parcel).flat().flat().some(([lon, lat]) => pointInParcel({ lat, lon }, area.geometry));
+    if ((inBounds && pointInParcel(point, area.geometry)) || parcelInside) {
+      return { name: area.name, inside: true, distanceMeters: 0 };
+    }
+    const meters = Math.min(...parcelPolygons(area.geometry).flat().map((ring) => distanceToLineMeters(point, ring)));
+    if (meters > UTILITY_SEARCH_RADIUS_KM * 1000) continue;
+    if (!best || meters < best.distanceMeters) best = { name: area.name, inside: false, distanceMeters: meters };
+  }
+  return best;
+}
+
+function serviceExtension(match?: ServiceAreaMatch): number | undefined {
+  if (!match) return undefined;
+  return Math.round(match.distanceMeters * ROUTE_FACTOR);
+}
+
+export function totalExtensionMeters(context: UtilityContext): number {
+  return Object.values(context.extensionsMeters).reduce((sum, meters) => sum + (meters ?? 0), 0);
+}
+
+export async function resolveUtilities(point: GeoPoint, parcel?: ParcelGeometry): Promise<UtilityContext> {
+  const utilities = await loadIndex();
+  const covered = utilities.coverage.some(
+    ([west, south, east, north]) => point.lon >= west && point.lat >= south && point.lon <= east && point.lat <= north
+  );
+  if (!covered) {
+    return {
+      covered,
+      extensionsMeters: {},
+      provenance: {
+        endpoint: `data/${UTILITY_DATASET}`,
+        dataVintage: utilities.version,
+        fallbackUsed: true,
+        fallbackDetail: "Site is outside the utility infrastructure dataset coverage; extensions are estimated from metro class."
+      }
+    };
+  }
+
+  const transmissionLine = nearest(utilities.transmissionLines, (line) => distanceToLineMeters(point, line.coordinates));
+  const substation = nearest(utilities.substations, (station) => distanceMeters(point, station));
+  const gasPipeline = nearest(utilities.gasPipelines, (line) => distanceToLineMeters(point, line.coordinates));
+  const water = matchServiceArea(point, utilities.waterServiceAreas, parcel);
+  const sewer = matchServiceArea(point, utilities.sewerServiceAreas, parcel);
+
+  const extensionsMeters: UtilityContext["extensionsMeters"] = {
+    water: serviceExtension(water),
+    sewer: serviceExtension(sewer),
+    power: substation
+      ? Math.round(Math.max(0, substation.distanceMeters - FEEDER_REACH_METERS) * ROUTE_FACTOR)
+      : undefined
+  };
+
+  return {
+    covered,
+    transmissionLine,
+    substation,
+    gasPipeline,
+    water,
+    sewer,
+    extensionsMeters,
+    provenance: {
+      endpoint: `data/${UTILITY_DATASET}`,
+      dataVintage: utilities.version,
+      fallbackUsed: utilities.sample || undefined,
+      fallbackDetail: utilities.sample
+        ? "Utility dataset is an illustrative stand-in with hand-drawn assets around the demo addresses."
+        : undefined
+    }
+  };
+}
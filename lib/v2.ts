@@ -1,6 +1,13 @@
 import rules from "../config/v2-rules.json";
-import { ElevationSummary, FEMAData, SoilData, ClimateData } from "./sources";
+import { MetroClass, SiteBoundaries } from "./boundaries";
+import { FrostSummary, minimumFootingDepthIn } from "./frost";
+import { FEMAData, SoilData, ClimateData, PrecipitationFrequencyData, WetlandData } from "./sources";
+import { HaulRoute, LEGAL_GROSS_TONS, RoadAccess } from "./roads";
+import { severityFromWetlands } from "./signals";
+import { DesignStorm, estimateDetention } from "./stormwater";
+import { UTILITY_SEARCH_RADIUS_KM, UtilityContext, UtilityExtensionKind, totalExtensionMeters } from "./utilities";
 import { Signal } from "./types";
+import { MONTH_LABELS, SchedulePhase, WeatherSchedule, annualLostWorkdays, buildWeatherSchedule } from "./workability";
 import {
   CostDriver,
   PMAction,
@@ -26,14 +33,69 @@ type Config = {
   costRules: RuleConfig[];
   actionLibrary: Record<string, ActionConfig>;
   contingencyBands: Array<ContingencyRange & { minScore: number }>;
+  schedulePhases: SchedulePhase[];
+  detentionDesignStorm: DesignStorm;
+  // Installed cost range per linear foot of new service line.
+  utilityExtensionCostPerFt: Record<UtilityExtensionKind, number[]>;
   baselineBidAssumptions: BidAssumption[];
   conditionalBidAssumptions: {
     highFlood: BidAssumption;
     highFire: BidAssumption;
+    wetlands: BidAssumption;
+    contamination: BidAssumption;
+    // `{depthIn}` is replaced with the carried footing depth.
+    minimumFootingDepth: BidAssumption;
   };
 };
 
-const config = rules as Config;
+// JSON imports widen string unions to `string`, so the enumerated fields are checked against these lists on load.
+// Typing each list as a Record over its union keeps it in step with lib/types-v2.ts at compile time.
+const DUE_PHASES: Record<PMAction["duePhase"], true> = {
+  Bid: true,
+  "Design Development": true,
+  Permit: true,
+  Procurement: true,
+  Mobilization: true
+};
+const OWNERS: Record<PMAction["owner"], true> = {
+  Estimator: true,
+  "Project Manager": true,
+  "Civil Engineer": true,
+  "Structural Engineer": true,
+  Geotech: true
+};
+const IMPACT_TYPES: Record<CostDriver["impactType"], true> = {
+  capex: true,
+  general_conditions: true,
+  insurance: true,
+  schedule: true
+};
+const ASSUMPTION_TYPES: Record<BidAssumption["type"], true> = { assumption: true, allowance: true, exclusion: true };
+
+function checkEnum(allowed: Record<string, true>, value: unknown, path: string) {
+  if (typeof value !== "string" || !Object.prototype.hasOwnProperty.call(allowed, value)) {
+    throw new Error(`config/v2-rules.json: ${path} is ${JSON.stringify(value)}, expected one of ${Object.keys(allowed).join(", ")}`);
+  }
+}
+
+function validateConfig(raw: typeof rules): Config {
+  for (const [idx, rule] of raw.costRules.entries()) {
+    checkEnum(IMPACT_TYPES, rule.impactType, `costRules[${idx}].impactType`);
+  }
+  for (const [signalId, action] of Object.entries(raw.actionLibrary)) {
+    checkEnum(DUE_PHASES, action.duePhase, `actionLibrary["${signalId}"].duePhase`);
+    checkEnum(OWNERS, action.owner, `actionLibrary["${signalId}"].owner`);
+  }
+  raw.baselineBidAssumptions.forEach((assumption, idx) =>
+    checkEnum(ASSUMPTION_TYPES, assumption.type, `baselineBidAssumptions[${idx}].type`)
+  );
+  for (const [key, assumption] of Object.entries(raw.conditionalBidAssumptions)) {
+    checkEnum(ASSUMPTION_TYPES, assumption.type, `conditionalBidAssumptions.${key}.type`);
+  }
+  return raw as Config;
+}
+
+const config = validateConfig(rules);
 
 function pair(values: number[]): [number, number] {
   const first = Number(values?.[0] ?? 0);
@@ -60,38 +122,76 @@ function fmt(value?: number | null, digits = 1): string {
   return value.toFixed(digits);
 }
 
-function metroClass(point: { lat: number; lon: number }): "major-metro" | "metro" | "non-metro" {
-  const inRange = (min: number, max: number, v: number) => v >= min && v <= max;
+function severityFromLostWorkdays(days: number): SeverityKey {
+  if (days >= 45) return "high";
+  if (days >= 25) return "medium";
+  return "low";
+}
 
-  const major = [
-    { lat: [40.45, 40.95], lon: [-74.3, -73.65] },
-    { lat: [33.6, 34.4], lon: [-118.7, -117.7] },
-    { lat: [41.6, 42.2], lon: [-88.1, -87.3] },
-    { lat: [29.4, 30.2], lon: [-95.9, -95.0] },
-    { lat: [32.6, 33.1], lon: [-97.1, -96.4] }
-  ];
+function severityFromFrostDepth(inches: number): SeverityKey {
+  if (inches >= 48) return "high";
+  if (inches >= 30) return "medium";
+  return "low";
+}
 
-  for (const box of major) {
-    if (inRange(box.lat[0], box.lat[1], point.lat) && inRange(box.lon[0], box.lon[1], point.lon)) {
-      return "major-metro";
-    }
-  }
+// Added runoff depth per unit of new impervious area over the design storm.
+function severityFromRunoffIncrease(inches: number): SeverityKey {
+  if (inches >= 3.5) return "high";
+  if (inches >= 2) return "medium";
+  return "low";
+}
 
-  const metro = [
-    { lat: [47.4, 47.85], lon: [-122.45, -122.1] },
-    { lat: [37.55, 37.95], lon: [-122.6, -121.8] },
-    { lat: [39.5, 40.1], lon: [-105.25, -104.55] },
-    { lat: [25.5, 26.1], lon: [-80.4, -80.0] },
-    { lat: [38.75, 39.1], lon: [-77.25, -76.8] }
-  ];
-
-  for (const box of metro) {
-    if (inRange(box.lat[0], box.lat[1], point.lat) && inRange(box.lon[0], box.lon[1], point.lon)) {
-      return "metro";
-    }
-  }
+const FEET_PER_METER = 3.28084;
+
+const UTILITY_EXTENSION_KINDS: UtilityExtensionKind[] = ["water", "sewer", "power"];
+const HIGH_EXTENSION_FEET = 2000;
+
+function severityFromExtensionFeet(feet: number): SeverityKey {
+  if (feet >= HIGH_EXTENSION_FEET) return "high";
+  if (feet >= 300) return "medium";
+  return "low";
+}
 
-  return "non-metro";
+// Fallback outside the utility dataset coverage: extension scope from how built-up the area is.
+const METRO_UTILITY_CONTEXT: Record<MetroClass, string> = {
+  "major-metro": "Dense utility corridor",
+  metro: "Mixed availability",
+  "non-metro": "Limited utility context"
+};
+
+function severityFromMetroClass(metro?: MetroClass): Signal["severity"] {
+  if (metro === "major-metro") return "low";
+  if (metro === "metro") return "medium";
+  if (metro === "non-metro") return "high";
+  return "unknown";
+}
+
+const METERS_PER_MILE = 1609.344;
+
+function miles(meters: number): string {
+  return `${fmt(meters / METERS_PER_MILE, 1)} mi`;
+}
+
+function worstSeverity(severities: SeverityKey[]): SeverityKey {
+  return severities.includes("high") ? "high" : severities.includes("medium") ? "medium" : "low";
+}
+
+// A route you must leave the public truck network for, or a posting below legal gross weight, is high on its own.
+function severityFromRoadAccess(roads: RoadAccess, weightLimitTons?: number): SeverityKey {
+  const truckRoadMiles = roads.truckRoad ? roads.truckRoad.distanceMeters / METERS_PER_MILE : Infinity;
+  const highwayMiles = roads.highway ? roads.highway.driveMeters / METERS_PER_MILE : Infinity;
+  if (truckRoadMiles > 1 || !roads.highway || (weightLimitTons != null && weightLimitTons < LEGAL_GROSS_TONS)) return "high";
+  if (truckRoadMiles > 0.25 || highwayMiles > 15) return "medium";
+  return "low";
+}
+
+// Ready-mix has to discharge within 90 minutes of batching (ASTM C94), so its haul is held tighter than aggregate's.
+function severityFromHaul(route: HaulRoute | undefined, mediumMiles: number, highMiles: number): SeverityKey {
+  if (!route) return "high";
+  const driveMiles = route.driveMeters / METERS_PER_MILE;
+  if (driveMiles >= highMiles) return "high";
+  if (driveMiles >= mediumMiles) return "medium";
+  return "low";
 }
 
 function severityFromWind(mph?: number | null): Signal["severity"] {
@@ -109,11 +209,15 @@ function severityFromSnow(cm?: number | null): Signal["severity"] {
 }
 
 export function buildAdvancedSignals(args: {
-  point: { lat: number; lon: number };
+  boundaries?: SiteBoundaries;
   fema?: FEMAData;
+  wetlands?: WetlandData;
   soils?: SoilData;
-  elevation?: ElevationSummary;
   climate?: ClimateData;
+  rainfall?: PrecipitationFrequencyData;
+  utilities?: UtilityContext;
+  roads?: RoadAccess;
+  imperviousAreaSqFt?: number;
 }): Signal[] {
   const signals: Signal[] = [];
 
@@ -140,64 +244,181 @@ export function buildAdvancedSignals(args: {
     explanation: "Annualized snowfall proxy from historical series, weighted to upper-percentile snow exposure."
   });
 
-  let wetlandScore = 0;
+  const workability = args.climate?.workability;
+  if (workability?.length) {
+    const lostDays = annualLostWorkdays(workability);
+    const worst = workability.reduce((max, month) => (month.lostWorkdays > max.lostWorkdays ? month : max));
+    signals.push({
+      id: "weather-workability",
+      label: "Weather Lost Workdays",
+      value: `${fmt(lostDays, 0)} workdays/yr (peak ${MONTH_LABELS[worst.month - 1]} ${fmt(worst.lostWorkdays, 1)})`,
+      severity: severityFromLostWorkdays(lostDays),
+      explanation:
+        "Weekdays per year with ≥0.5 in rain, ≥1 in snow, a high at or below freezing, or heat index ≥103 °F, " +
+        `averaged over ${args.climate?.analysisYears ?? "the archived"} years of daily reanalysis.`
+    });
+  } else {
+    signals.push({
+      id: "weather-workability",
+      label: "Weather Lost Workdays",
+      value: "Not available",
+      severity: "unknown",
+      explanation: "Daily climate archive unavailable; weather days could not be estimated."
+    });
+  }
+
+  const frost = args.climate?.frost;
+  if (frost) {
+    signals.push({
+      id: "frost-depth",
+      label: "Frost Depth Estimate",
+      value: `${frost.frostDepthIn} in (AFI ${frost.designFreezingIndex} °F-days, ${fmt(frost.freezeThawCycles, 0)} freeze-thaw cycles/yr)`,
+      severity: severityFromFrostDepth(frost.frostDepthIn),
+      explanation:
+        `Screening frost penetration from the design air freezing index (mean of the ${Math.min(3, frost.seasons)} coldest of ` +
+        `${frost.seasons} winters). Sets exterior footing depth and slab-edge insulation; frequent freeze-thaw cycling ` +
+        "calls for air-entrained exterior concrete. Local code frost depth governs."
+    });
+  } else {
+    signals.push({
+      id: "frost-depth",
+      label: "Frost Depth Estimate",
+      value: "Not available",
+      severity: "unknown",
+      explanation: "Daily temperature archive unavailable; frost depth could not be estimated."
+    });
+  }
+
+  const { recurrenceYears, duration } = config.detentionDesignStorm;
+  const detention =
+    args.rainfall && args.soils?.hydrologicGroup
+      ? estimateDetention({
+          precipitation: args.rainfall,
+          hydrologicGroup: args.soils.hydrologicGroup,
+          designStorm: config.detentionDesignStorm,
+          imperviousAreaSqFt: args.imperviousAreaSqFt
+        })
+      : undefined;
+  if (detention) {
+    const storm = `${recurrenceYears}-yr ${duration} storm (${fmt(detention.rainfallIn, 2)} in)`;
+    signals.push({
+      id: "stormwater-detention",
+      label: "Stormwater Detention Estimate",
+      value:
+        detention.volumeCuFt != null
+          ? `${detention.volumeCuFt.toLocaleString("en-US")} cu ft (${fmt(detention.volumeAcreFt, 2)} ac-ft) for the ${storm}`
+          : `${fmt(detention.runoffIncreaseIn, 2)} in added runoff per impervious area for the ${storm}`,
+      severity: severityFromRunoffIncrease(detention.runoffIncreaseIn),
+      explanation:
+        `NRCS curve-number runoff from impervious cover (CN 98) less hydrologic group ${detention.hydrologicGroup} meadow ` +
+        `(CN ${detention.preCurveNumber}), using NOAA Atlas 14 depths. ` +
+        (detention.volumeCuFt != null
+          ? "Screening volume only; local release-rate criteria can require more."
+          : "Enter the new impervious area to turn this into a pond volume.")
+    });
+  } else {
+    signals.push({
+      id: "stormwater-detention",
+      label: "Stormwater Detention Estimate",
+      value: "Not available",
+      severity: "unknown",
+      explanation: args.rainfall
+        ? "Hydrologic soil group unavailable; detention volume could not be estimated."
+        : "Atlas 14 precipitation frequency unavailable; detention volume could not be estimated."
+    });
+  }
+
   const floodZone = args.fema?.floodZone ?? "";
-  const hydro = args.soils?.hydrologicGroup ?? "";
-  const drainage = (args.soils?.drainageClass ?? "").toLowerCase();
-  if (floodZone.startsWith("A") || floodZone.startsWith("V")) wetlandScore += 2;
-  if (hydro.includes("D")) wetlandScore += 1;
-  if (drainage.includes("poor")) wetlandScore += 1;
-
-  const hasWetlandInputs = Boolean(floodZone || hydro || drainage);
-  const wetlandSeverity: Signal["severity"] = !hasWetlandInputs
-    ? "unknown"
-    : wetlandScore >= 3
+  const wetlandSeverity = severityFromWetlands(args.wetlands);
+
+  const utilities = args.utilities?.covered ? args.utilities : undefined;
+  const metro = args.boundaries?.metroClass;
+  // A service with nothing mapped inside the search radius is at least as costly as a long extension.
+  const unmappedServices = utilities ? UTILITY_EXTENSION_KINDS.filter((kind) => utilities.extensionsMeters[kind] == null) : [];
+  const utilitySeverity: Signal["severity"] = !utilities
+    ? severityFromMetroClass(metro)
+    : unmappedServices.length
       ? "high"
-      : wetlandScore >= 2
-        ? "medium"
-        : "low";
-  signals.push({
-    id: "wetland-constraint-proxy",
-    label: "Wetland/Environmental Constraint Proxy",
-    value: !hasWetlandInputs ? "Not available" : wetlandScore >= 3 ? "Elevated" : wetlandScore >= 2 ? "Moderate" : "Limited",
-    severity: wetlandSeverity,
-    explanation: "Proxy derived from flood and soil wetness indicators to flag potential environmental permitting friction."
-  });
-
-  const metro = metroClass(args.point);
-  const utilitySeverity: SeverityKey = metro === "major-metro" ? "low" : metro === "metro" ? "medium" : "high";
+      : severityFromExtensionFeet(totalExtensionMeters(utilities) * FEET_PER_METER);
+  const describeExtension = (kind: UtilityExtensionKind) => {
+    const meters = utilities?.extensionsMeters[kind];
+    return `${kind} ${meters == null ? "none mapped" : `${Math.round(meters * FEET_PER_METER).toLocaleString("en-US")} ft`}`;
+  };
   signals.push({
-    id: "utility-capacity-proxy",
-    label: "Utility Capacity/Proximity Proxy",
-    value: metro === "major-metro" ? "Dense utility corridor" : metro === "metro" ? "Mixed availability" : "Limited utility context",
+    id: "utility-extension",
+    label: "Utility Service Extensions",
+    value: utilities
+      ? UTILITY_EXTENSION_KINDS.map(describeExtension).join(", ")
+      : metro
+        ? `${METRO_UTILITY_CONTEXT[metro]} (metro-class estimate)`
+        : "Not available",
     severity: utilitySeverity,
-    explanation: "Location context proxy for extension scope and lead-time risk of utility coordination."
+    explanation: utilities
+      ? "Route-length estimates to the nearest water and sewer service areas and to three-phase power beyond a substation's " +
+        `feeder reach. "None mapped" means nothing within ${UTILITY_SEARCH_RADIUS_KM} km (plan for well, septic, or a utility study).` +
+        (utilities.gasPipeline
+          ? ` Nearest gas transmission pipeline ${Math.round(utilities.gasPipeline.distanceMeters * FEET_PER_METER).toLocaleString("en-US")} ft; distribution mains are not mapped.`
+          : "")
+      : metro
+        ? "Utility infrastructure data does not cover this site; extension scope is estimated from the metro class " +
+          "(denser metros usually have service at the property line). Confirm with the utility providers."
+        : "Utility infrastructure data unavailable for this site."
   });
 
-  const slope = args.elevation?.slopePercent ?? null;
   const metroPermitPenalty = metro === "major-metro" ? 2 : metro === "metro" ? 1 : 0;
   const floodPenalty = floodZone.startsWith("A") || floodZone.startsWith("V") ? 1 : 0;
-  const permitScore = metroPermitPenalty + floodPenalty;
+  // Section 404 review is the slowest environmental permit path, so mapped wetlands weigh most.
+  const wetlandPenalty = wetlandSeverity === "high" ? 2 : wetlandSeverity === "medium" ? 1 : 0;
+  const permitScore = metroPermitPenalty + floodPenalty + wetlandPenalty;
   const permitSeverity: SeverityKey = permitScore >= 3 ? "high" : permitScore >= 1 ? "medium" : "low";
   signals.push({
     id: "permitting-complexity-proxy",
     label: "Permitting Complexity Proxy",
     value: permitSeverity === "high" ? "Complex multi-review" : permitSeverity === "medium" ? "Moderate review path" : "Standard review path",
     severity: permitSeverity,
-    explanation: "Proxy combining metropolitan review burden and environmental sensitivity factors."
+    explanation: "Proxy combining metropolitan review burden, floodplain review, and NWI wetland proximity."
+  });
+
+  const roads = args.roads;
+  const routes = roads ? [roads.highway, roads.readyMix, roads.aggregate] : [];
+  const posted = routes
+    .filter((route): route is HaulRoute => route?.weightLimitTons != null)
+    .sort((a, b) => (a.weightLimitTons ?? 0) - (b.weightLimitTons ?? 0))[0];
+  const accessSeverity: Signal["severity"] = roads ? severityFromRoadAccess(roads, posted?.weightLimitTons) : "unknown";
+  signals.push({
+    id: "site-access",
+    label: "Truck Access & Highway Connection",
+    value: roads
+      ? [
+          roads.truckRoad
+            ? `Truck road ${Math.round(roads.truckRoad.distanceMeters * FEET_PER_METER).toLocaleString("en-US")} ft (${roads.truckRoad.ref ?? roads.truckRoad.name ?? roads.truckRoad.highway})`
+            : "No truck road mapped",
+          roads.highway ? `${roads.highway.ref} ${miles(roads.highway.driveMeters)} drive` : `No Interstate/US highway within ${roads.searchRadiusKm} km`,
+          posted ? `${posted.weightLimitTons}-ton posting on ${posted.weightLimitRoad}` : "no posted weight limits mapped"
+        ].join("; ")
+      : "Not available",
+    severity: accessSeverity,
+    explanation: roads
+      ? "Distance from the site or parcel edge to the nearest tertiary-or-higher road, drive distance to the nearest " +
+        `Interstate or U.S. highway, and the lowest posted weight limit on those haul routes (legal gross is ${LEGAL_GROSS_TONS} tons). ` +
+        "Drives the mobilization allowance for construction entrances, temporary access and oversize-load routing."
+      : "Road network data unavailable for this site."
   });
 
-  const logisticsScore =
-    (slope != null && slope >= 8 ? 2 : slope != null && slope >= 4 ? 1 : 0) +
-    (utilitySeverity === "high" ? 1 : 0) +
-    (wetlandSeverity === "high" ? 1 : 0);
-  const logisticsSeverity: SeverityKey = logisticsScore >= 3 ? "high" : logisticsScore >= 1 ? "medium" : "low";
+  const haulSeverity: Signal["severity"] = roads
+    ? worstSeverity([severityFromHaul(roads.readyMix, 20, 40), severityFromHaul(roads.aggregate, 25, 50)])
+    : "unknown";
+  const describeHaul = (label: string, route?: HaulRoute) =>
+    route ? `${label} ${miles(route.driveMeters)}${route.name ? ` (${route.name})` : ""}` : `${label} none within ${roads?.searchRadiusKm} km`;
   signals.push({
-    id: "logistics-access-proxy",
-    label: "Logistics/Access Constraint Proxy",
-    value: logisticsSeverity === "high" ? "Constrained" : logisticsSeverity === "medium" ? "Manageable constraints" : "Favorable access",
-    severity: logisticsSeverity,
-    explanation: "Proxy for staging, haul routes, and access complexity from terrain + context indicators."
+    id: "haul-distance",
+    label: "Ready-Mix & Aggregate Haul",
+    value: roads ? [describeHaul("Ready-mix", roads.readyMix), describeHaul("aggregate", roads.aggregate)].join(", ") : "Not available",
+    severity: haulSeverity,
+    explanation: roads
+      ? "Road-network drive distance to the nearest mapped ready-mix plant and quarry or aggregate yard. Long hauls add " +
+        "trucking time and delivery surcharges, and ready-mix beyond about 40 miles risks the 90-minute discharge limit."
+      : "Road network data unavailable for this site."
   });
 
   return signals;
@@ -312,8 +533,35 @@ export function buildProbabilisticEstimate(args: {
   return result;
 }
 
-export function buildCostDrivers(signals: Signal[]): CostDriver[] {
+// Expected weather days over the configured phases; dated by month when a planned start is given.
+export function buildWeatherCalendar(climate?: ClimateData, plannedStartDate?: string): WeatherSchedule | undefined {
+  if (!climate?.workability?.length) return undefined;
+  return buildWeatherSchedule(climate.workability, config.schedulePhases, plannedStartDate);
+}
+
+// Installed cost of the estimated service extensions. A service with nothing mapped is priced as a
+// high-severity extension, a floor since the real run (or a well, septic system or utility study) may cost more.
+function utilityExtensionCostUsd(utilities?: UtilityContext): { min: number; max: number } | undefined {
+  if (!utilities?.covered) return undefined;
+  let min = 0;
+  let max = 0;
+  for (const kind of UTILITY_EXTENSION_KINDS) {
+    const meters = utilities.extensionsMeters[kind];
+    const feet = meters == null ? HIGH_EXTENSION_FEET : meters * FEET_PER_METER;
+    const [low, high] = pair(config.utilityExtensionCostPerFt[kind]);
+    min += feet * low;
+    max += feet * high;
+  }
+  return { min: Math.round(min), max: Math.round(max) };
+}
+
+export function buildCostDrivers(
+  signals: Signal[],
+  options: { weather?: WeatherSchedule; utilities?: UtilityContext; baselineCostUsd?: number } = {}
+): CostDriver[] {
+  const { weather, utilities, baselineCostUsd } = options;
   const byId = new Map(signals.map((signal) => [signal.id, signal]));
+  const extensionCostUsd = utilityExtensionCostUsd(utilities);
 
   return config.costRules.map((rule): CostDriver | null => {
     const signal = byId.get(rule.signalId);
@@ -323,8 +571,17 @@ export function buildCostDrivers(signals: Signal[]): CostDriver[] {
     if (!severity) return null;
 
     const delta = rule.deltas[severity];
-    const [costMin, costMax] = pair(delta.pct);
-    const [daysMin, daysMax] = pair(delta.days);
+    const usd = rule.signalId === "utility-extension" ? extensionCostUsd : undefined;
+    // Measured extension costs replace the severity band once there is a baseline to express them against.
+    const [costMin, costMax] =
+      usd && baselineCostUsd
+        ? [round2((usd.min / baselineCostUsd) * 100), round2((usd.max / baselineCostUsd) * 100)]
+        : pair(delta.pct);
+    // Weather days come from the site calendar rather than the severity band when it is available.
+    const [daysMin, daysMax] =
+      rule.signalId === "weather-workability" && weather
+        ? [weather.expectedLostWorkdays, weather.p90LostWorkdays]
+        : pair(delta.days);
 
     return {
       id: `driver-${rule.signalId}`,
@@ -335,6 +592,7 @@ export function buildCostDrivers(signals: Signal[]): CostDriver[] {
       impactType: rule.impactType,
       estimatedCostDeltaPct: { min: costMin, max: costMax },
       estimatedScheduleDeltaDays: { min: daysMin, max: daysMax },
+      ...(usd ? { estimatedCostUsd: usd } : {}),
       rationale: rule.rationale
     };
   }).filter((driver): driver is CostDriver => driver !== null)
@@ -391,11 +649,16 @@ export function buildContingency(signals: Signal[]): ContingencyRange {
   };
 }
 
-export function buildBidAssumptions(signals: Signal[]): BidAssumption[] {
+export function buildBidAssumptions(signals: Signal[], frost?: FrostSummary): BidAssumption[] {
   const assumptions: BidAssumption[] = [...config.baselineBidAssumptions];
 
   const hasHighFlood = signals.some((signal) => signal.id === "flood-zone" && signal.severity === "high");
   const hasHighFire = signals.some((signal) => signal.id === "wildfire-risk" && signal.severity === "high");
+  const hasWetlands = signals.some((signal) => signal.id === "wetland-404" && signal.severity === "high");
+  // Any listing within the ASTM search distances can turn into contaminated spoils, so the exclusion follows the Phase I trigger.
+  const hasContamination = signals.some(
+    (signal) => signal.id === "contamination-risk" && (signal.severity === "high" || signal.severity === "medium")
+  );
 
   if (hasHighFlood) {
     assumptions.push(config.conditionalBidAssumptions.highFlood);
@@ -405,6 +668,19 @@ export function buildBidAssumptions(signals: Signal[]): BidAssumption[] {
     assumptions.push(config.conditionalBidAssumptions.highFire);
   }
 
+  if (hasWetlands) {
+    assumptions.push(config.conditionalBidAssumptions.wetlands);
+  }
+
+  if (hasContamination) {
+    assumptions.push(config.conditionalBidAssumptions.contamination);
+  }
+
+  if (frost) {
+    const template = config.conditionalBidAssumptions.minimumFootingDepth;
+    assumptions.push({ ...template, text: template.text.replace("{depthIn}", String(minimumFootingDepthIn(frost))) });
+  }
+
   return assumptions;
 }
 
@@ -0,0 +1,185 @@
+// Daily thresholds for a lost outdoor workday.
+export const RAIN_DAY_THRESHOLD_IN = 0.5;
+export const SNOW_DAY_THRESHOLD_IN = 1;
+export const FREEZING_MAX_TEMP_F = 32;
+// NWS "danger" band; crews shift to heat-illness protocols and reduced productive hours.
+export const HEAT_INDEX_THRESHOLD_F = 103;
+
+const WORKDAY_SHARE = 5 / 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// Mean days per year in each month; lost workdays count a day once even when several conditions hit.
+export type MonthlyWorkability = {
+  month: number;
+  rainDays: number;
+  freezingDays: number;
+  heatDays: number;
+  snowDays: number;
+  lostWorkdays: number;
+  p90LostWorkdays: number;
+};
+
+export type DailyWeather = {
+  dates: string[];
+  precipitationIn: Array<number | null>;
+  snowfallIn: Array<number | null>;
+  maxTempF: Array<number | null>;
+  minHumidityPct: Array<number | null>;
+};
+
+export type SchedulePhase = { name: string; durationDays: number };
+
+export type PhaseWeather = SchedulePhase & {
+  startDate?: string;
+  endDate?: string;
+  expectedLostWorkdays: number;
+  p90LostWorkdays: number;
+};
+
+export type WeatherSchedule = {
+  // Absent when no start date was given; phases then use a year-averaged rate.
+  plannedStartDate?: string;
+  phases: PhaseWeather[];
+  expectedLostWorkdays: number;
+  p90LostWorkdays: number;
+};
+
+// NWS Rothfusz regression; the simple Steadman form below 80 °F where the regression is not valid.
+export function heatIndexF(tempF: number, humidityPct: number): number {
+  const simple = 0.5 * (tempF + 61 + (tempF - 68) * 1.2 + humidityPct * 0.094);
+  if ((simple + tempF) / 2 < 80) return simple;
+  const t = tempF;
+  const rh = humidityPct;
+  return (
+    -42.379 +
+    2.04901523 * t +
+    10.14333127 * rh -
+    0.22475541 * t * rh -
+    0.00683783 * t * t -
+    0.05481717 * rh * rh +
+    0.00122874 * t * t * rh +
+    0.00085282 * t * rh * rh -
+    0.00000199 * t * t * rh * rh
+  );
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function p90(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.9))];
+}
+
+type MonthTally = { rain: number; freezing: number; heat: number; snow: number; lost: number };
+
+export function summarizeWorkability(daily: DailyWeather): MonthlyWorkability[] {
+  // year -> month index -> tally
+  const years = new Map<number, MonthTally[]>();
+  for (let i = 0; i < daily.dates.length; i++) {
+    const year = Number(daily.dates[i].slice(0, 4));
+    const month = Number(daily.dates[i].slice(5, 7)) - 1;
+    if (!Number.isFinite(year) || month < 0 || month > 11) continue;
+
+    const precip = daily.precipitationIn[i];
+    const snow = daily.snowfallIn[i];
+    const maxTemp = daily.maxTempF[i];
+    const humidity = daily.minHumidityPct[i];
+    const rain = precip != null && precip >= RAIN_DAY_THRESHOLD_IN;
+    const snowy = snow != null && snow >= SNOW_DAY_THRESHOLD_IN;
+    const freezing = maxTemp != null && maxTemp <= FREEZING_MAX_TEMP_F;
+    const hot = maxTemp != null && humidity != null && heatIndexF(maxTemp, humidity) >= HEAT_INDEX_THRESHOLD_F;
+
+    let months = years.get(year);
+    if (!months) {
+      months = Array.from({ length: 12 }, () => ({ rain: 0, freezing: 0, heat: 0, snow: 0, lost: 0 }));
+      years.set(year, months);
+    }
+    const tally = months[month];
+    if (rain) tally.rain++;
+    if (freezing) tally.freezing++;
+    if (hot) tally.heat++;
+    if (snowy) tally.snow++;
+    if (rain || freezing || hot || snowy) tally.lost++;
+  }
+
+  const tallies = Array.from(years.values());
+  if (!tallies.length) return [];
+  const mean = (month: number, key: keyof MonthTally) =>
+    tallies.reduce((sum, months) => sum + months[month][key], 0) / tallies.length;
+
+  return MONTH_LABELS.map((_, month) => ({
+    month: month + 1,
+    rainDays: round1(mean(month, "rain")),
+    freezingDays: round1(mean(month, "freezing")),
+    heatDays: round1(mean(month, "heat")),
+    snowDays: round1(mean(month, "snow")),
+    lostWorkdays: round1(mean(month, "lost") * WORKDAY_SHARE),
+    p90LostWorkdays: round1(p90(tallies.map((months) => months[month].lost)) * WORKDAY_SHARE)
+  }));
+}
+
+export function annualLostWorkdays(calendar: MonthlyWorkability[]): number {
+  return round1(calendar.reduce((sum, month) => sum + month.lostWorkdays, 0));
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+function isoDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+// Spreads each month's lost workdays evenly over its calendar days and sums them across each phase.
+export function buildWeatherSchedule(
+  calendar: MonthlyWorkability[],
+  phases: SchedulePhase[],
+  plannedStartDate?: string
+): WeatherSchedule {
+  const byMonth = new Map(calendar.map((month) => [month.month - 1, month]));
+  const yearRate = {
+    expected: annualLostWorkdays(calendar) / 365,
+    p90: calendar.reduce((sum, month) => sum + month.p90LostWorkdays, 0) / 365
+  };
+
+  let cursor = plannedStartDate ? Date.parse(`${plannedStartDate}T00:00:00Z`) : NaN;
+  const dated = Number.isFinite(cursor);
+  const result: PhaseWeather[] = [];
+  for (const phase of phases) {
+    let expected = 0;
+    let worst = 0;
+    const start = cursor;
+    for (let day = 0; day < phase.durationDays; day++) {
+      if (!dated) {
+        expected += yearRate.expected;
+        worst += yearRate.p90;
+        continue;
+      }
+      const date = new Date(cursor + day * DAY_MS);
+      const month = byMonth.get(date.getUTCMonth());
+      const span = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+      expected += (month?.lostWorkdays ?? 0) / span;
+      worst += (month?.p90LostWorkdays ?? 0) / span;
+    }
+    if (dated) cursor += phase.durationDays * DAY_MS;
+    result.push({
+      ...phase,
+      startDate: dated ? isoDate(start) : undefined,
+      endDate: dated ? isoDate(cursor - DAY_MS) : undefined,
+      expectedLostWorkdays: round1(expected),
+      p90LostWorkdays: round1(worst)
+    });
+  }
+
+  return {
+    plannedStartDate: dated ? plannedStartDate : undefined,
+    phases: result,
+    expectedLostWorkdays: round1(result.reduce((sum, phase) => sum + phase.expectedLostWorkdays, 0)),
+    p90LostWorkdays: round1(result.reduce((sum, phase) => sum + phase.p90LostWorkdays, 0))
+  };
+}
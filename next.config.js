@@ -1,6 +1,12 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  reactStrictMode: true
+  reactStrictMode: true,
+  experimental: {
+    // Bundled datasets are read from disk at runtime, so file tracing cannot see them.
+    outputFileTracingIncludes: {
+      "/api/**/*": ["./data/**/*"]
+    }
+  }
 };
 
 module.exports = nextConfig;
@@ -0,0 +1,41 @@
+// Runs the v2 analysis for one demo address against a throwaway dev server with SITE_INTEL_FIXTURES set,
+// so the fixtures in fixtures/http can be replayed (or re-recorded) without starting the app by hand.
+//
+//   node scripts/analyze-demo.mjs replay   # serve fixtures/http with no network access
+//   node scripts/analyze-demo.mjs record   # query the live upstreams and rewrite the fixtures they answer
+import { fixtureModeArg, withFixtureServer } from "./fixture-server.mjs";
+
+const MODE = fixtureModeArg() ?? "replay";
+const PORT = process.env.DEMO_PORT || "3100";
+const DEMO = { name: "Ames", address: "300 E Lincoln Way, Ames, IA 50010" };
+
+async function analyze(baseUrl) {
+  const response = await fetch(`${baseUrl}/api/analyze-v2`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ address: DEMO.address })
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(`HTTP ${response.status}: ${body?.error || "Unknown API error"}`);
+  if (!Array.isArray(body?.signals) || !Array.isArray(body?.sources)) throw new Error("Response is missing signals or sources");
+  return body;
+}
+
+async function main() {
+  console.log(`Analyzing ${DEMO.name} (${DEMO.address}) with SITE_INTEL_FIXTURES=${MODE}`);
+  const body = await withFixtureServer(MODE, PORT, analyze);
+  for (const source of body.sources) {
+    console.log(`${source.status.padEnd(11)} ${source.name}${source.detail ? ` - ${source.detail}` : ""}`);
+  }
+  // In replay mode a source without a fixture reports the same way as during an outage.
+  const fellBack = body.sources.filter((source) => source.status !== "ok").length;
+  console.log(
+    `\n${body.signals.length} signals, confidence ${body.confidenceScore}; ` +
+      `${fellBack} of ${body.sources.length} sources degraded or unavailable`
+  );
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+// Pulls NOAA Atlas 14 partial-duration-series depths from the PFDS for one point and writes it into
+// data/atlas14-pfds.json (replacing any point with the same name).
+//
+//   node scripts/build-atlas14-table.mjs --lat 42.03 --lon -93.61 --name "Ames, IA" [--fresh]
+import { existsSync, readFileSync, writeFileSync } from "fs";
+
+const PFDS_URL = "https://hdsc.nws.noaa.gov/cgi-bin/hdsc/new/cgi_readH5.py";
+// Same row and column order as lib/sources.ts reads back.
+const DURATIONS = [
+  "5-min", "10-min", "15-min", "30-min", "60-min", "2-hr", "3-hr", "6-hr", "12-hr", "24-hr",
+  "2-day", "3-day", "4-day", "7-day", "10-day", "20-day", "30-day", "45-day", "60-day"
+];
+const RECURRENCE_YEARS = [1, 2, 5, 10, 25, 50, 100, 200, 500, 1000];
+
+function argValue(name) {
+  const idx = process.argv.indexOf(`--${name}`);
+  return idx >= 0 ? process.argv[idx + 1] : undefined;
+}
+
+function assignment(text, name) {
+  return text.match(new RegExp(`(?:^|\\n)\\s*${name}\\s*=\\s*(.+?);\\s*(?:\\n|$)`))?.[1];
+}
+
+async function main() {
+  const lat = Number(argValue("lat"));
+  const lon = Number(argValue("lon"));
+  const name = argValue("name");
+  const outFile = argValue("out") ?? "data/atlas14-pfds.json";
+  if (!Number.isFinite(lat) || !Number.isFinite(lon) || !name) {
+    console.error('Usage: node scripts/build-atlas14-table.mjs --lat <lat> --lon <lon> --name "<label>" [--fresh] [--out <json>]');
+    process.exit(1);
+  }
+
+  const params = new URLSearchParams({ lat: String(lat), lon: String(lon), type: "pf", data: "depth", units: "english", series: "pds" });
+  const res = await fetch(`${PFDS_URL}?${params.toString()}`);
+  if (!res.ok) throw new Error(`${res.status} ${res.statusText} for ${PFDS_URL}`);
+  const text = await res.text();
+  const quantiles = assignment(text, "quantiles");
+  if (!quantiles) throw new Error(`PFDS returned no estimates for ${lat},${lon} (outside Atlas 14 coverage?)`);
+  const depthsIn = JSON.parse(quantiles.replace(/'/g, '"')).map((row) => row.map(Number));
+  const region = assignment(text, "region")?.replace(/['"]/g, "");
+
+  const existing = !process.argv.includes("--fresh") && existsSync(outFile) ? JSON.parse(readFileSync(outFile, "utf8")) : undefined;
+  if (existing && (existing.durations?.join() !== DURATIONS.join() || existing.recurrenceYears?.join() !== RECURRENCE_YEARS.join())) {
+    console.error(`${outFile} uses a different duration/recurrence layout; pass --fresh to start a new table.`);
+    process.exit(1);
+  }
+  const table = {
+    version: "NOAA Atlas 14 PDS depths",
+    sample: Boolean(existing?.sample),
+    durations: DURATIONS,
+    recurrenceYears: RECURRENCE_YEARS,
+    points: [...(existing?.points ?? []).filter((point) => point.name !== name), { name, region, lat, lon, depthsIn }]
+  };
+  writeFileSync(outFile, `${JSON.stringify(table)}\n`);
+  console.log(`Wrote ${depthsIn.length} durations for "${name}" to ${outFile}`);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
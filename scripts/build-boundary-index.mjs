@@ -0,0 +1,103 @@
+// Builds data/us-boundaries.json from Census cartographic boundary files (cb_<year>_us_state_5m,
+// cb_<year>_us_county_5m, cb_<year>_us_cbsa_5m) converted to GeoJSON, e.g. with
+// `ogr2ogr -f GeoJSON -t_srs EPSG:4326 states.geojson cb_2023_us_state_5m.shp`.
+// CBSA populations come from the Census Population Estimates file (cbsa-est<year>-alldata.csv).
+//
+//   node scripts/build-boundary-index.mjs --states states.geojson --counties counties.geojson --cbsas cbsas.geojson --population cbsa-est2023-alldata.csv
+import { readFileSync, writeFileSync } from "fs";
+
+function argValue(name) {
+  const idx = process.argv.indexOf(`--${name}`);
+  return idx >= 0 ? process.argv[idx + 1] : undefined;
+}
+
+function readFeatures(file) {
+  const collection = JSON.parse(readFileSync(file, "utf8"));
+  return (collection.features ?? []).filter(
+    (feature) => feature.geometry?.type === "Polygon" || feature.geometry?.type === "MultiPolygon"
+  );
+}
+
+// Rounds to `digits` decimals (4 is ~10 m) and drops vertices that collapse onto their predecessor.
+function roundGeometry(geometry, digits) {
+  const factor = 10 ** digits;
+  const round = (value) => Math.round(value * factor) / factor;
+  const roundRing = (ring) => {
+    const out = [];
+    for (const [lon, lat] of ring) {
+      const pos = [round(lon), round(lat)];
+      const prev = out[out.length - 1];
+      if (!prev || prev[0] !== pos[0] || prev[1] !== pos[1]) out.push(pos);
+    }
+    return out;
+  };
+  const roundPolygon = (rings) => rings.map(roundRing).filter((ring) => ring.length >= 4);
+  if (geometry.type === "Polygon") return { type: "Polygon", coordinates: roundPolygon(geometry.coordinates) };
+  return {
+    type: "MultiPolygon",
+    coordinates: geometry.coordinates.map(roundPolygon).filter((polygon) => polygon.length > 0)
+  };
+}
+
+// Latest POPESTIMATE column per CBSA; the alldata file also carries division and county rows, which are skipped.
+function readPopulation(file) {
+  const [header, ...lines] = readFileSync(file, "latin1").split(/\r?\n/).filter(Boolean);
+  const columns = header.split(",");
+  const estimate = columns.filter((name) => /^POPESTIMATE\d{4}$/.test(name)).sort().pop() ?? "CENSUS2020POP";
+  const population = new Map();
+  for (const line of lines) {
+    // NAME is quoted and may contain commas; the numeric columns follow it.
+    const values = line.match(/("[^"]*"|[^,]*)(,|$)/g).map((value) => value.replace(/,$/, "").replace(/^"|"$/g, ""));
+    const row = Object.fromEntries(columns.map((name, idx) => [name, values[idx]]));
+    if (row.MDIV || row.STCOU) continue;
+    const value = Number(row[estimate]);
+    if (row.CBSA && Number.isFinite(value)) population.set(row.CBSA, value);
+  }
+  return population;
+}
+
+function main() {
+  const statesFile = argValue("states");
+  const countiesFile = argValue("counties");
+  const cbsasFile = argValue("cbsas");
+  const populationFile = argValue("population");
+  const outFile = argValue("out") ?? "data/us-boundaries.json";
+  const digits = Number(argValue("precision") ?? 4);
+  if (!statesFile || !countiesFile || !cbsasFile) {
+    console.error(
+      "Usage: node scripts/build-boundary-index.mjs --states <geojson> --counties <geojson> --cbsas <geojson> [--population <csv>] [--precision 4] [--version <label>] [--out <json>]"
+    );
+    process.exit(1);
+  }
+
+  const states = readFeatures(statesFile).map(({ properties: p, geometry }) => ({
+    fips: p.STATEFP,
+    abbr: p.STUSPS,
+    name: p.NAME,
+    geometry: roundGeometry(geometry, digits)
+  }));
+  const abbrByFips = new Map(states.map((state) => [state.fips, state.abbr]));
+
+  const counties = readFeatures(countiesFile).map(({ properties: p, geometry }) => ({
+    fips: p.GEOID,
+    name: p.NAMELSAD ?? p.NAME,
+    state: p.STUSPS ?? abbrByFips.get(p.STATEFP),
+    geometry: roundGeometry(geometry, digits)
+  }));
+
+  const population = populationFile ? readPopulation(populationFile) : new Map();
+  const cbsas = readFeatures(cbsasFile).map(({ properties: p, geometry }) => ({
+    code: p.CBSAFP ?? p.GEOID,
+    name: p.NAME,
+    // LSAD M1 is a Metropolitan Statistical Area, M2 a Micropolitan one.
+    type: p.LSAD === "M1" ? "metropolitan" : "micropolitan",
+    population: population.get(p.CBSAFP ?? p.GEOID),
+    geometry: roundGeometry(geometry, digits)
+  }));
+
+  const version = argValue("version") ?? "Census cartographic boundary files";
+  writeFileSync(outFile, `${JSON.stringify({ version, sample: false, states, counties, cbsas })}\n`);
+  console.log(`Wrote ${states.length} states, ${counties.length} counties and ${cbsas.length} CBSAs to ${outFile}`);
+}
+
+main();
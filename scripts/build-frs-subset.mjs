@@ -0,0 +1,148 @@
+// Builds data/epa-regulated-facilities.json from the EPA FRS national single file (NATIONAL_SINGLE.CSV in
+// national_single.zip) and EPA UST Finder CSV exports of the UST facility and LUST release layers, keeping
+// listings that fall inside the given bounding boxes (widened by the 1-mile ASTM search distance).
+//
+//   node scripts/build-frs-subset.mjs --frs NATIONAL_SINGLE.CSV --ust ust_facilities.csv --lust lust_releases.csv \
+//     --bbox -93.70,41.97,-93.52,42.08 [--bbox ...] [--out data/epa-regulated-facilities.json]
+import { createReadStream, writeFileSync } from "fs";
+import { createInterface } from "readline";
+
+// FRS program system acronyms kept, and the screening type each maps to (same as lib/sources.ts).
+const FRS_PROGRAMS = { SEMS: "superfund", RCRAINFO: "rcra", ACRES: "brownfield" };
+// FRS interest types that mark an RCRA handler as more than a generator (RcraUniverse in lib/sources.ts);
+// handlers matching neither are written as generators.
+const RCRA_UNIVERSES = [
+  [/CORRECTIVE ACTION/, "corrective-action"],
+  [/\bTSD\b|TREATMENT.*STORAGE.*DISPOSAL/, "tsd"]
+];
+// ~1 mile in degrees of latitude; longitude is widened by the same amount, which errs wide.
+const MARGIN_DEG = 0.015;
+
+function argValues(name) {
+  const values = [];
+  process.argv.forEach((arg, idx) => {
+    if (arg === `--${name}` && process.argv[idx + 1]) values.push(process.argv[idx + 1]);
+  });
+  return values;
+}
+
+function parseCsvLine(line) {
+  const fields = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+// Streams rows as objects keyed by upper-cased header names; the FRS file is too large to read at once.
+async function* csvRows(file) {
+  let header;
+  for await (const line of createInterface({ input: createReadStream(file), crlfDelay: Infinity })) {
+    if (!line.trim()) continue;
+    const fields = parseCsvLine(line);
+    if (!header) {
+      header = fields.map((name) => name.trim().toUpperCase());
+      continue;
+    }
+    yield Object.fromEntries(header.map((name, idx) => [name, fields[idx]]));
+  }
+}
+
+function inside(lat, lon, boxes) {
+  return boxes.some(([west, south, east, north]) => lon >= west && lon <= east && lat >= south && lat <= north);
+}
+
+function round(value) {
+  return Math.round(value * 1e5) / 1e5;
+}
+
+async function main() {
+  const boxes = argValues("bbox").map((value) => value.split(",").map(Number));
+  const outFile = argValues("out")[0] ?? "data/epa-regulated-facilities.json";
+  const frsFiles = argValues("frs");
+  if (!frsFiles.length || !boxes.length || boxes.some((box) => box.length !== 4 || box.some((v) => !Number.isFinite(v)))) {
+    console.error(
+      "Usage: node scripts/build-frs-subset.mjs --frs <NATIONAL_SINGLE.CSV> [--ust <csv>] [--lust <csv>] " +
+        "--bbox <west,south,east,north> [--bbox ...] [--out <json>]"
+    );
+    process.exit(1);
+  }
+  const widened = boxes.map(([west, south, east, north]) => [west - MARGIN_DEG, south - MARGIN_DEG, east + MARGIN_DEG, north + MARGIN_DEG]);
+
+  const facilities = [];
+  for (const file of frsFiles) {
+    for await (const row of csvRows(file)) {
+      const lat = Number(row.LATITUDE83);
+      const lon = Number(row.LONGITUDE83);
+      if (!Number.isFinite(lat) || !Number.isFinite(lon) || !inside(lat, lon, widened)) continue;
+      // PGM_SYS_ACRNMS lists "ACRONYM:ID" pairs; a facility on several lists gets one row per type.
+      const acronyms = new Set(String(row.PGM_SYS_ACRNMS ?? "").split(",").map((entry) => entry.split(":")[0].trim()));
+      const interests = String(row.INTEREST_TYPES ?? "").toUpperCase();
+      const rcraUniverse = RCRA_UNIVERSES.find(([pattern]) => pattern.test(interests))?.[1] ?? "generator";
+      for (const [acronym, type] of Object.entries(FRS_PROGRAMS)) {
+        if (!acronyms.has(acronym)) continue;
+        facilities.push({
+          name: row.PRIMARY_NAME,
+          type,
+          registryId: row.REGISTRY_ID,
+          rcraUniverse: type === "rcra" ? rcraUniverse : undefined,
+          lat: round(lat),
+          lon: round(lon)
+        });
+      }
+    }
+  }
+
+  // UST Finder column names differ between the facility and release layers.
+  for (const [type, files] of [["ust", argValues("ust")], ["lust", argValues("lust")]]) {
+    for (const file of files) {
+      for await (const row of csvRows(file)) {
+        const lat = Number(row.LATITUDE);
+        const lon = Number(row.LONGITUDE);
+        if (!Number.isFinite(lat) || !Number.isFinite(lon) || !inside(lat, lon, widened)) continue;
+        facilities.push({
+          name: row.NAME ?? row.FACILITY_NAME ?? row.SITE_NAME,
+          type,
+          status: row.FACILITY_STATUS ?? row.STATUS ?? undefined,
+          lat: round(lat),
+          lon: round(lon)
+        });
+      }
+    }
+  }
+
+  const subset = {
+    version: argValues("version")[0] ?? "EPA FRS + UST Finder",
+    sample: false,
+    // Read back by lib/sources.ts: outside these boxes the subset says nothing about listings.
+    coverage: boxes,
+    facilities
+  };
+  writeFileSync(outFile, `${JSON.stringify(subset)}\n`);
+  console.log(`Wrote ${facilities.length} listings to ${outFile}`);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,108 @@
+// Builds data/nri-tracts.json from the FEMA National Risk Index census tract table
+// (NRI_Table_CensusTracts.csv) and the Census Gazetteer tract file for tract internal points.
+//
+//   node scripts/build-nri-table.mjs --nri NRI_Table_CensusTracts.csv --gazetteer 2020_Gaz_tracts_national.txt [--states IA,IL]
+import { readFileSync, writeFileSync } from "fs";
+
+const HAZARD_PREFIXES = [
+  "AVLN", "CFLD", "CWAV", "DRGT", "ERQK", "HAIL", "HWAV", "HRCN", "ISTM",
+  "LNDS", "LTNG", "RFLD", "SWND", "TRND", "TSUN", "VLCN", "WFIR", "WNTW"
+];
+const TEXT_FIELDS = ["TRACTFIPS", "COUNTY", "STATEABBRV", "RISK_RATNG", "EAL_RATNG", "SOVI_RATNG", "RESL_RATNG"];
+const NUMBER_FIELDS = ["RISK_SCORE", "EAL_VALT"];
+
+function argValue(name) {
+  const idx = process.argv.indexOf(`--${name}`);
+  return idx >= 0 ? process.argv[idx + 1] : undefined;
+}
+
+// Minimal RFC 4180 line splitter; NRI quotes county names that contain commas.
+function splitCsvLine(line) {
+  const fields = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      fields.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+function readTable(file, split) {
+  const [header, ...lines] = readFileSync(file, "utf8").split(/\r?\n/).filter(Boolean);
+  const columns = split(header).map((name) => name.trim());
+  return lines.map((line) => {
+    const values = split(line);
+    return Object.fromEntries(columns.map((name, idx) => [name, values[idx]?.trim() ?? ""]));
+  });
+}
+
+function toNumber(raw) {
+  const value = Number(raw);
+  return raw !== "" && Number.isFinite(value) ? value : undefined;
+}
+
+function main() {
+  const nriFile = argValue("nri");
+  const gazetteerFile = argValue("gazetteer");
+  const outFile = argValue("out") ?? "data/nri-tracts.json";
+  const states = argValue("states")?.toUpperCase().split(",");
+  if (!nriFile || !gazetteerFile) {
+    console.error("Usage: node scripts/build-nri-table.mjs --nri <csv> --gazetteer <txt> [--states IA,IL] [--out <json>]");
+    process.exit(1);
+  }
+
+  const points = new Map(
+    readTable(gazetteerFile, (line) => line.split("\t")).map((row) => [
+      row.GEOID,
+      { lat: toNumber(row.INTPTLAT), lon: toNumber(row.INTPTLONG) }
+    ])
+  );
+
+  const rows = readTable(nriFile, splitCsvLine);
+  const tracts = [];
+  for (const row of rows) {
+    if (states && !states.includes(row.STATEABBRV)) continue;
+    const point = points.get(row.TRACTFIPS);
+    if (point?.lat == null || point?.lon == null) continue;
+
+    const tract = { lat: point.lat, lon: point.lon };
+    for (const field of TEXT_FIELDS) if (row[field]) tract[field] = row[field];
+    for (const field of NUMBER_FIELDS) {
+      const value = toNumber(row[field]);
+      if (value != null) tract[field] = value;
+    }
+    for (const prefix of HAZARD_PREFIXES) {
+      for (const suffix of ["RISKR", "EALR"]) {
+        const value = row[`${prefix}_${suffix}`];
+        if (value && value !== "Not Applicable") tract[`${prefix}_${suffix}`] = value;
+      }
+      const loss = toNumber(row[`${prefix}_EALT`]);
+      if (loss) tract[`${prefix}_EALT`] = Math.round(loss);
+    }
+    tracts.push(tract);
+  }
+
+  const version = rows[0]?.NRI_VER || "FEMA NRI";
+  writeFileSync(outFile, `${JSON.stringify({ version, sample: false, tracts })}\n`);
+  console.log(`Wrote ${tracts.length} tracts to ${outFile}`);
+}
+
+main();
@@ -0,0 +1,78 @@
+// Builds data/nwi-wetlands.geojson from a USFWS NWI state download (the <ST>_Wetlands layer converted to
+// GeoJSON, e.g. `ogr2ogr -f GeoJSON -t_srs EPSG:4326 -select ATTRIBUTE,WETLAND_TYPE,ACRES ia.geojson IA_geodatabase_wetlands.gdb IA_Wetlands`),
+// keeping only polygons that touch the given bounding boxes.
+//
+//   node scripts/build-nwi-subset.mjs --input ia.geojson --bbox -93.66,41.99,-93.56,42.06 [--bbox ...] [--out data/nwi-wetlands.geojson]
+import { readFileSync, writeFileSync } from "fs";
+
+function argValues(name) {
+  const values = [];
+  process.argv.forEach((arg, idx) => {
+    if (arg === `--${name}` && process.argv[idx + 1]) values.push(process.argv[idx + 1]);
+  });
+  return values;
+}
+
+function rings(geometry) {
+  if (geometry?.type === "Polygon") return geometry.coordinates;
+  if (geometry?.type === "MultiPolygon") return geometry.coordinates.flat();
+  return [];
+}
+
+function touches(geometry, [west, south, east, north]) {
+  let minLon = Infinity, minLat = Infinity, maxLon = -Infinity, maxLat = -Infinity;
+  for (const ring of rings(geometry)) {
+    for (const [lon, lat] of ring) {
+      minLon = Math.min(minLon, lon);
+      maxLon = Math.max(maxLon, lon);
+      minLat = Math.min(minLat, lat);
+      maxLat = Math.max(maxLat, lat);
+    }
+  }
+  return minLon <= east && maxLon >= west && minLat <= north && maxLat >= south;
+}
+
+// ~1 m at 5 decimals is finer than NWI's mapping scale.
+function roundGeometry(geometry) {
+  const round = (value) => Math.round(value * 1e5) / 1e5;
+  const roundRing = (ring) => ring.map(([lon, lat]) => [round(lon), round(lat)]);
+  return geometry.type === "Polygon"
+    ? { type: "Polygon", coordinates: geometry.coordinates.map(roundRing) }
+    : { type: "MultiPolygon", coordinates: geometry.coordinates.map((polygon) => polygon.map(roundRing)) };
+}
+
+function main() {
+  const inputs = argValues("input");
+  const boxes = argValues("bbox").map((value) => value.split(",").map(Number));
+  const outFile = argValues("out")[0] ?? "data/nwi-wetlands.geojson";
+  if (!inputs.length || !boxes.length || boxes.some((box) => box.length !== 4 || box.some((v) => !Number.isFinite(v)))) {
+    console.error("Usage: node scripts/build-nwi-subset.mjs --input <geojson> [--input ...] --bbox <west,south,east,north> [--bbox ...] [--out <geojson>]");
+    process.exit(1);
+  }
+
+  const features = [];
+  for (const input of inputs) {
+    const collection = JSON.parse(readFileSync(input, "utf8"));
+    for (const feature of collection.features ?? []) {
+      if (!rings(feature.geometry).length || !boxes.some((box) => touches(feature.geometry, box))) continue;
+      const { ATTRIBUTE, WETLAND_TYPE, ACRES } = feature.properties ?? {};
+      features.push({
+        type: "Feature",
+        properties: { ATTRIBUTE, WETLAND_TYPE, ACRES },
+        geometry: roundGeometry(feature.geometry)
+      });
+    }
+  }
+
+  const metadata = {
+    title: "USFWS National Wetlands Inventory - bundled screening subset",
+    version: argValues("version")[0] ?? "NWI state download",
+    sample: false,
+    // Read back by lib/sources.ts: outside these boxes the subset says nothing about wetlands.
+    coverage: boxes
+  };
+  writeFileSync(outFile, `${JSON.stringify({ type: "FeatureCollection", metadata, features })}\n`);
+  console.log(`Wrote ${features.length} wetland polygons to ${outFile}`);
+}
+
+main();
@@ -0,0 +1,130 @@
+// Builds data/road-network.json from an OpenStreetMap extract exported to GeoJSON, e.g.
+//   osmium tags-filter region.osm.pbf w/highway nwr/industrial nwr/landuse=quarry nwr/man_made=works -o roads.osm.pbf
+//   osmium export roads.osm.pbf -o roads.geojson
+// keeping drivable ways, concrete plants and quarries that touch the given bounding boxes. Ways sharing an OSM node
+// share a vertex, so intersections are matched by coordinate.
+//
+//   node scripts/build-road-network.mjs --input roads.geojson --bbox -93.70,41.97,-93.52,42.08 [--bbox ...] [--out data/road-network.json]
+import { readFileSync, writeFileSync } from "fs";
+
+// Not usable by construction traffic.
+const EXCLUDED_HIGHWAYS = new Set([
+  "footway", "path", "cycleway", "steps", "pedestrian", "bridleway", "corridor", "platform", "construction", "proposed", "abandoned", "bus_guideway", "raceway"
+]);
+const SHORT_TONS_PER_TONNE = 1.10231;
+
+function argValues(name) {
+  const values = [];
+  process.argv.forEach((arg, idx) => {
+    if (arg === `--${name}` && process.argv[idx + 1]) values.push(process.argv[idx + 1]);
+  });
+  return values;
+}
+
+function positions(geometry) {
+  if (geometry?.type === "Point") return [geometry.coordinates];
+  if (geometry?.type === "LineString") return geometry.coordinates;
+  if (geometry?.type === "MultiLineString" || geometry?.type === "Polygon") return geometry.coordinates.flat();
+  if (geometry?.type === "MultiPolygon") return geometry.coordinates.flat(2);
+  return [];
+}
+
+function touches(geometry, [west, south, east, north]) {
+  return positions(geometry).some(([lon, lat]) => lon >= west && lon <= east && lat >= south && lat <= north);
+}
+
+// OSM maxweight is metric tonnes unless a unit says otherwise; the app works in U.S. short tons.
+function maxweightTons(value) {
+  const match = String(value ?? "").trim().match(/^([\d.]+)\s*(t|st|lbs?|kg)?$/i);
+  if (!match) return undefined;
+  const amount = Number(match[1]);
+  const unit = (match[2] ?? "t").toLowerCase();
+  const tons = unit === "st" ? amount : unit.startsWith("lb") ? amount / 2000 : unit === "kg" ? (amount / 1000) * SHORT_TONS_PER_TONNE : amount * SHORT_TONS_PER_TONNE;
+  return Number.isFinite(tons) && tons > 0 ? Math.round(tons * 10) / 10 : undefined;
+}
+
+function plantKind(properties = {}) {
+  const product = String(properties.product ?? "").toLowerCase();
+  if (properties.industrial === "concrete_plant" || (properties.man_made === "works" && /concrete/.test(product))) return "ready-mix";
+  if (
+    properties.landuse === "quarry" ||
+    properties.industrial === "aggregate" ||
+    (properties.man_made === "works" && /gravel|sand|aggregate|stone|asphalt/.test(product))
+  ) {
+    return "aggregate";
+  }
+  return undefined;
+}
+
+// Plants mapped as areas are placed at their vertex average.
+function plantPoint(geometry) {
+  const points = positions(geometry);
+  const lon = points.reduce((sum, [value]) => sum + value, 0) / points.length;
+  const lat = points.reduce((sum, [, value]) => sum + value, 0) / points.length;
+  return { lon: Math.round(lon * 1e5) / 1e5, lat: Math.round(lat * 1e5) / 1e5 };
+}
+
+function main() {
+  const inputs = argValues("input");
+  const boxes = argValues("bbox").map((value) => value.split(",").map(Number));
+  const outFile = argValues("out")[0] ?? "data/road-network.json";
+  if (!inputs.length || !boxes.length || boxes.some((box) => box.length !== 4 || box.some((v) => !Number.isFinite(v)))) {
+    console.error("Usage: node scripts/build-road-network.mjs --input <geojson> [--input ...] --bbox <west,south,east,north> [--bbox ...] [--out <json>]");
+    process.exit(1);
+  }
+
+  // Hauls run well past the coverage boxes, so roads and plants are kept from a wider area around them.
+  const margin = Number(argValues("margin")[0] ?? 0.75);
+  const widened = boxes.map(([west, south, east, north]) => [west - margin, south - margin, east + margin, north + margin]);
+
+  const nodes = [];
+  const nodeIds = new Map();
+  const nodeId = ([lon, lat]) => {
+    const coord = [Math.round(lon * 1e6) / 1e6, Math.round(lat * 1e6) / 1e6];
+    const key = coord.join(",");
+    if (!nodeIds.has(key)) {
+      nodeIds.set(key, nodes.length);
+      nodes.push(coord);
+    }
+    return nodeIds.get(key);
+  };
+
+  const ways = [];
+  const plants = [];
+  for (const input of inputs) {
+    const collection = JSON.parse(readFileSync(input, "utf8"));
+    for (const feature of collection.features ?? []) {
+      const properties = feature.properties ?? {};
+      if (!widened.some((box) => touches(feature.geometry, box))) continue;
+
+      const kind = plantKind(properties);
+      if (kind) {
+        plants.push({ kind, name: properties.name, ...plantPoint(feature.geometry) });
+        continue;
+      }
+      if (feature.geometry?.type !== "LineString" || typeof properties.highway !== "string") continue;
+      if (EXCLUDED_HIGHWAYS.has(properties.highway) || properties.hgv === "no" || properties.access === "no") continue;
+      ways.push({
+        highway: properties.highway,
+        name: properties.name,
+        ref: properties.ref,
+        maxweightTons: maxweightTons(properties.maxweight),
+        nodes: feature.geometry.coordinates.map(nodeId)
+      });
+    }
+  }
+
+  const network = {
+    version: argValues("version")[0] ?? "OpenStreetMap extract",
+    sample: false,
+    // Read back by lib/roads.ts: outside these boxes the extract says nothing about access.
+    coverage: boxes,
+    nodes,
+    ways,
+    plants
+  };
+  writeFileSync(outFile, `${JSON.stringify(network)}\n`);
+  console.log(`Wrote ${ways.length} ways over ${nodes.length} nodes and ${plants.length} plants to ${outFile}`);
+}
+
+main();
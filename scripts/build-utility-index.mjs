@@ -0,0 +1,122 @@
+// Builds data/utility-infrastructure.json from GeoJSON exports of the HIFLD Electric Power Transmission Lines,
+// Electric Substations and Natural Gas Pipelines layers, the EPA Community Water System Service Areas layer,
+// and a local sewer service area layer (sanitary district or municipal sewershed boundaries), keeping only
+// features that touch the given bounding boxes.
+//
+//   node scripts/build-utility-index.mjs --transmission lines.geojson --substations subs.geojson \
+//     --gas pipelines.geojson --water cws.geojson --sewer sewer.geojson --bbox -93.70,41.97,-93.52,42.08 [--bbox ...]
+import { readFileSync, writeFileSync } from "fs";
+
+function argValues(name) {
+  const values = [];
+  process.argv.forEach((arg, idx) => {
+    if (arg === `--${name}` && process.argv[idx + 1]) values.push(process.argv[idx + 1]);
+  });
+  return values;
+}
+
+function readFeatures(name) {
+  return argValues(name).flatMap((file) => JSON.parse(readFileSync(file, "utf8")).features ?? []);
+}
+
+// HIFLD and EPA layers disagree on the name column.
+function featureName(properties = {}) {
+  return properties.NAME ?? properties.PWS_Name ?? properties.Operator ?? properties.OWNER ?? properties.name ?? undefined;
+}
+
+function voltageKv(properties = {}) {
+  const value = Number(properties.VOLTAGE ?? properties.MAX_VOLT);
+  // HIFLD uses -999999 for unknown voltage.
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function positions(geometry) {
+  if (geometry?.type === "Point") return [geometry.coordinates];
+  if (geometry?.type === "LineString") return geometry.coordinates;
+  if (geometry?.type === "MultiLineString" || geometry?.type === "Polygon") return geometry.coordinates.flat();
+  if (geometry?.type === "MultiPolygon") return geometry.coordinates.flat(2);
+  return [];
+}
+
+function touches(geometry, [west, south, east, north]) {
+  let minLon = Infinity, minLat = Infinity, maxLon = -Infinity, maxLat = -Infinity;
+  for (const [lon, lat] of positions(geometry)) {
+    minLon = Math.min(minLon, lon);
+    maxLon = Math.max(maxLon, lon);
+    minLat = Math.min(minLat, lat);
+    maxLat = Math.max(maxLat, lat);
+  }
+  return minLon <= east && maxLon >= west && minLat <= north && maxLat >= south;
+}
+
+const round = (value) => Math.round(value * 1e5) / 1e5;
+const roundRing = (ring) => ring.map(([lon, lat]) => [round(lon), round(lat)]);
+
+// Multi-part lines are split so each part is measured on its own.
+function lineRows(features) {
+  return features.flatMap((feature) => {
+    const parts =
+      feature.geometry.type === "LineString" ? [feature.geometry.coordinates]
+      : feature.geometry.type === "MultiLineString" ? feature.geometry.coordinates
+      : [];
+    return parts
+      .filter((part) => part.length >= 2)
+      .map((part) => ({ name: featureName(feature.properties), voltageKv: voltageKv(feature.properties), coordinates: roundRing(part) }));
+  });
+}
+
+function areaRows(features) {
+  return features
+    .filter((feature) => feature.geometry.type === "Polygon" || feature.geometry.type === "MultiPolygon")
+    .map((feature) => ({
+      name: featureName(feature.properties),
+      geometry:
+        feature.geometry.type === "Polygon"
+          ? { type: "Polygon", coordinates: feature.geometry.coordinates.map(roundRing) }
+          : { type: "MultiPolygon", coordinates: feature.geometry.coordinates.map((polygon) => polygon.map(roundRing)) }
+    }));
+}
+
+function main() {
+  const boxes = argValues("bbox").map((value) => value.split(",").map(Number));
+  const outFile = argValues("out")[0] ?? "data/utility-infrastructure.json";
+  if (!boxes.length || boxes.some((box) => box.length !== 4 || box.some((v) => !Number.isFinite(v)))) {
+    console.error(
+      "Usage: node scripts/build-utility-index.mjs --transmission <geojson> --substations <geojson> --gas <geojson> " +
+        "--water <geojson> --sewer <geojson> --bbox <west,south,east,north> [--bbox ...] [--out <json>]"
+    );
+    process.exit(1);
+  }
+
+  // Lines and substations outside the boxes can still be the nearest asset, so those layers get a wider margin.
+  const margin = 0.15;
+  const widened = boxes.map(([west, south, east, north]) => [west - margin, south - margin, east + margin, north + margin]);
+  const pick = (name, within) => readFeatures(name).filter((feature) => within.some((box) => touches(feature.geometry, box)));
+
+  const index = {
+    version: argValues("version")[0] ?? "HIFLD / EPA CWS",
+    sample: false,
+    // Read back by lib/utilities.ts: outside these boxes the index says nothing about utilities.
+    coverage: boxes,
+    transmissionLines: lineRows(pick("transmission", widened)),
+    substations: pick("substations", widened)
+      .filter((feature) => feature.geometry?.type === "Point")
+      .map((feature) => ({
+        name: featureName(feature.properties),
+        voltageKv: voltageKv(feature.properties),
+        lon: round(feature.geometry.coordinates[0]),
+        lat: round(feature.geometry.coordinates[1])
+      })),
+    gasPipelines: lineRows(pick("gas", widened)),
+    waterServiceAreas: areaRows(pick("water", widened)),
+    sewerServiceAreas: areaRows(pick("sewer", widened))
+  };
+  writeFileSync(outFile, `${JSON.stringify(index)}\n`);
+  console.log(
+    `Wrote ${index.transmissionLines.length} line segments, ${index.substations.length} substations, ` +
+      `${index.gasPipelines.length} pipeline segments, ${index.waterServiceAreas.length} water and ` +
+      `${index.sewerServiceAreas.length} sewer service areas to ${outFile}`
+  );
+}
+
+main();
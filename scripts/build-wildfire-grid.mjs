@@ -0,0 +1,138 @@
+// Samples the USFS Wildfire Hazard Potential raster and SILVIS WUI polygons over a bounding box and
+// writes the result as a tile of data/wildfire-hazard-grid.json (replacing any tile with the same name).
+//
+//   node scripts/build-wildfire-grid.mjs --bbox -105.4,39.9,-105.1,40.1 --name "Boulder, CO" [--cell 0.01] [--fresh]
+import { existsSync, readFileSync, writeFileSync } from "fs";
+
+const WHP_IMAGESERVER_URL =
+  "https://apps.fs.usda.gov/fsgisx01/rest/services/RDW_Wildfire/RMRS_WildfireHazardPotential_classified_2023/ImageServer";
+const WUI_QUERY_URL = "https://apps.fs.usda.gov/fsgisx01/rest/services/RDW_Wildfire/SILVIS_WUI_2020/MapServer/0/query";
+const SAMPLE_BATCH = 500;
+
+function argValue(name) {
+  const idx = process.argv.indexOf(`--${name}`);
+  return idx >= 0 ? process.argv[idx + 1] : undefined;
+}
+
+async function getJson(url, body) {
+  const res = await fetch(url, body ? { method: "POST", body } : undefined);
+  if (!res.ok) throw new Error(`${res.status} ${res.statusText} for ${url}`);
+  return res.json();
+}
+
+// Same grid codes as lib/sources.ts reads back.
+function wuiCode(raw) {
+  if (!raw) return "0";
+  if (/intermix/i.test(raw)) return "I";
+  if (/interface/i.test(raw)) return "F";
+  if (/water/i.test(raw)) return "W";
+  if (/noveg/i.test(raw)) return "N";
+  if (/veg/i.test(raw)) return "V";
+  return "0";
+}
+
+function ringContains(ring, [x, y]) {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+function polygonContains(geometry, point) {
+  const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.some(([outer, ...holes]) => ringContains(outer, point) && !holes.some((hole) => ringContains(hole, point)));
+}
+
+async function sampleWhp(points) {
+  const values = [];
+  for (let start = 0; start < points.length; start += SAMPLE_BATCH) {
+    const batch = points.slice(start, start + SAMPLE_BATCH);
+    const body = new URLSearchParams({
+      geometry: JSON.stringify({ points: batch, spatialReference: { wkid: 4326 } }),
+      geometryType: "esriGeometryMultipoint",
+      returnFirstValueOnly: "true",
+      f: "json"
+    });
+    const data = await getJson(`${WHP_IMAGESERVER_URL}/getSamples`, body);
+    for (const sample of data.samples ?? []) {
+      const value = Number(sample.value);
+      values[start + sample.locationId] = Number.isInteger(value) && value >= 1 && value <= 7 ? String(value) : "0";
+    }
+  }
+  return points.map((_, idx) => values[idx] ?? "0");
+}
+
+async function fetchWuiPolygons([west, south, east, north]) {
+  const features = [];
+  for (let offset = 0; ; offset += 1000) {
+    const params = new URLSearchParams({
+      geometry: [west, south, east, north].join(","),
+      geometryType: "esriGeometryEnvelope",
+      inSR: "4326",
+      spatialRel: "esriSpatialRelIntersects",
+      outFields: "WUICLASS2020",
+      returnGeometry: "true",
+      outSR: "4326",
+      resultOffset: String(offset),
+      resultRecordCount: "1000",
+      f: "geojson"
+    });
+    const data = await getJson(`${WUI_QUERY_URL}?${params.toString()}`);
+    features.push(...(data.features ?? []));
+    if (!data.exceededTransferLimit && !data.properties?.exceededTransferLimit) return features;
+  }
+}
+
+async function main() {
+  const bbox = argValue("bbox")?.split(",").map(Number);
+  const name = argValue("name");
+  const cell = Number(argValue("cell") ?? 0.01);
+  const outFile = argValue("out") ?? "data/wildfire-hazard-grid.json";
+  if (!bbox || bbox.length !== 4 || bbox.some((v) => !Number.isFinite(v)) || !name) {
+    console.error('Usage: node scripts/build-wildfire-grid.mjs --bbox <west,south,east,north> --name "<label>" [--cell 0.01] [--fresh] [--out <json>]');
+    process.exit(1);
+  }
+
+  const [west, south, east, north] = bbox;
+  const rows = Math.ceil((north - south) / cell);
+  const cols = Math.ceil((east - west) / cell);
+  // Cell centers, row-major from the south-west corner.
+  const points = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      points.push([west + (col + 0.5) * cell, south + (row + 0.5) * cell]);
+    }
+  }
+
+  const whp = await sampleWhp(points);
+  const wuiPolygons = await fetchWuiPolygons(bbox);
+  const wui = points.map((point) => {
+    const match = wuiPolygons.find((feature) => feature.geometry && polygonContains(feature.geometry, point));
+    return wuiCode(match?.properties?.WUICLASS2020);
+  });
+
+  const toRows = (codes) => Array.from({ length: rows }, (_, row) => codes.slice(row * cols, (row + 1) * cols).join(""));
+  const tile = { name, south, west, rows, cols, whp: toRows(whp), wui: toRows(wui) };
+
+  const existing = !process.argv.includes("--fresh") && existsSync(outFile) ? JSON.parse(readFileSync(outFile, "utf8")) : undefined;
+  if (existing && existing.cellSizeDeg !== cell) {
+    console.error(`Existing grid uses ${existing.cellSizeDeg}° cells; pass --cell ${existing.cellSizeDeg} or --fresh.`);
+    process.exit(1);
+  }
+  const grid = {
+    version: "WHP 2023 / SILVIS WUI 2020 sampled grid",
+    sample: Boolean(existing?.sample),
+    cellSizeDeg: cell,
+    tiles: [...(existing?.tiles ?? []).filter((t) => t.name !== name), tile]
+  };
+  writeFileSync(outFile, `${JSON.stringify(grid)}\n`);
+  console.log(`Wrote ${rows}x${cols} tile "${name}" to ${outFile}`);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
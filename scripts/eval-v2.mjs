@@ -1,5 +1,10 @@
+// node scripts/eval-v2.mjs [replay|record]: with a fixture mode the cases run against a throwaway dev server
+// with SITE_INTEL_FIXTURES set (see scripts/analyze-demo.mjs); without one, against the app at EVAL_BASE_URL.
+import { fixtureModeArg, withFixtureServer } from "./fixture-server.mjs";
+
+const MODE = fixtureModeArg();
 const BASE_URL = process.env.EVAL_BASE_URL || "http://127.0.0.1:3000";
-const ENDPOINT = `${BASE_URL}/api/analyze-v2`;
+const FIXTURE_PORT = process.env.EVAL_PORT || "3101";
 
 const CASES = [
   { name: "Ames", address: "300 E Lincoln Way, Ames, IA 50010" },
@@ -19,8 +24,8 @@ function summarizeFailure(name, reasons) {
   }
 }
 
-async function runCase(testCase) {
-  const response = await fetch(ENDPOINT, {
+async function runCase(testCase, baseUrl) {
+  const response = await fetch(`${baseUrl}/api/analyze-v2`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({ address: testCase.address })
@@ -60,20 +65,13 @@ async function waitForApi(maxAttempts = 30, delayMs = 1000) {
   return false;
 }
 
-async function main() {
-  console.log(`Running V2 evals against ${ENDPOINT}`);
-  const ready = await waitForApi();
-  if (!ready) {
-    console.error(`Could not reach ${BASE_URL}. Start the app first with: npm run dev`);
-    process.exit(1);
-  }
-
+async function runCases(baseUrl) {
   let passCount = 0;
   const failures = [];
 
   for (const testCase of CASES) {
     try {
-      const result = await runCase(testCase);
+      const result = await runCase(testCase, baseUrl);
       if (result.ok) {
         passCount += 1;
         const warningsCount = Array.isArray(result.body?.warnings) ? result.body.warnings.length : 0;
@@ -91,6 +89,24 @@ async function main() {
   }
 
   console.log(`\nSummary: ${passCount}/${CASES.length} passed`);
+  return failures;
+}
+
+async function main() {
+  let failures;
+  if (MODE) {
+    console.log(`Running V2 evals with SITE_INTEL_FIXTURES=${MODE}`);
+    failures = await withFixtureServer(MODE, FIXTURE_PORT, runCases);
+  } else {
+    console.log(`Running V2 evals against ${BASE_URL}/api/analyze-v2`);
+    const ready = await waitForApi();
+    if (!ready) {
+      console.error(`Could not reach ${BASE_URL}. Start the app first with: npm run dev`);
+      process.exit(1);
+    }
+    failures = await runCases(BASE_URL);
+  }
+
   if (failures.length > 0) {
     process.exit(1);
   }
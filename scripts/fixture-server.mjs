@@ -0,0 +1,38 @@
+// Throwaway dev server with SITE_INTEL_FIXTURES set, shared by the demo and eval scripts.
+import { spawn } from "child_process";
+
+export function fixtureModeArg(argv = process.argv) {
+  const mode = argv[2];
+  return mode === "record" || mode === "replay" ? mode : undefined;
+}
+
+// Any HTTP answer means the server is up; the dev server compiles the route on the first real request.
+async function waitForServer(url, maxAttempts = 180, delayMs = 1000) {
+  for (let i = 0; i < maxAttempts; i++) {
+    try {
+      await fetch(url);
+      return true;
+    } catch {}
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+  return false;
+}
+
+// Runs `run(baseUrl)` against a dev server in the given fixture mode, with the response cache off so every
+// request reaches the fixtures, and stops the server afterwards.
+export async function withFixtureServer(mode, port, run) {
+  const baseUrl = `http://127.0.0.1:${port}`;
+  const server = spawn(process.execPath, ["node_modules/next/dist/bin/next", "dev", "-p", String(port)], {
+    env: { ...process.env, SITE_INTEL_FIXTURES: mode, SITE_INTEL_CACHE: "off" },
+    stdio: ["ignore", "ignore", "inherit"]
+  });
+  const exited = new Promise((resolve) => server.once("exit", resolve));
+
+  try {
+    if (!(await waitForServer(`${baseUrl}/api/analyze-v2`))) throw new Error(`Dev server did not come up on ${baseUrl}`);
+    return await run(baseUrl);
+  } finally {
+    server.kill();
+    await exited;
+  }
+}